@@ -0,0 +1,16 @@
+import type { MetadataRoute } from "next";
+
+/** Lets labs install zkHealth and prove without a connection. */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "zkHealth",
+    short_name: "zkHealth",
+    description:
+      "Generate and verify zero-knowledge proofs for medical data without revealing sensitive health information.",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#f8fafc",
+    theme_color: "#4f46e5",
+    icons: [{ src: "/favicon.ico", sizes: "any", type: "image/x-icon" }],
+  };
+}
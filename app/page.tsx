@@ -91,13 +91,24 @@ export default function Dashboard() {
             <DataExtraction
               key="extraction"
               data={zkp.medicalData}
+              claimType={zkp.claimType}
+              onSelectClaimType={zkp.selectClaimType}
+              policy={zkp.policy}
+              onChangePolicy={zkp.updatePolicy}
+              disclose={zkp.disclose}
+              onToggleDisclosure={zkp.toggleDisclosure}
               onGenerateProof={zkp.generateProof}
             />
           )}
 
           {/* PROVING */}
           {zkp.state === "PROVING" && (
-            <CircuitVisualizer key="circuit" progress={zkp.progress} />
+            <CircuitVisualizer
+              key="circuit"
+              progress={zkp.progress}
+              phase={zkp.provePhase}
+              onCancel={zkp.cancelProof}
+            />
           )}
 
           {/* PROOF GENERATED */}
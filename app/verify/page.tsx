@@ -24,15 +24,12 @@ import { OnChainClaimStatus } from "@/components/onchain-claim-status";
 import { cn, formatDateTime, truncateHash } from "@/lib/utils";
 import { publishStatusUpdate, retrieveClaimBundle } from "@/lib/claim-sync";
 import { LabSignatureStatus } from "@/components/lab-signature-status";
+import { describeRule, describeThresholdKey } from "@/lib/claim-rules";
+import { decodeBundleFromUrl } from "@/lib/claim-engine";
 
 function decodeBundleData(encoded: string): string | null {
   try {
-    const decoded = decodeURIComponent(
-      atob(encoded)
-        .split("")
-        .map((c) => "%" + ("00" + c.charCodeAt(0).toString(16)).slice(-2))
-        .join(""),
-    );
+    const decoded = decodeBundleFromUrl(encoded);
     JSON.parse(decoded);
     return decoded;
   } catch {
@@ -287,6 +284,8 @@ function VerifyContent() {
               key="parsed"
               bundle={v.bundle}
               onVerify={handleVerify}
+              strictMode={v.strictMode}
+              onStrictModeChange={v.setStrictMode}
               error={v.error}
               autoLoadSource={autoLoadSource}
             />
@@ -406,11 +405,15 @@ function VerifyContent() {
 function ParsedView({
   bundle,
   onVerify,
+  strictMode,
+  onStrictModeChange,
   error,
   autoLoadSource,
 }: {
   bundle: NonNullable<ReturnType<typeof useVerifier>["bundle"]>;
   onVerify: () => void;
+  strictMode: boolean;
+  onStrictModeChange: (strict: boolean) => void;
   error: string | null;
   autoLoadSource: "qr" | "link" | "local" | null;
 }) {
@@ -492,7 +495,9 @@ function ParsedView({
                   className="flex items-center gap-2 text-xs sm:text-sm text-slate-600"
                 >
                   <div className="w-1.5 h-1.5 rounded-full bg-indigo-400 flex-shrink-0" />
-                  <span className="capitalize font-medium">{key}</span>
+                  <span className="font-medium">
+                    {describeThresholdKey(key)}
+                  </span>
                   <span className="text-[10px] sm:text-xs font-mono text-indigo-600 bg-indigo-50 px-1.5 py-0.5 rounded">
                     threshold = {val}
                   </span>
@@ -500,6 +505,13 @@ function ParsedView({
               ),
             )}
           </div>
+          {bundle.publicParams.rule && (
+            <p className="text-[10px] sm:text-[11px] text-slate-500 mt-2 font-mono break-words">
+              Policy rule {bundle.publicParams.rule.id}@
+              {bundle.publicParams.rule.version}:{" "}
+              {describeRule(bundle.publicParams.rule.root)}
+            </p>
+          )}
           <p className="text-[10px] sm:text-[11px] text-slate-400 mt-2 italic">
             Actual values are cryptographically hidden.
           </p>
@@ -526,6 +538,19 @@ function ParsedView({
         </div>
       )}
 
+      <label className="flex items-start gap-2.5 px-1 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={strictMode}
+          onChange={(e) => onStrictModeChange(e.target.checked)}
+          className="mt-0.5 w-4 h-4 accent-indigo-600"
+        />
+        <span className="text-xs sm:text-sm text-slate-600">
+          <span className="font-semibold text-slate-700">Strict mode</span>{" "}
+          — refuse simulated proofs, which carry no cryptographic guarantee
+        </span>
+      </label>
+
       <motion.div className="flex justify-center pt-1 sm:pt-2">
         <motion.button
           onClick={onVerify}
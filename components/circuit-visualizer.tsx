@@ -2,10 +2,15 @@
 
 import { useMemo } from "react";
 import { motion } from "framer-motion";
+import { X } from "lucide-react";
 import { GlassCard } from "./glass-card";
+import { PROVE_PHASES } from "@/lib/prover-protocol";
+import type { ProvePhase } from "@/lib/zkp-engine";
 
 interface CircuitVisualizerProps {
   progress: number;
+  phase?: ProvePhase | null;
+  onCancel?: () => void;
 }
 
 const MATH_SYMBOLS = ["∑", "∫", "∂", "∇", "π", "σ", "λ", "Ω", "≡", "∀"];
@@ -14,7 +19,11 @@ const RADIUS = 130;
 const CENTER = 180;
 const VIEWBOX = CENTER * 2;
 
-export function CircuitVisualizer({ progress }: CircuitVisualizerProps) {
+export function CircuitVisualizer({
+  progress,
+  phase,
+  onCancel,
+}: CircuitVisualizerProps) {
   const nodes = useMemo(
     () =>
       NODE_LABELS.map((label, i) => {
@@ -33,6 +42,7 @@ export function CircuitVisualizer({ progress }: CircuitVisualizerProps) {
 
   const circumference = 2 * Math.PI * (RADIUS + 30);
   const strokeOffset = circumference * (1 - progress / 100);
+  const phaseLabel = phase ? PROVE_PHASES[phase].label : "Computing proof";
 
   return (
     <motion.div
@@ -291,7 +301,7 @@ export function CircuitVisualizer({ progress }: CircuitVisualizerProps) {
                 transition={{ duration: 1, repeat: Infinity }}
               />
               <p className="text-[11px] sm:text-xs text-slate-500 font-medium">
-                Computing proof...{" "}
+                {phaseLabel}...{" "}
                 <span className="font-mono text-indigo-600">
                   {Math.round(progress)}%
                 </span>
@@ -300,6 +310,15 @@ export function CircuitVisualizer({ progress }: CircuitVisualizerProps) {
             <p className="text-[9px] sm:text-[10px] text-slate-400 font-mono">
               R1CS → QAP → Groth16
             </p>
+            {onCancel && (
+              <button
+                onClick={onCancel}
+                className="inline-flex items-center gap-1 mt-1 px-3 py-1.5 rounded-lg text-[11px] font-semibold text-slate-500 hover:text-red-600 hover:bg-red-50 transition-colors"
+              >
+                <X className="w-3 h-3" />
+                Cancel
+              </button>
+            )}
           </div>
         </div>
       </GlassCard>
@@ -20,7 +20,6 @@ import { cn } from "@/lib/utils";
 import {
   CLAIM_TYPES,
   buildClaimBundle,
-  type ClaimType,
   type ClaimDetails,
   type ClaimBundle,
 } from "@/lib/claim-engine";
@@ -40,11 +39,7 @@ export function ClaimBuilder({
   labName,
   onSubmitBundle,
 }: ClaimBuilderProps) {
-  const [policyNumber, setPolicyNumber] = useState("");
-  const [claimType, setClaimType] = useState<ClaimType>("diabetes_diagnosis");
-  const [insurerName, setInsurerName] = useState("");
   const [notes, setNotes] = useState("");
-  const [errors, setErrors] = useState<Record<string, string>>({});
   const [preparedBundle, setPreparedBundle] = useState<ClaimBundle | null>(
     null,
   );
@@ -54,27 +49,14 @@ export function ClaimBuilder({
   useEffect(() => {
     setPreparedBundle(null);
     setSignError(null);
-  }, [policyNumber, claimType, insurerName, notes]);
-
-  const validate = (): boolean => {
-    const newErrors: Record<string, string> = {};
-    if (!policyNumber.trim()) {
-      newErrors.policyNumber = "Policy number is required";
-    }
-    if (!insurerName.trim()) {
-      newErrors.insurerName = "Insurance company name is required";
-    }
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
-
-  const buildDraft = (): ClaimBundle | null => {
-    if (!validate()) return null;
+  }, [notes]);
 
+  // The proof's nullifier is scoped to the policy it was made for
+  const buildDraft = (): ClaimBundle => {
     const details: ClaimDetails = {
-      policyNumber: policyNumber.trim(),
-      claimType,
-      insurerName: insurerName.trim(),
+      policyNumber: proof.policyNumber,
+      claimType: proof.claimType,
+      insurerName: proof.insurerName,
       notes: notes.trim(),
     };
 
@@ -85,7 +67,6 @@ export function ClaimBuilder({
     try {
       setSignError(null);
       const draft = buildDraft();
-      if (!draft) return;
 
       setSigning(true);
       const issuer = await signBundleAsLab(draft);
@@ -150,56 +131,26 @@ export function ClaimBuilder({
 
       <GlassCard glow="indigo" padding="md" className="sm:p-8">
         <div className="space-y-4 sm:space-y-5">
-          <div className="space-y-1.5">
-            <label className="flex items-center gap-1.5 text-[10px] sm:text-xs font-semibold text-slate-600 uppercase tracking-wider">
-              <Tag className="w-3.5 h-3.5" />
-              Policy Number
-            </label>
-            <input
-              type="text"
-              value={policyNumber}
-              onChange={(e) => setPolicyNumber(e.target.value)}
-              placeholder="e.g., POL-2024-001234"
-              className={cn(
-                "w-full px-3 sm:px-4 py-2.5 sm:py-3 rounded-xl text-sm font-mono",
-                "bg-white/80 border transition-colors placeholder:text-slate-300",
-                "focus:outline-none focus:ring-2 focus:ring-indigo-400/40 focus:border-indigo-300",
-                errors.policyNumber
-                  ? "border-red-300 bg-red-50/50"
-                  : "border-slate-200/80",
-              )}
-            />
-            {errors.policyNumber && (
-              <p className="text-[10px] sm:text-xs text-red-500">
-                {errors.policyNumber}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-5">
+            <div className="space-y-1.5">
+              <p className="flex items-center gap-1.5 text-[10px] sm:text-xs font-semibold text-slate-600 uppercase tracking-wider">
+                <Tag className="w-3.5 h-3.5" />
+                Policy Number
               </p>
-            )}
-          </div>
+              <p className="px-3 sm:px-4 py-2.5 sm:py-3 rounded-xl text-sm font-mono bg-slate-50 border border-slate-200/80 text-slate-700 break-all">
+                {proof.policyNumber}
+              </p>
+            </div>
 
-          <div className="space-y-1.5">
-            <label className="flex items-center gap-1.5 text-[10px] sm:text-xs font-semibold text-slate-600 uppercase tracking-wider">
-              <Building2 className="w-3.5 h-3.5" />
-              Insurance Company
-            </label>
-            <input
-              type="text"
-              value={insurerName}
-              onChange={(e) => setInsurerName(e.target.value)}
-              placeholder="e.g., Blue Cross Health Insurance"
-              className={cn(
-                "w-full px-3 sm:px-4 py-2.5 sm:py-3 rounded-xl text-sm",
-                "bg-white/80 border transition-colors placeholder:text-slate-300",
-                "focus:outline-none focus:ring-2 focus:ring-indigo-400/40 focus:border-indigo-300",
-                errors.insurerName
-                  ? "border-red-300 bg-red-50/50"
-                  : "border-slate-200/80",
-              )}
-            />
-            {errors.insurerName && (
-              <p className="text-[10px] sm:text-xs text-red-500">
-                {errors.insurerName}
+            <div className="space-y-1.5">
+              <p className="flex items-center gap-1.5 text-[10px] sm:text-xs font-semibold text-slate-600 uppercase tracking-wider">
+                <Building2 className="w-3.5 h-3.5" />
+                Insurance Company
               </p>
-            )}
+              <p className="px-3 sm:px-4 py-2.5 sm:py-3 rounded-xl text-sm bg-slate-50 border border-slate-200/80 text-slate-700 break-words">
+                {proof.insurerName}
+              </p>
+            </div>
           </div>
 
           <div className="space-y-1.5">
@@ -207,48 +158,18 @@ export function ClaimBuilder({
               <ShieldCheck className="w-3.5 h-3.5" />
               Claim Type
             </label>
-            <div className="grid grid-cols-1 gap-2">
-              {Object.entries(CLAIM_TYPES).map(([key, config]) => (
-                <motion.button
-                  key={key}
-                  onClick={() => setClaimType(key as ClaimType)}
-                  whileTap={{ scale: 0.99 }}
-                  className={cn(
-                    "flex items-start gap-3 px-4 py-3 rounded-xl text-left transition-all border",
-                    claimType === key
-                      ? "bg-indigo-50 border-indigo-300 ring-1 ring-indigo-200"
-                      : "bg-white/60 border-slate-200/60 hover:border-slate-300",
-                  )}
-                >
-                  <div
-                    className={cn(
-                      "w-4 h-4 mt-0.5 rounded-full border-2 flex items-center justify-center flex-shrink-0 transition-colors",
-                      claimType === key
-                        ? "border-indigo-600 bg-indigo-600"
-                        : "border-slate-300",
-                    )}
-                  >
-                    {claimType === key && (
-                      <div className="w-1.5 h-1.5 rounded-full bg-white" />
-                    )}
-                  </div>
-                  <div>
-                    <p
-                      className={cn(
-                        "text-sm font-semibold",
-                        claimType === key
-                          ? "text-indigo-800"
-                          : "text-slate-700",
-                      )}
-                    >
-                      {config.label}
-                    </p>
-                    <p className="text-[11px] text-slate-400 mt-0.5">
-                      {config.description}
-                    </p>
-                  </div>
-                </motion.button>
-              ))}
+            <div className="flex items-start gap-3 px-4 py-3 rounded-xl border bg-indigo-50 border-indigo-300 ring-1 ring-indigo-200">
+              <div>
+                <p className="text-sm font-semibold text-indigo-800">
+                  {CLAIM_TYPES[proof.claimType].label}
+                </p>
+                <p className="text-[11px] text-slate-400 mt-0.5">
+                  Proven with circuit{" "}
+                  <span className="font-mono">{proof.circuit}</span> for this
+                  policy — choose a different claim type or policy before
+                  generating the proof.
+                </p>
+              </div>
             </div>
           </div>
 
@@ -3,76 +3,115 @@
 import { motion } from "framer-motion";
 import {
   Lock,
+  Eye,
   Droplets,
   Heart,
   Activity,
   TestTube,
+  FlaskConical,
+  Gauge,
+  HeartPulse,
+  Filter,
+  Scale,
   ArrowRight,
   ShieldAlert,
+  ShieldCheck,
+  Info,
+  Tag,
+  Building2,
 } from "lucide-react";
 import { GlassCard } from "./glass-card";
 import { cn } from "@/lib/utils";
-import type { MedicalData } from "@/hooks/use-zkp";
-import { THRESHOLDS } from "@/hooks/use-zkp";
+import type { ClaimPolicy, MedicalData } from "@/hooks/use-zkp";
+import { patientDetails, reportValues } from "@/lib/lab-signer";
+import { withDerivedMarkers } from "@/lib/derived-markers";
+import { LOINC_SYSTEM } from "@/lib/lab-results";
+import {
+  BIOMARKERS,
+  collectPredicates,
+  describePredicate,
+  describeRule,
+  type Biomarker,
+} from "@/lib/claim-rules";
+import { CIRCUITS } from "@/lib/circuits";
+import {
+  CLAIM_TYPES,
+  getClaimRule,
+  type ClaimType,
+} from "@/lib/claim-engine";
 
 interface DataExtractionProps {
   data: MedicalData;
+  claimType: ClaimType;
+  onSelectClaimType: (type: ClaimType) => void;
+  policy: ClaimPolicy;
+  onChangePolicy: (changes: Partial<ClaimPolicy>) => void;
+  disclose: Biomarker[];
+  onToggleDisclosure: (marker: Biomarker) => void;
   onGenerateProof: () => void;
 }
 
-interface FieldConfig {
-  key: string;
-  label: string;
-  getValue: (d: MedicalData) => string;
-  unit: string;
+interface MarkerStyle {
   icon: React.ComponentType<{ className?: string }>;
   color: string;
   bgColor: string;
 }
 
-const fields: FieldConfig[] = [
-  {
-    key: "sugar",
-    label: "Blood Sugar",
-    getValue: (d) => String(d.sugar ?? "—"),
-    unit: "mg/dL",
-    icon: Droplets,
-    color: "text-rose-500",
-    bgColor: "bg-rose-50",
-  },
-  {
-    key: "cholesterol",
-    label: "Cholesterol",
-    getValue: (d) => String(d.cholesterol ?? "—"),
-    unit: "mg/dL",
+const MARKER_STYLES: Record<Biomarker, MarkerStyle> = {
+  sugar: { icon: Droplets, color: "text-rose-500", bgColor: "bg-rose-50" },
+  cholesterol: {
     icon: Activity,
     color: "text-amber-500",
     bgColor: "bg-amber-50",
   },
-  {
-    key: "bloodPressure",
-    label: "Blood Pressure",
-    getValue: (d) =>
-      d.bloodPressure
-        ? `${d.bloodPressure.systolic}/${d.bloodPressure.diastolic}`
-        : "—",
-    unit: "mmHg",
-    icon: Heart,
-    color: "text-red-500",
-    bgColor: "bg-red-50",
-  },
-  {
-    key: "hemoglobin",
-    label: "Hemoglobin",
-    getValue: (d) => String(d.hemoglobin ?? "—"),
-    unit: "g/dL",
+  bpSystolic: { icon: Heart, color: "text-red-500", bgColor: "bg-red-50" },
+  bpDiastolic: { icon: Heart, color: "text-red-400", bgColor: "bg-red-50" },
+  hemoglobin: {
     icon: TestTube,
     color: "text-violet-500",
     bgColor: "bg-violet-50",
   },
-];
+  creatinine: {
+    icon: FlaskConical,
+    color: "text-sky-500",
+    bgColor: "bg-sky-50",
+  },
+  hba1c: { icon: Gauge, color: "text-orange-500", bgColor: "bg-orange-50" },
+  hdl: {
+    icon: HeartPulse,
+    color: "text-emerald-500",
+    bgColor: "bg-emerald-50",
+  },
+  egfr: { icon: Filter, color: "text-cyan-600", bgColor: "bg-cyan-50" },
+  cholesterolRatio: {
+    icon: Scale,
+    color: "text-amber-600",
+    bgColor: "bg-amber-50",
+  },
+};
+
+export function DataExtraction({
+  data,
+  claimType,
+  onSelectClaimType,
+  policy,
+  onChangePolicy,
+  disclose,
+  onToggleDisclosure,
+  onGenerateProof,
+}: DataExtractionProps) {
+  const { circuit } = CLAIM_TYPES[claimType];
+  const rule = getClaimRule(claimType);
+  // Series circuits prove from readings and cannot disclose values
+  const canDisclose = !CIRCUITS[circuit].readings;
+  // The report's values, then those the circuits derive from them
+  const values = withDerivedMarkers(reportValues(data), patientDetails(data));
+  const markers = (Object.keys(BIOMARKERS) as Biomarker[]).filter(
+    (marker) => values[marker] !== undefined,
+  );
+  // The proof's nullifier is scoped to the policy, so it comes first
+  const hasPolicy = !!policy.insurerName.trim() && !!policy.policyNumber.trim();
 
-export function DataExtraction({ data, onGenerateProof }: DataExtractionProps) {
   return (
     <motion.div
       initial={{ opacity: 0, y: 30 }}
@@ -90,27 +129,45 @@ export function DataExtraction({ data, onGenerateProof }: DataExtractionProps) {
           className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-indigo-50 border border-indigo-200/50 text-[10px] sm:text-xs font-semibold text-indigo-600 mb-3"
         >
           <ShieldAlert className="w-3 h-3" />
-          <span className="hidden sm:inline">
-            Values remain private — only the proof leaves your device
-          </span>
-          <span className="sm:hidden">Values stay private</span>
+          {disclose.length > 0 ? (
+            <span>
+              {disclose.length} disclosed — other values stay private
+            </span>
+          ) : (
+            <>
+              <span className="hidden sm:inline">
+                Values remain private — only the proof leaves your device
+              </span>
+              <span className="sm:hidden">Values stay private</span>
+            </>
+          )}
         </motion.div>
         {data.labName && (
           <p className="text-[10px] sm:text-xs text-slate-400 mt-1">
             Source: {data.labName}
           </p>
         )}
+        {data.series && (
+          <p className="text-[10px] sm:text-xs text-slate-400 mt-1">
+            {data.series.readings.length} dated{" "}
+            {BIOMARKERS[data.series.marker].label} readings on file
+          </p>
+        )}
       </div>
 
       {/* Data Grid */}
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
-        {fields.map((field, idx) => {
-          const Icon = field.icon;
-          const value = field.getValue(data);
+        {markers.map((marker, idx) => {
+          const { label, unit, derived } = BIOMARKERS[marker];
+          const style = MARKER_STYLES[marker];
+          const Icon = style.icon;
+          // Derived values are computed in the circuit, not signed
+          const disclosable = canDisclose && !derived;
+          const disclosed = disclosable && disclose.includes(marker);
 
           return (
             <motion.div
-              key={field.key}
+              key={marker}
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{
@@ -128,38 +185,67 @@ export function DataExtraction({ data, onGenerateProof }: DataExtractionProps) {
                     <div
                       className={cn(
                         "flex items-center justify-center w-9 h-9 sm:w-10 sm:h-10 rounded-xl",
-                        field.bgColor,
+                        style.bgColor,
                       )}
                     >
                       <Icon
-                        className={cn("w-4 h-4 sm:w-5 sm:h-5", field.color)}
+                        className={cn("w-4 h-4 sm:w-5 sm:h-5", style.color)}
                       />
                     </div>
                     <div>
                       <p className="text-[10px] sm:text-[11px] font-medium text-slate-400 uppercase tracking-wider">
-                        {field.label}
+                        {label}
+                        {derived && " · derived"}
                       </p>
                       <div className="flex items-center gap-2 mt-0.5 sm:mt-1">
                         <span
                           className="text-lg sm:text-xl font-bold text-slate-800 select-none"
-                          style={{ filter: "blur(8px)" }}
+                          style={
+                            disclosed ? undefined : { filter: "blur(8px)" }
+                          }
                         >
-                          {value}
+                          {values[marker]}
                         </span>
                         <span className="text-[10px] sm:text-xs text-slate-400 font-medium">
-                          {field.unit}
+                          {unit}
                         </span>
                       </div>
                     </div>
                   </div>
 
-                  <motion.div
-                    className="flex items-center justify-center w-7 h-7 rounded-lg bg-slate-100 text-slate-400 group-hover:bg-indigo-50 group-hover:text-indigo-500 transition-colors"
-                    whileHover={{ rotate: [0, -10, 10, 0] }}
-                    transition={{ duration: 0.4 }}
-                  >
-                    <Lock className="w-3.5 h-3.5" />
-                  </motion.div>
+                  {disclosable ? (
+                    <motion.button
+                      type="button"
+                      onClick={() => onToggleDisclosure(marker)}
+                      aria-pressed={disclosed}
+                      title={
+                        disclosed
+                          ? "Disclosed to the insurer — click to keep private"
+                          : `Disclose ${BIOMARKERS[marker].label} to the insurer`
+                      }
+                      whileTap={{ scale: 0.9 }}
+                      className={cn(
+                        "flex items-center justify-center w-7 h-7 rounded-lg transition-colors",
+                        disclosed
+                          ? "bg-indigo-600 text-white"
+                          : "bg-slate-100 text-slate-400 hover:bg-indigo-50 hover:text-indigo-500",
+                      )}
+                    >
+                      {disclosed ? (
+                        <Eye className="w-3.5 h-3.5" />
+                      ) : (
+                        <Lock className="w-3.5 h-3.5" />
+                      )}
+                    </motion.button>
+                  ) : (
+                    <motion.div
+                      className="flex items-center justify-center w-7 h-7 rounded-lg bg-slate-100 text-slate-400 group-hover:bg-indigo-50 group-hover:text-indigo-500 transition-colors"
+                      whileHover={{ rotate: [0, -10, 10, 0] }}
+                      transition={{ duration: 0.4 }}
+                    >
+                      <Lock className="w-3.5 h-3.5" />
+                    </motion.div>
+                  )}
                 </div>
               </GlassCard>
             </motion.div>
@@ -167,6 +253,135 @@ export function DataExtraction({ data, onGenerateProof }: DataExtractionProps) {
         })}
       </div>
 
+      {canDisclose && (
+        <p className="text-center text-[10px] sm:text-[11px] text-slate-400 px-2">
+          Click a lock to disclose that value to the insurer. The proof
+          shows it matches the lab-signed report; everything else stays
+          private.
+        </p>
+      )}
+
+      {/* Imported codes no claim reads */}
+      {data.unmapped && data.unmapped.length > 0 && (
+        <GlassCard padding="sm">
+          <p className="flex items-center gap-1.5 text-[10px] sm:text-[11px] font-semibold text-slate-500 uppercase tracking-wider mb-2">
+            <Info className="w-3.5 h-3.5" />
+            Not used for claims
+          </p>
+          <ul className="space-y-1 text-[11px] sm:text-xs text-slate-500">
+            {data.unmapped.map((u) => (
+              <li key={`${u.system}|${u.code}`}>
+                {u.display ?? u.code}{" "}
+                <span className="font-mono text-slate-400">
+                  ({u.system === LOINC_SYSTEM ? "LOINC " : ""}
+                  {u.code}){u.count > 1 && ` ×${u.count}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </GlassCard>
+      )}
+
+      {/* Policy — scopes the proof's nullifier */}
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 0.45 }}
+      >
+        <GlassCard padding="sm">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="space-y-1.5">
+              <span className="flex items-center gap-1.5 text-[10px] sm:text-[11px] font-semibold text-slate-500 uppercase tracking-wider">
+                <Building2 className="w-3.5 h-3.5" />
+                Insurance Company
+              </span>
+              <input
+                type="text"
+                value={policy.insurerName}
+                onChange={(e) => onChangePolicy({ insurerName: e.target.value })}
+                placeholder="e.g., Blue Cross Health Insurance"
+                className="w-full px-3 py-2.5 rounded-xl text-sm bg-white/80 border border-slate-200/80 placeholder:text-slate-300 focus:outline-none focus:ring-2 focus:ring-indigo-400/40 focus:border-indigo-300"
+              />
+            </label>
+            <label className="space-y-1.5">
+              <span className="flex items-center gap-1.5 text-[10px] sm:text-[11px] font-semibold text-slate-500 uppercase tracking-wider">
+                <Tag className="w-3.5 h-3.5" />
+                Policy Number
+              </span>
+              <input
+                type="text"
+                value={policy.policyNumber}
+                onChange={(e) =>
+                  onChangePolicy({ policyNumber: e.target.value })
+                }
+                placeholder="e.g., POL-2024-001234"
+                className="w-full px-3 py-2.5 rounded-xl text-sm font-mono bg-white/80 border border-slate-200/80 placeholder:text-slate-300 focus:outline-none focus:ring-2 focus:ring-indigo-400/40 focus:border-indigo-300"
+              />
+            </label>
+          </div>
+          <p className="mt-2 text-[10px] sm:text-[11px] text-slate-400">
+            The report can back one claim of each type per policy, so
+            the proof is made for this policy and cannot be moved to
+            another.
+          </p>
+        </GlassCard>
+      </motion.div>
+
+      {/* Claim type — selects the circuit and rule */}
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 0.5 }}
+      >
+        <GlassCard padding="sm">
+          <p className="flex items-center gap-1.5 text-[10px] sm:text-[11px] font-semibold text-slate-500 uppercase tracking-wider mb-2 sm:mb-3">
+            <ShieldCheck className="w-3.5 h-3.5" />
+            Claim Type
+          </p>
+          <div className="grid grid-cols-1 gap-2">
+            {Object.entries(CLAIM_TYPES).map(([key, config]) => (
+              <motion.button
+                key={key}
+                onClick={() => onSelectClaimType(key as ClaimType)}
+                whileTap={{ scale: 0.99 }}
+                className={cn(
+                  "flex items-start gap-3 px-4 py-3 rounded-xl text-left transition-all border",
+                  claimType === key
+                    ? "bg-indigo-50 border-indigo-300 ring-1 ring-indigo-200"
+                    : "bg-white/60 border-slate-200/60 hover:border-slate-300",
+                )}
+              >
+                <div
+                  className={cn(
+                    "w-4 h-4 mt-0.5 rounded-full border-2 flex items-center justify-center flex-shrink-0 transition-colors",
+                    claimType === key
+                      ? "border-indigo-600 bg-indigo-600"
+                      : "border-slate-300",
+                  )}
+                >
+                  {claimType === key && (
+                    <div className="w-1.5 h-1.5 rounded-full bg-white" />
+                  )}
+                </div>
+                <div>
+                  <p
+                    className={cn(
+                      "text-sm font-semibold",
+                      claimType === key ? "text-indigo-800" : "text-slate-700",
+                    )}
+                  >
+                    {config.label}
+                  </p>
+                  <p className="text-[11px] text-slate-400 mt-0.5">
+                    {config.description}
+                  </p>
+                </div>
+              </motion.button>
+            ))}
+          </div>
+        </GlassCard>
+      </motion.div>
+
       {/* Circuit criteria */}
       <motion.div
         initial={{ opacity: 0 }}
@@ -178,18 +393,22 @@ export function DataExtraction({ data, onGenerateProof }: DataExtractionProps) {
             Circuit Constraints (Public)
           </p>
           <div className="space-y-1.5 sm:space-y-2">
-            {Object.entries(THRESHOLDS).map(([key, threshold]) => (
+            {collectPredicates(rule.root).map((predicate, idx) => (
               <div
-                key={key}
+                key={idx}
                 className="flex items-center gap-2 text-xs sm:text-sm text-slate-600"
               >
                 <div className="w-1.5 h-1.5 rounded-full bg-indigo-400" />
                 <span className="font-mono text-[11px] sm:text-xs">
-                  {threshold.label}
+                  {describePredicate(predicate)}
                 </span>
               </div>
             ))}
           </div>
+          <p className="mt-2 sm:mt-3 text-[10px] sm:text-[11px] text-slate-400 font-mono break-words">
+            Circuit {circuit} · Rule {rule.id}@{rule.version}:{" "}
+            {describeRule(rule.root)}
+          </p>
         </GlassCard>
       </motion.div>
 
@@ -202,10 +421,12 @@ export function DataExtraction({ data, onGenerateProof }: DataExtractionProps) {
       >
         <motion.button
           onClick={onGenerateProof}
+          disabled={!hasPolicy}
           whileHover={{ scale: 1.02, y: -1 }}
           whileTap={{ scale: 0.98 }}
           className={cn(
             "relative flex items-center gap-2 sm:gap-2.5 px-5 sm:px-8 py-3 sm:py-3.5 rounded-xl",
+            !hasPolicy && "opacity-60 cursor-not-allowed",
             "bg-gradient-to-r from-indigo-600 to-violet-600",
             "text-white text-xs sm:text-sm font-semibold tracking-wide",
             "shadow-lg shadow-indigo-400/25",
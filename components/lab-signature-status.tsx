@@ -4,17 +4,9 @@ import { useEffect, useState } from "react";
 import { ShieldCheck, ShieldAlert, ShieldX, Loader2 } from "lucide-react";
 import { GlassCard } from "@/components/glass-card";
 import type { ClaimBundle } from "@/lib/claim-engine";
-import {
-  verifyBundleSignatureLocal,
-  isLabRegisteredOnChain,
-} from "@/lib/chain";
+import { checkLabSignature, type LabSignatureState } from "@/lib/chain";
 
-type SignatureState =
-  | "checking"
-  | "unsigned"
-  | "invalid"
-  | "signed_unregistered"
-  | "signed_registered";
+type SignatureState = "checking" | LabSignatureState;
 
 export function LabSignatureStatus({ bundle }: { bundle: ClaimBundle }) {
   const [state, setState] = useState<SignatureState>("checking");
@@ -24,27 +16,10 @@ export function LabSignatureStatus({ bundle }: { bundle: ClaimBundle }) {
     let mounted = true;
 
     async function run() {
-      if (!bundle.issuer) {
-        if (mounted) setState("unsigned");
-        return;
-      }
-
-      const local = await verifyBundleSignatureLocal(bundle);
-
-      if (!local.valid) {
-        if (mounted) {
-          setState("invalid");
-          setLabAddress(local.recoveredAddress ?? "");
-        }
-        return;
-      }
-
-      const registered = await isLabRegisteredOnChain(bundle.issuer.labAddress);
-
+      const result = await checkLabSignature(bundle);
       if (!mounted) return;
-
-      setLabAddress(bundle.issuer.labAddress);
-      setState(registered ? "signed_registered" : "signed_unregistered");
+      setState(result.state);
+      setLabAddress(result.labAddress);
     }
 
     run();
@@ -10,7 +10,8 @@ import {
 } from "lucide-react";
 import { GlassCard } from "@/components/glass-card";
 import type { ClaimBundle } from "@/lib/claim-engine";
-import { getClaimStatus, getTxUrl, type OnChainStatus } from "@/lib/chain";
+import { getClaimStatus, type OnChainStatus } from "@/lib/chain";
+import { getTxUrl } from "@/lib/networks";
 
 export function OnChainClaimStatus({ bundle }: { bundle: ClaimBundle }) {
   const [status, setStatus] = useState<OnChainStatus>("Unknown");
@@ -22,7 +23,11 @@ export function OnChainClaimStatus({ bundle }: { bundle: ClaimBundle }) {
     if (!claimId) return;
     setLoading(true);
     try {
-      const s = await getClaimStatus(claimId);
+      const s = await getClaimStatus(
+        claimId,
+        bundle.onChain?.chainId,
+        bundle.onChain?.contractAddress,
+      );
       setStatus(s);
     } finally {
       setLoading(false);
@@ -37,6 +42,8 @@ export function OnChainClaimStatus({ bundle }: { bundle: ClaimBundle }) {
 
   if (!bundle.onChain) return null;
 
+  const txUrl = getTxUrl(bundle.onChain.txHash, bundle.onChain.chainId);
+
   const icon =
     status === "Approved" ? (
       <CheckCircle2 className="w-4 h-4 text-emerald-600" />
@@ -79,15 +86,24 @@ export function OnChainClaimStatus({ bundle }: { bundle: ClaimBundle }) {
           <div className="mt-1 font-semibold text-slate-700">{status}</div>
         </div>
 
-        <a
-          href={getTxUrl(bundle.onChain.txHash)}
-          target="_blank"
-          rel="noreferrer"
-          className="inline-flex items-center gap-1.5 text-xs text-indigo-600 hover:underline"
-        >
-          View submit transaction
-          <ExternalLink className="w-3 h-3" />
-        </a>
+        {txUrl ? (
+          <a
+            href={txUrl}
+            target="_blank"
+            rel="noreferrer"
+            className="inline-flex items-center gap-1.5 text-xs text-indigo-600 hover:underline"
+          >
+            View submit transaction
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        ) : (
+          <div className="text-xs text-slate-500">
+            Submit transaction
+            <div className="font-mono text-slate-700 break-all mt-1">
+              {bundle.onChain.txHash}
+            </div>
+          </div>
+        )}
       </div>
     </GlassCard>
   );
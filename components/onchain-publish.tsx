@@ -12,7 +12,13 @@ import {
 import { GlassCard } from "@/components/glass-card";
 import { cn } from "@/lib/utils";
 import type { ClaimBundle } from "@/lib/claim-engine";
-import { submitBundleOnChain, getTxUrl, getAddressUrl } from "@/lib/chain";
+import { submitBundleOnChain } from "@/lib/chain";
+import {
+  ACTIVE_NETWORK,
+  getAddressUrl,
+  getNetworkByChainId,
+  getTxUrl,
+} from "@/lib/networks";
 
 export function OnChainPublish({
   bundle,
@@ -27,6 +33,17 @@ export function OnChainPublish({
   const signed = !!bundle.issuer;
   const submitted = !!bundle.onChain;
 
+  const labAddressUrl = bundle.issuer
+    ? getAddressUrl(bundle.issuer.labAddress)
+    : null;
+  const txUrl = bundle.onChain
+    ? getTxUrl(bundle.onChain.txHash, bundle.onChain.chainId)
+    : null;
+  const submittedOn = bundle.onChain
+    ? (getNetworkByChainId(bundle.onChain.chainId)?.name ??
+      `chain ${bundle.onChain.chainId}`)
+    : null;
+
   const handleSubmit = async () => {
     try {
       setError(null);
@@ -45,11 +62,13 @@ export function OnChainPublish({
       <div className="space-y-4">
         <div>
           <h3 className="text-sm font-semibold text-slate-700">
-            Sepolia + Chainlink Automation
+            {ACTIVE_NETWORK.name}
+            {ACTIVE_NETWORK.chainlink && " + Chainlink Automation"}
           </h3>
           <p className="text-xs text-slate-500 mt-1">
-            This bundle is already lab-signed. Submit it on-chain so Chainlink
-            Automation can process it automatically.
+            {ACTIVE_NETWORK.chainlink
+              ? "This bundle is already lab-signed. Submit it on-chain so Chainlink Automation can process it automatically."
+              : "This bundle is already lab-signed. Submit it on-chain, then process it manually on the local devnet."}
           </p>
         </div>
 
@@ -67,15 +86,21 @@ export function OnChainPublish({
                 Signed by Lab
               </span>
             </div>
-            <a
-              href={getAddressUrl(bundle.issuer.labAddress)}
-              target="_blank"
-              rel="noreferrer"
-              className="text-xs font-mono text-indigo-600 break-all inline-flex items-center gap-1 hover:underline"
-            >
-              {bundle.issuer.labAddress}
-              <ExternalLink className="w-3 h-3" />
-            </a>
+            {labAddressUrl ? (
+              <a
+                href={labAddressUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="text-xs font-mono text-indigo-600 break-all inline-flex items-center gap-1 hover:underline"
+              >
+                {bundle.issuer.labAddress}
+                <ExternalLink className="w-3 h-3" />
+              </a>
+            ) : (
+              <span className="text-xs font-mono text-slate-700 break-all">
+                {bundle.issuer.labAddress}
+              </span>
+            )}
           </div>
         )}
 
@@ -114,7 +139,7 @@ export function OnChainPublish({
         {bundle.onChain && (
           <div className="p-3 rounded-xl bg-emerald-50/70 border border-emerald-200/60 space-y-2">
             <div className="text-xs font-semibold text-emerald-700">
-              Claim submitted on Sepolia
+              Claim submitted on {submittedOn}
             </div>
             <div className="text-[11px] text-slate-600">
               Claim ID:
@@ -122,15 +147,21 @@ export function OnChainPublish({
                 {bundle.onChain.claimId}
               </div>
             </div>
-            <a
-              href={getTxUrl(bundle.onChain.txHash)}
-              target="_blank"
-              rel="noreferrer"
-              className="inline-flex items-center gap-1 text-xs text-indigo-600 hover:underline"
-            >
-              View transaction
-              <ExternalLink className="w-3 h-3" />
-            </a>
+            {txUrl ? (
+              <a
+                href={txUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="inline-flex items-center gap-1 text-xs text-indigo-600 hover:underline"
+              >
+                View transaction
+                <ExternalLink className="w-3 h-3" />
+              </a>
+            ) : (
+              <div className="text-[11px] font-mono text-slate-600 break-all">
+                Tx: {bundle.onChain.txHash}
+              </div>
+            )}
           </div>
         )}
       </div>
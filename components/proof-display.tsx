@@ -13,6 +13,7 @@ import {
   ArrowRight,
   BadgeCheck,
   FileCheck,
+  AlertTriangle,
 } from "lucide-react";
 import { GlassCard } from "./glass-card";
 import { cn, formatTimestamp, truncateHash } from "@/lib/utils";
@@ -76,7 +77,9 @@ export function ProofDisplay({
                     Self-Verified ✓
                   </h3>
                   <p className="text-[10px] sm:text-xs text-emerald-600">
-                    Proof is valid. Ready for insurance claim.
+                    {proof.mode === "simulated"
+                      ? "Simulated proof — strict verifiers will refuse it."
+                      : "Proof is valid. Ready for insurance claim."}
                   </p>
                 </div>
               </div>
@@ -93,6 +96,15 @@ export function ProofDisplay({
             <h3 className="text-xs sm:text-sm font-semibold text-slate-700">
               Proof Hash
             </h3>
+            {proof.mode === "simulated" && (
+              <span
+                title="No circuit artifact was available, so this proof is simulated and carries no cryptographic guarantee"
+                className="flex items-center gap-1 px-1.5 py-0.5 rounded-md text-[9px] sm:text-[10px] font-bold uppercase tracking-wider bg-amber-100 text-amber-700 border border-amber-200"
+              >
+                <AlertTriangle className="w-3 h-3" />
+                Simulated
+              </span>
+            )}
           </div>
           <button
             onClick={copyHash}
@@ -142,7 +154,7 @@ export function ProofDisplay({
           {
             icon: Cpu,
             label: "Gates",
-            value: proof.constraintCount.toLocaleString(),
+            value: proof.circuitMetrics?.gateCount.toLocaleString() ?? "—",
             color: "text-violet-500",
             bg: "bg-violet-50",
           },
@@ -189,6 +201,32 @@ export function ProofDisplay({
         })}
       </div>
 
+      {/* Circuit metadata — read from the compiled artifact */}
+      <GlassCard padding="sm" className="sm:p-6">
+        <h4 className="text-[10px] sm:text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 sm:mb-3">
+          Circuit
+        </h4>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-[10px] sm:text-xs">
+          <dt className="text-slate-400">Name</dt>
+          <dd className="font-mono text-slate-700">
+            {proof.circuit} v{proof.circuitVersion}
+          </dd>
+          <dt className="text-slate-400">Noir</dt>
+          <dd className="font-mono text-slate-700">
+            {proof.circuitMetrics?.noirVersion ?? "— (simulated)"}
+          </dd>
+          <dt className="text-slate-400">ACIR hash</dt>
+          <dd
+            className="font-mono text-slate-700 break-all"
+            title={proof.circuitMetrics?.acirHash}
+          >
+            {proof.circuitMetrics
+              ? truncateHash(proof.circuitMetrics.acirHash, 14)
+              : "— (simulated)"}
+          </dd>
+        </dl>
+      </GlassCard>
+
       {/* Public Inputs */}
       <GlassCard padding="sm" className="sm:p-6">
         <h4 className="text-[10px] sm:text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 sm:mb-3">
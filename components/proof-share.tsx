@@ -21,6 +21,7 @@ import { OnChainPublish } from "@/components/onchain-publish";
 import { cn, downloadJSON } from "@/lib/utils";
 import {
   serializeBundle,
+  encodeBundleForUrl,
   getExpiryDays,
   type ClaimBundle,
 } from "@/lib/claim-engine";
@@ -31,16 +32,6 @@ interface ProofShareProps {
   onShared: () => void;
 }
 
-function encodeBundleForURL(bundle: ClaimBundle): string {
-  const minified = JSON.stringify(bundle);
-  const encoded = btoa(
-    encodeURIComponent(minified).replace(/%([0-9A-F]{2})/g, (_, p1) =>
-      String.fromCharCode(parseInt(p1, 16)),
-    ),
-  );
-  return encoded;
-}
-
 export function ProofShare({ bundle, onShared }: ProofShareProps) {
   const [bundleState, setBundleState] = useState(bundle);
   const [copied, setCopied] = useState(false);
@@ -54,7 +45,7 @@ export function ProofShare({ bundle, onShared }: ProofShareProps) {
 
   const verifyUrl = useMemo(() => {
     const origin = typeof window !== "undefined" ? window.location.origin : "";
-    const encoded = encodeBundleForURL(bundleState);
+    const encoded = encodeBundleForUrl(bundleState);
     return `${origin}/verify?claimId=${encodeURIComponent(
       bundleState.claimId,
     )}&data=${encodeURIComponent(encoded)}`;
@@ -0,0 +1,25 @@
+"use client";
+
+import { useEffect } from "react";
+import { precacheCircuitArtifacts } from "@/lib/artifact-cache";
+
+/**
+ * Installs public/sw.js so `/` and `/verify` load offline, and
+ * caches every circuit while the connection lasts. Development
+ * builds skip both: a cached shell would hide hot reloads.
+ */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production") return;
+    if (!("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then(() => precacheCircuitArtifacts())
+      .catch((err) =>
+        console.warn("[Service Worker] Registration failed:", err),
+      );
+  }, []);
+
+  return null;
+}
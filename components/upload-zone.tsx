@@ -5,34 +5,59 @@ import { motion, AnimatePresence } from "framer-motion";
 import { Upload, FileJson, AlertCircle, Download } from "lucide-react";
 import { GlassCard } from "./glass-card";
 import { cn } from "@/lib/utils";
+import {
+  JSON_PARSER,
+  detectReportParser,
+  getReportParser,
+  reportParsers,
+} from "@/lib/report-parsers";
 
 interface UploadZoneProps {
-  onUpload: (file: File) => void;
+  onUpload: (file: File, format: string) => void;
   error?: string | null;
 }
 
+// Every value states its unit (see lib/report-units)
 const sampleData = {
   patientId: "MED-2024-7829",
-  sugar: 142,
-  cholesterol: 185,
-  bloodPressure: { systolic: 128, diastolic: 82 },
-  hemoglobin: 14.2,
-  creatinine: 0.9,
+  sugar: { value: 142, unit: "mg/dL" },
+  cholesterol: { value: 185, unit: "mg/dL" },
+  bloodPressure: { systolic: 128, diastolic: 82, unit: "mmHg" },
+  hemoglobin: { value: 14.2, unit: "g/dL" },
+  creatinine: { value: 0.9, unit: "mg/dL" },
+  hba1c: { value: 6.8, unit: "%" },
+  hdl: { value: 42, unit: "mg/dL" },
+  age: 54,
+  sex: "male",
+  series: {
+    marker: "sugar",
+    unit: "mg/dL",
+    readings: [
+      { value: 131, takenAt: "2024-01-08T08:15:00Z" },
+      { value: 142, takenAt: "2024-01-15T08:20:00Z" },
+    ],
+  },
   timestamp: "2024-01-15T10:30:00Z",
   labName: "Metro Diagnostics Lab",
 };
 
 export function UploadZone({ onUpload, error }: UploadZoneProps) {
   const [isDragOver, setIsDragOver] = useState(false);
+  const [format, setFormat] = useState(JSON_PARSER.id);
   const inputRef = useRef<HTMLInputElement>(null);
+  const parsers = reportParsers();
+  const selected = getReportParser(format);
 
+  // A file's extension names its format; other files, such as
+  // HL7 messages saved as .txt, are read as the selected format
   const handleFile = useCallback(
     (file: File) => {
-      if (file.type === "application/json" || file.name.endsWith(".json")) {
-        onUpload(file);
-      }
+      const parser =
+        detectReportParser(file.name, file.type) ?? getReportParser(format);
+      setFormat(parser.id);
+      onUpload(file, parser.id);
     },
-    [onUpload],
+    [onUpload, format],
   );
 
   const handleDrop = useCallback(
@@ -74,6 +99,28 @@ export function UploadZone({ onUpload, error }: UploadZoneProps) {
       className="w-full max-w-2xl mx-auto"
     >
       <GlassCard glow="indigo" padding="md" className="sm:p-8">
+        {/* Report format — selects the parser */}
+        <div className="mb-4 flex flex-wrap items-center justify-center gap-2">
+          <span className="text-[10px] sm:text-[11px] font-semibold text-slate-500 uppercase tracking-wider">
+            Format
+          </span>
+          {parsers.map((parser) => (
+            <button
+              key={parser.id}
+              onClick={() => setFormat(parser.id)}
+              aria-pressed={format === parser.id}
+              className={cn(
+                "px-3 py-1.5 rounded-lg text-xs font-semibold border transition-colors",
+                format === parser.id
+                  ? "bg-indigo-50 border-indigo-300 text-indigo-700"
+                  : "bg-white/60 border-slate-200/60 text-slate-500 hover:border-slate-300",
+              )}
+            >
+              {parser.label}
+            </button>
+          ))}
+        </div>
+
         <div
           onDragOver={(e) => {
             e.preventDefault();
@@ -93,7 +140,9 @@ export function UploadZone({ onUpload, error }: UploadZoneProps) {
           <input
             ref={inputRef}
             type="file"
-            accept=".json,application/json"
+            accept={parsers
+              .flatMap((parser) => [...parser.extensions, ...parser.mimeTypes])
+              .join(",")}
             onChange={handleChange}
             className="hidden"
           />
@@ -124,7 +173,7 @@ export function UploadZone({ onUpload, error }: UploadZoneProps) {
               {isDragOver ? "Release to upload" : "Drop your medical report"}
             </p>
             <p className="mt-1 text-xs text-slate-400">
-              JSON format • Lab results & diagnostics
+              {selected.description}
             </p>
           </div>
 
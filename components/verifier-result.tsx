@@ -20,7 +20,12 @@ import {
 import { GlassCard } from "./glass-card";
 import { cn, formatDateTime, truncateHash } from "@/lib/utils";
 import type { ClaimBundle } from "@/lib/claim-engine";
-import type { VerificationResult } from "@/hooks/use-verifier";
+import type { VerificationResult } from "@/lib/bundle-verifier";
+import {
+  BIOMARKERS,
+  describeThresholdKey,
+  type Biomarker,
+} from "@/lib/claim-rules";
 
 interface VerifierResultProps {
   bundle: ClaimBundle;
@@ -41,6 +46,13 @@ export function VerifierResult({
     "approve" | "reject" | null
   >(null);
   const [reviewerNotes, setReviewerNotes] = useState("");
+  const simulated = result.mode === "simulated";
+  // A simulated proof binds no value to the lab's signature
+  const valuesVerified = result.isValid && !simulated;
+  const disclosed = Object.entries(bundle.publicParams.disclosed ?? {}) as [
+    Biomarker,
+    number,
+  ][];
 
   const handleConfirm = () => {
     if (showDecisionModal === "approve") {
@@ -108,7 +120,9 @@ export function VerifierResult({
                 )}
               >
                 {result.isValid
-                  ? "The zero-knowledge proof is mathematically valid. No private medical data was revealed."
+                  ? simulated
+                    ? "Accepted with strict mode off. The proof is simulated and was not cryptographically verified."
+                    : "The zero-knowledge proof is mathematically valid. No private medical data was revealed."
                   : "The proof could not be verified. The claim may be invalid or tampered with."}
               </p>
             </div>
@@ -116,14 +130,31 @@ export function VerifierResult({
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               transition={{ delay: 0.5 }}
-              className={cn(
-                "px-4 py-2 rounded-xl text-sm font-bold uppercase tracking-wider",
-                result.isValid
-                  ? "bg-emerald-100 text-emerald-700 border border-emerald-200"
-                  : "bg-red-100 text-red-700 border border-red-200",
-              )}
+              className="flex flex-col items-end gap-1.5"
             >
-              {result.isValid ? "Valid" : "Invalid"}
+              <span
+                className={cn(
+                  "px-4 py-2 rounded-xl text-sm font-bold uppercase tracking-wider",
+                  result.isValid
+                    ? "bg-emerald-100 text-emerald-700 border border-emerald-200"
+                    : "bg-red-100 text-red-700 border border-red-200",
+                )}
+              >
+                {result.isValid ? "Valid" : "Invalid"}
+              </span>
+              {simulated && (
+                <span
+                  title={
+                    result.strict
+                      ? "Simulated proofs are refused in strict mode"
+                      : "Simulated proofs carry no cryptographic guarantee"
+                  }
+                  className="flex items-center gap-1 px-2 py-0.5 rounded-md text-[10px] font-bold uppercase tracking-wider bg-amber-100 text-amber-700 border border-amber-200"
+                >
+                  <AlertTriangle className="w-3 h-3" />
+                  Simulated
+                </span>
+              )}
             </motion.div>
           </div>
         </GlassCard>
@@ -170,6 +201,31 @@ export function VerifierResult({
                 >
                   {check.detail}
                 </p>
+                {check.comparisons && (
+                  <table className="mt-2 text-[11px] font-mono">
+                    <thead>
+                      <tr className="text-slate-400">
+                        <th className="pr-4 text-left font-semibold">Input</th>
+                        <th className="pr-4 text-left font-semibold">Proof</th>
+                        <th className="text-left font-semibold">Bundle</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {check.comparisons.map((c) => (
+                        <tr
+                          key={c.label}
+                          className={
+                            c.match ? "text-slate-600" : "text-red-600"
+                          }
+                        >
+                          <td className="pr-4">{c.label}</td>
+                          <td className="pr-4">{c.proven}</td>
+                          <td>{c.declared}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
               </div>
             </motion.div>
           ))}
@@ -268,7 +324,7 @@ export function VerifierResult({
                   className="flex items-center gap-2 text-xs text-slate-600"
                 >
                   <div className="w-1.5 h-1.5 rounded-full bg-indigo-400" />
-                  <span className="capitalize">{key}</span>
+                  <span>{describeThresholdKey(key)}</span>
                   <span className="font-mono text-indigo-600">
                     threshold = {val}
                   </span>
@@ -277,6 +333,45 @@ export function VerifierResult({
             )}
           </div>
         </div>
+
+        {/* Disclosed values — proven equal to the lab-signed report */}
+        {disclosed.length > 0 && (
+          <div className="mt-4 pt-3 border-t border-slate-200/40">
+            <p className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider mb-2">
+              Disclosed Values
+            </p>
+            <div className="space-y-1.5">
+              {disclosed.map(([marker, value]) => (
+                <div
+                  key={marker}
+                  className="flex items-center gap-2 text-xs text-slate-600"
+                >
+                  {valuesVerified ? (
+                    <BadgeCheck className="w-3.5 h-3.5 text-emerald-500" />
+                  ) : (
+                    <AlertTriangle className="w-3.5 h-3.5 text-amber-500" />
+                  )}
+                  <span>{BIOMARKERS[marker].label}</span>
+                  <span className="font-mono font-semibold text-slate-800">
+                    {value} {BIOMARKERS[marker].unit}
+                  </span>
+                  <span
+                    className={cn(
+                      "text-[10px] font-semibold",
+                      valuesVerified ? "text-emerald-600" : "text-amber-600",
+                    )}
+                  >
+                    {valuesVerified
+                      ? "Verified"
+                      : simulated
+                        ? "Unverified (simulated proof)"
+                        : "Not verified"}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </GlassCard>
 
       {/* Privacy assurance */}
@@ -285,7 +380,9 @@ export function VerifierResult({
           <Shield className="w-5 h-5 text-indigo-500 flex-shrink-0" />
           <p className="text-xs text-slate-600">
             <span className="font-semibold">Zero-Knowledge Verification:</span>{" "}
-            This claim was verified without accessing any private medical data.
+            {disclosed.length > 0
+              ? "This claim was verified without accessing any medical data beyond the disclosed values."
+              : "This claim was verified without accessing any private medical data."}{" "}
             The cryptographic proof mathematically guarantees the patient meets
             the claimed health criteria.
           </p>
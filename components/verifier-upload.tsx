@@ -13,6 +13,7 @@ import { GlassCard } from "./glass-card";
 import { QRScanner } from "./qr-scanner";
 import { cn } from "@/lib/utils";
 import { retrieveClaimBundle } from "@/lib/claim-sync";
+import { decodeBundleFromUrl } from "@/lib/claim-engine";
 
 interface VerifierUploadProps {
   onLoad: (input: string | File) => void;
@@ -22,7 +23,7 @@ interface VerifierUploadProps {
 type InputMode = "upload" | "paste" | "scan";
 
 /**
- * Decode a base64-encoded bundle from a URL.
+ * Decode a base64url-encoded bundle from a URL.
  */
 function decodeBundleFromURL(urlString: string): string | null {
   try {
@@ -30,14 +31,7 @@ function decodeBundleFromURL(urlString: string): string | null {
     const encoded = url.searchParams.get("data");
 
     if (encoded) {
-      // Decode base64 → JSON string
-      const decoded = decodeURIComponent(
-        atob(encoded)
-          .split("")
-          .map((c) => "%" + ("00" + c.charCodeAt(0).toString(16)).slice(-2))
-          .join(""),
-      );
-      return decoded;
+      return decodeBundleFromUrl(encoded);
     }
 
     // Fallback: try claimId from localStorage
@@ -265,7 +259,7 @@ export function VerifierUpload({ onLoad, error }: VerifierUploadProps) {
               <textarea
                 value={pasteValue}
                 onChange={(e) => setPasteValue(e.target.value)}
-                placeholder='{"version":"1.0.0","claimId":"CLM-...","proof":{...}}'
+                placeholder='{"version":"2.0.0","claimId":"CLM-...","proof":{...}}'
                 rows={6}
                 className="w-full px-3 sm:px-4 py-3 rounded-xl text-xs font-mono bg-slate-900 text-indigo-300 border border-slate-700/50 placeholder:text-slate-600 focus:outline-none focus:ring-2 focus:ring-indigo-400/40 resize-none"
               />
@@ -40,6 +40,9 @@ contract ClaimManager is AutomationCompatibleInterface {
   mapping(bytes32 => Claim) public claims;
   bytes32[] public pending;
 
+  // nullifier (last public input) => claim holding it; one claim per report and scope
+  mapping(bytes32 => bytes32) public nullifierClaims;
+
   uint256 public autoProcessDelay = 30; // seconds (hackathon demo)
 
   event LabRegistered(bytes32 indexed labPubHash);
@@ -67,8 +70,18 @@ contract ClaimManager is AutomationCompatibleInterface {
     bytes32[] calldata publicInputs,
     bytes32 labPubHash
   ) external returns (bytes32 claimId) {
+    require(publicInputs.length > 0, "no public inputs");
+    // every circuit's first public input is the lab_pub_hash it proved against
+    require(publicInputs[0] == labPubHash, "lab does not match proof");
+    // only a valid proof may reserve the report's nullifier
+    require(verifier.verify(proof, publicInputs), "invalid proof");
+
+    bytes32 nullifier = publicInputs[publicInputs.length - 1];
+    require(nullifierClaims[nullifier] == bytes32(0), "already claimed");
+
     claimId = keccak256(abi.encodePacked(msg.sender, block.timestamp, labPubHash, publicInputs.length));
     require(!claims[claimId].exists, "exists");
+    nullifierClaims[nullifier] = claimId;
 
     claims[claimId] = Claim({
       claimId: claimId,
@@ -120,19 +133,13 @@ contract ClaimManager is AutomationCompatibleInterface {
     require(c.exists, "not found");
     require(c.status == Status.Submitted, "already processed");
 
-    // (1) Lab authorization (on-chain issuer registry)
+    // Lab authorization (on-chain issuer registry); the proof
+    // itself was verified when the claim was submitted
     if (!trustedLabs[c.labPubHash]) {
       _reject(id, "Untrusted lab");
       return;
     }
 
-    // (2) ZK proof verification (mock now, real later)
-    bool ok = verifier.verify(c.proof, c.publicInputs);
-    if (!ok) {
-      _reject(id, "Invalid proof");
-      return;
-    }
-
     // approve
     c.status = Status.Approved;
     c.decidedAt = block.timestamp;
@@ -145,6 +152,8 @@ contract ClaimManager is AutomationCompatibleInterface {
     c.status = Status.Rejected;
     c.decidedAt = block.timestamp;
     c.rejectionReason = reason;
+    // a rejected claim does not use up the report
+    delete nullifierClaims[c.publicInputs[c.publicInputs.length - 1]];
     _removePending(id);
     emit ClaimRejected(id, reason);
   }
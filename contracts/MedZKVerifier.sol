@@ -17,12 +17,12 @@ contract MockzkHealthVerifier is IVerifier {
   {
     // minimal sanity: has proof + has public inputs
     if (proof.length == 0) return false;
-    if (publicInputs.length == 0) return false;
 
-    // optional: require last signal == 1 (your “meets criteria” flag)
-    // if you don’t have this, delete these 2 lines:
-    uint256 last = uint256(publicInputs[publicInputs.length - 1]);
-    if (last != 1) return false;
+    // require the result flag == 1 (the “meets criteria” signal);
+    // it comes before the scope and nullifier, the last two inputs
+    if (publicInputs.length < 3) return false;
+    uint256 result = uint256(publicInputs[publicInputs.length - 3]);
+    if (result != 1) return false;
 
     return true;
   }
@@ -1,16 +1,15 @@
 "use client";
 
 import { useState, useCallback, useRef } from "react";
+import type { ClaimBundle } from "@/lib/claim-engine";
 import {
-  deserializeBundle,
-  validateBundle,
-  isExpired,
-  type ClaimBundle,
-} from "@/lib/claim-engine";
-import {
-  verifyProof as engineVerifyProof,
-  type GeneratedProof,
-} from "@/lib/zkp-engine";
+  DEFAULT_STRICT_MODE,
+  getBundleNullifier,
+  parseBundle,
+  verifyBundle,
+  type VerificationResult,
+} from "@/lib/bundle-verifier";
+import { localNullifierStore } from "@/lib/nullifier-store";
 
 export type VerifierState =
   | "AWAITING"
@@ -22,18 +21,6 @@ export type VerifierState =
   | "APPROVED"
   | "REJECTED";
 
-export interface VerificationResult {
-  isValid: boolean;
-  timestamp: number;
-  checks: VerificationCheck[];
-}
-
-export interface VerificationCheck {
-  label: string;
-  passed: boolean;
-  detail: string;
-}
-
 export interface ApprovalRecord {
   claimId: string;
   decision: "approved" | "rejected";
@@ -55,6 +42,7 @@ export function useVerifier() {
   const [approval, setApproval] = useState<ApprovalRecord | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState(0);
+  const [strictMode, setStrictMode] = useState(DEFAULT_STRICT_MODE);
 
   const progressRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
@@ -85,20 +73,7 @@ export function useVerifier() {
 
       await new Promise((r) => setTimeout(r, 800));
 
-      const parsed = deserializeBundle(raw);
-      if (!parsed) {
-        throw new Error(
-          "Invalid claim bundle format. Expected a zkHealth claim JSON.",
-        );
-      }
-
-      const validation = validateBundle(parsed);
-      if (!validation.valid) {
-        throw new Error(
-          `Bundle validation failed: ${validation.errors.join(", ")}`,
-        );
-      }
-
+      const parsed = parseBundle(raw);
       setBundle(parsed);
       setState("PARSED");
     } catch (err) {
@@ -116,73 +91,16 @@ export function useVerifier() {
       setProgress(0);
       startProgress(10, 88);
 
-      const checks: VerificationCheck[] = [];
-
-      await new Promise((r) => setTimeout(r, 400));
-      const validation = validateBundle(bundle);
-      checks.push({
-        label: "Bundle Structure",
-        passed: validation.valid,
-        detail: validation.valid
-          ? "All required fields present"
-          : validation.errors.join(", "),
-      });
-
-      await new Promise((r) => setTimeout(r, 300));
-      const expired = isExpired(bundle);
-      checks.push({
-        label: "Expiry Check",
-        passed: !expired,
-        detail: expired
-          ? "Claim bundle has expired"
-          : `Valid for ${Math.ceil(
-              (bundle.expiresAt - Date.now()) / 86400000,
-            )} more days`,
-      });
-
-      await new Promise((r) => setTimeout(r, 400));
-      checks.push({
-        label: "Circuit Identifier",
-        passed: !!bundle.proof.circuit,
-        detail: `Circuit: ${bundle.proof.circuit}`,
-      });
-
-      const proofData: GeneratedProof = {
-        proof: new Uint8Array(Buffer.from(bundle.proof.hash, "hex")),
-        publicSignals: bundle.proof.publicInputs,
-      };
-      const cryptoValid = await engineVerifyProof(
-        proofData,
-        bundle.proof.verificationKey,
-      );
-      checks.push({
-        label: "Cryptographic Proof",
-        passed: cryptoValid,
-        detail: cryptoValid
-          ? "Proof mathematically verified against verification key"
-          : "Proof verification failed — invalid or tampered",
-      });
-
-      await new Promise((r) => setTimeout(r, 300));
-      checks.push({
-        label: "Public Inputs",
-        passed: bundle.proof.publicInputs.length > 0,
-        detail: `${bundle.proof.publicInputs.length} public signals verified`,
+      const verification = await verifyBundle(bundle, {
+        strict: strictMode,
       });
 
       clearProgress();
       setProgress(100);
-
-      const allPassed = checks.every((c) => c.passed);
-
-      setResult({
-        isValid: allPassed,
-        timestamp: Date.now(),
-        checks,
-      });
+      setResult(verification);
 
       await new Promise((r) => setTimeout(r, 400));
-      setState(allPassed ? "VALID" : "INVALID");
+      setState(verification.isValid ? "VALID" : "INVALID");
       setProgress(0);
     } catch (err) {
       clearProgress();
@@ -190,7 +108,7 @@ export function useVerifier() {
       setState("PARSED");
       setProgress(0);
     }
-  }, [bundle]);
+  }, [bundle, strictMode]);
 
   const approveClaim = useCallback(
     (reviewerNotes: string) => {
@@ -202,6 +120,8 @@ export function useVerifier() {
         reviewerNotes,
         referenceNumber: generateRefNumber(),
       };
+      // The report is used up; a rejected one can be claimed again
+      localNullifierStore.record(getBundleNullifier(bundle), bundle.claimId);
       setApproval(record);
       setState("APPROVED");
     },
@@ -241,6 +161,8 @@ export function useVerifier() {
     approval,
     error,
     progress,
+    strictMode,
+    setStrictMode,
     loadBundle,
     verify,
     approveClaim,
@@ -2,22 +2,43 @@
 
 import { useState, useCallback, useRef } from "react";
 import {
-  initializeCircuit,
   generateWitness,
-  generateProof as engineGenerateProof,
-  verifyProof as engineVerifyProof,
-  generateVerificationKey,
-  uint8ArrayToHex,
-  type GeneratedProof,
-  type WitnessInput,
+  type CircuitMetrics,
+  type ProofMode,
+  type ProvePhase,
   type ClaimEligibility,
 } from "@/lib/zkp-engine";
+import { proveInWorker, verifyInWorker } from "@/lib/prover-client";
+import { decodeProof } from "@/lib/proof-codec";
+import { PROVE_PHASES } from "@/lib/prover-protocol";
 import {
   buildClaimBundle,
   serializeBundle,
+  CLAIM_TYPES,
   type ClaimBundle,
   type ClaimDetails,
+  type ClaimScope,
+  type ClaimType,
 } from "@/lib/claim-engine";
+import {
+  parseMedicalReport,
+  toWitnessInput,
+  toZKProof,
+} from "@/lib/proof-pipeline";
+import type { Biomarker, ClaimRule } from "@/lib/claim-rules";
+import { CIRCUITS, type CircuitId } from "@/lib/circuits";
+import type {
+  LabPublicKey,
+  LabReading,
+  LabSignature,
+  ReportContents,
+} from "@/lib/lab-signer";
+import type { UnmappedCode } from "@/lib/lab-results";
+import {
+  fetchOracleThresholds,
+  type OracleReading,
+  type OracleSnapshot,
+} from "@/lib/threshold-oracle";
 
 /* ── State Machine ────────────────────────────────────────── */
 
@@ -32,15 +53,31 @@ export type ZKPState =
 
 /* ── Data Types ───────────────────────────────────────────── */
 
-export interface MedicalData {
+/**
+ * A report with every value in its marker's unit. Uploads state
+ * their units and are converted by normalizeReport.
+ */
+export interface MedicalData extends ReportContents {
   patientId?: string;
-  sugar?: number;
-  cholesterol?: number;
-  bloodPressure?: { systolic: number; diastolic: number };
-  hemoglobin?: number;
-  creatinine?: number;
   timestamp?: string;
   labName?: string;
+  // Present on lab-signed reports (see lib/lab-signer)
+  labPublicKey?: LabPublicKey;
+  signature?: LabSignature;
+  labPubHash?: string;
+  salt?: string;
+  dataHash?: string;
+  // Dated readings for series claims; signed on its own when the
+  // report is (see labSignReadings)
+  series?: {
+    marker: Biomarker;
+    readings: LabReading[];
+    salt?: string;
+    dataHash?: string;
+    signature?: LabSignature;
+  };
+  // Imported observation codes no marker is read from
+  unmapped?: UnmappedCode[];
   [key: string]: unknown;
 }
 
@@ -48,43 +85,39 @@ export interface ZKProof {
   proofHash: string;
   publicInputs: string[];
   verificationKey: string;
+  mode: ProofMode; // "simulated" proofs carry no cryptographic guarantee
   timestamp: number;
-  circuit: string;
-  constraintCount: number;
+  circuit: CircuitId;
+  circuitVersion: string;
+  circuitMetrics: CircuitMetrics | null; // null for simulated proofs
   provingTimeMs: number;
+  claimType: ClaimType;
+  // The policy it is claimed under; with the claim type, the scope
+  // of its nullifier (see nullifierScope)
+  insurerName: string;
+  policyNumber: string;
+  rule: ClaimRule;
+  oracle: OracleSnapshot | null; // Oracle update the thresholds came from
 }
 
-/* ── Insurance Claim Thresholds ───────────────────────────── */
+/** The policy a proof is claimed under, chosen before proving. */
+export type ClaimPolicy = Omit<ClaimScope, "claimType">;
 
-/**
- * These are the thresholds that define when a patient qualifies
- * for an insurance claim. Values ABOVE these = condition present.
- *
- * These become PUBLIC INPUTS to the circuit — the insurance
- * company can see the thresholds but NOT the actual values.
- */
-export const THRESHOLDS = {
-  sugar: {
-    value: 126,
-    label: "Blood Sugar ≥ 126 mg/dL (Diabetic Range)",
-    direction: "above" as const,
-  },
-  cholesterol: {
-    value: 200,
-    label: "Cholesterol ≥ 200 mg/dL (High Range)",
-    direction: "above" as const,
-  },
-  bloodPressure: {
-    value: 140,
-    label: "BP Systolic ≥ 140 mmHg (Hypertension)",
-    direction: "above" as const,
-  },
-} as const;
+/** A witness is built for one claim, policy and disclosure choice. */
+function witnessKey(claim: ClaimScope, disclose: Biomarker[]): string {
+  return JSON.stringify([claim, [...disclose].sort()]);
+}
 
 /* ── Hook ─────────────────────────────────────────────────── */
 
+/**
+ * The claim type selects the circuit and the claim rule it enforces.
+ * The rule's thresholds become PUBLIC INPUTS to the circuit — the
+ * insurance company can see the thresholds but NOT the actual values.
+ */
 export function useZKP() {
   const [state, setState] = useState<ZKPState>("IDLE");
+  const [claimType, setClaimType] = useState<ClaimType>("general_health");
   const [medicalData, setMedicalData] = useState<MedicalData | null>(null);
   const [proof, setProof] = useState<ZKProof | null>(null);
   const [selfVerified, setSelfVerified] = useState(false);
@@ -92,10 +125,18 @@ export function useZKP() {
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState(0);
   const [eligibility, setEligibility] = useState<ClaimEligibility | null>(null);
+  const [provePhase, setProvePhase] = useState<ProvePhase | null>(null);
+  const [disclose, setDisclose] = useState<Biomarker[]>([]);
+  const [policy, setPolicy] = useState<ClaimPolicy>({
+    insurerName: "",
+    policyNumber: "",
+  });
 
   const witnessRef = useRef<Record<string, unknown> | null>(null);
-  const proofRef = useRef<GeneratedProof | null>(null);
+  const witnessKeyRef = useRef<string | null>(null);
+  const oracleRef = useRef<OracleReading | null>(null);
   const progressRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const proveAbortRef = useRef<AbortController | null>(null);
 
   /* ── Helpers ──────────────────────────────────────────── */
 
@@ -121,55 +162,33 @@ export function useZKP() {
   /* ── Actions ──────────────────────────────────────────── */
 
   /**
-   * Lab uploads a patient medical report.
+   * Lab uploads a patient medical report, in one of the formats
+   * of lib/report-parsers.
    * The engine scans it and checks if the patient qualifies
    * for an insurance claim based on thresholds.
    */
-  const uploadAndScan = useCallback(async (file: File) => {
+  const uploadAndScan = useCallback(async (file: File, format: string) => {
     try {
       setError(null);
       setEligibility(null);
       setState("GENERATING_WITNESS");
       setProgress(0);
 
-      const text = await file.text();
-      let data: MedicalData;
-      try {
-        data = JSON.parse(text) as MedicalData;
-      } catch {
-        throw new Error(
-          "Invalid JSON file. Please upload a valid medical report.",
-        );
-      }
-
-      // Validate required fields
-      if (
-        data.sugar === undefined &&
-        data.cholesterol === undefined &&
-        !data.bloodPressure
-      ) {
-        throw new Error(
-          'Medical report must contain at least one of: "sugar", "cholesterol", or "bloodPressure".',
-        );
-      }
+      const data = parseMedicalReport(await file.text(), format);
 
       setMedicalData(data);
       startProgress(12, 85);
 
-      await initializeCircuit();
-
-      const witnessInput: WitnessInput = {
-        sugar: data.sugar ?? 0,
-        cholesterol: data.cholesterol ?? 0,
-        bloodPressureSystolic: data.bloodPressure?.systolic ?? 0,
-        bloodPressureDiastolic: data.bloodPressure?.diastolic ?? 0,
-        hemoglobin: data.hemoglobin ?? 0,
-        thresholdSugar: THRESHOLDS.sugar.value,
-        thresholdCholesterol: THRESHOLDS.cholesterol.value,
-      };
+      // Thresholds come from the oracle at proving time, not from
+      // the defaults compiled into the app
+      const oracle = await fetchOracleThresholds();
+      oracleRef.current = oracle;
 
+      const claim = { ...policy, claimType };
+      const witnessInput = toWitnessInput(data, claim, oracle, disclose);
       const witness = await generateWitness(witnessInput);
       witnessRef.current = witness;
+      witnessKeyRef.current = witnessKey(claim, disclose);
 
       // Store eligibility info for UI display
       if (witness._eligibility) {
@@ -187,66 +206,133 @@ export function useZKP() {
       setState("IDLE");
       setProgress(0);
     }
+  }, [claimType, disclose, policy]);
+
+  /**
+   * Choose which claim the proof is for. The witness is rebuilt
+   * for the bound circuit when the proof is generated. Series
+   * circuits cannot disclose values, so the choice is cleared.
+   */
+  const selectClaimType = useCallback((type: ClaimType) => {
+    setClaimType(type);
+    setEligibility(null);
+    if (CIRCUITS[CLAIM_TYPES[type].circuit].readings) setDisclose([]);
+  }, []);
+
+  /**
+   * Name the insurer and policy the claim is for. The proof's
+   * nullifier is scoped to them, so they are fixed once it exists.
+   */
+  const updatePolicy = useCallback((changes: Partial<ClaimPolicy>) => {
+    setPolicy((current) => ({ ...current, ...changes }));
+  }, []);
+
+  /**
+   * Reveal a report value alongside the proof, or hide it again.
+   * Disclosed values become public inputs the proof binds to the
+   * lab-signed report.
+   */
+  const toggleDisclosure = useCallback((marker: Biomarker) => {
+    setDisclose((current) =>
+      current.includes(marker)
+        ? current.filter((m) => m !== marker)
+        : [...current, marker],
+    );
   }, []);
 
   /**
    * Generate ZK proof that the patient qualifies for insurance.
    * This is the proof hash that the patient gives to the
    * insurance company.
+   *
+   * Proving runs in the prover worker; progress follows the phases
+   * it reports, and cancelProof stops it.
    */
   const generateProof = useCallback(async () => {
     if (!witnessRef.current || !medicalData) return;
+    const claim: ClaimScope = {
+      claimType,
+      insurerName: policy.insurerName.trim(),
+      policyNumber: policy.policyNumber.trim(),
+    };
+    if (!claim.insurerName || !claim.policyNumber) {
+      setError("Enter the insurer and policy number the claim is for");
+      return;
+    }
+    const controller = new AbortController();
+    proveAbortRef.current = controller;
     try {
       setError(null);
       setState("PROVING");
       setProgress(0);
-      startProgress(6, 92);
 
-      const t0 = performance.now();
-      const generated = await engineGenerateProof(witnessRef.current);
-      proofRef.current = generated;
-      const provingTimeMs = Math.round(performance.now() - t0);
+      if (witnessKeyRef.current !== witnessKey(claim, disclose)) {
+        const oracle = await fetchOracleThresholds();
+        oracleRef.current = oracle;
+        const witness = await generateWitness(
+          toWitnessInput(medicalData, claim, oracle, disclose),
+        );
+        witnessRef.current = witness;
+        witnessKeyRef.current = witnessKey(claim, disclose);
+        if (witness._eligibility) {
+          setEligibility(witness._eligibility as ClaimEligibility);
+        }
+      }
 
-      // Generate the verification key (async — real Barretenberg call)
-      const vk = await generateVerificationKey();
+      const generated = await proveInWorker(witnessRef.current, {
+        signal: controller.signal,
+        onPhase: (phase) => {
+          setProvePhase(phase);
+          setProgress(PROVE_PHASES[phase].progress);
+        },
+      });
 
-      clearProgress();
       setProgress(100);
 
-      const zkProof: ZKProof = {
-        proofHash: uint8ArrayToHex(generated.proof),
-        publicInputs: generated.publicSignals,
-        verificationKey: vk,
-        timestamp: Date.now(),
-        circuit: "medical_insurance_claim_v1.nr",
-        constraintCount: 2048 + Math.floor(Math.random() * 512),
-        provingTimeMs,
-      };
-      setProof(zkProof);
+      setProof(toZKProof(generated, claim, oracleRef.current));
 
       await new Promise((r) => setTimeout(r, 500));
       setState("PROOF_GENERATED");
       setProgress(0);
     } catch (err) {
-      clearProgress();
-      setError(err instanceof Error ? err.message : "Proof generation failed");
+      // A cancelled proof is not an error — back to the witness
+      setError(
+        controller.signal.aborted
+          ? null
+          : err instanceof Error
+            ? err.message
+            : "Proof generation failed",
+      );
       setState("WITNESS_READY");
       setProgress(0);
+    } finally {
+      proveAbortRef.current = null;
+      setProvePhase(null);
     }
-  }, [medicalData]);
+  }, [medicalData, claimType, disclose, policy]);
+
+  /** Stop the running proof; the witness stays ready to prove again. */
+  const cancelProof = useCallback(() => {
+    proveAbortRef.current?.abort();
+  }, []);
 
   /**
    * Self-verify the proof (lab verifies before giving to patient).
-   * This mimics what the insurance company will do.
+   * This mimics what the insurance company will do, starting
+   * from the encoded proof that goes into the bundle.
    */
   const selfVerify = useCallback(async () => {
-    if (!proofRef.current || !proof) return;
+    if (!proof) return;
     try {
       setError(null);
       startProgress(18, 90);
 
-      const isValid = await engineVerifyProof(
-        proofRef.current,
+      const isValid = await verifyInWorker(
+        {
+          proof: decodeProof(proof.proofHash),
+          publicSignals: proof.publicInputs,
+        },
+        proof.circuit,
         proof.verificationKey,
       );
 
@@ -299,6 +385,7 @@ export function useZKP() {
    * Reset everything for a new patient report.
    */
   const reset = useCallback(() => {
+    proveAbortRef.current?.abort();
     clearProgress();
     setState("IDLE");
     setMedicalData(null);
@@ -308,20 +395,32 @@ export function useZKP() {
     setError(null);
     setProgress(0);
     setEligibility(null);
+    setDisclose([]);
+    setPolicy({ insurerName: "", policyNumber: "" });
     witnessRef.current = null;
-    proofRef.current = null;
+    witnessKeyRef.current = null;
+    oracleRef.current = null;
   }, []);
 
   return {
     state,
+    claimType,
     medicalData,
+    eligibility,
+    provePhase,
+    disclose,
+    policy,
     proof,
     selfVerified,
     claimBundle,
     error,
     progress,
     uploadAndScan,
+    selectClaimType,
+    updatePolicy,
+    toggleDisclosure,
     generateProof,
+    cancelProof,
     selfVerify,
     buildClaim,
     acceptClaimBundle,
@@ -1,311 +1,190 @@
-const ABI = [
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Contract ABIs — GENERATED from contracts/*.sol, do not edit
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Regenerate with `npm run generate:abi` after changing a contract.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+/** ClaimManager — contracts/ClaimManager.sol */
+export const CLAIM_MANAGER_ABI = [
   {
     inputs: [
       {
         internalType: "address",
-        name: "_verifier",
-        type: "address",
-      },
+        name: "verifierAddress",
+        type: "address"
+      }
     ],
     stateMutability: "nonpayable",
-    type: "constructor",
-  },
-  {
-    inputs: [],
-    name: "ECDSAInvalidSignature",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "length",
-        type: "uint256",
-      },
-    ],
-    name: "ECDSAInvalidSignatureLength",
-    type: "error",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes32",
-        name: "s",
-        type: "bytes32",
-      },
-    ],
-    name: "ECDSAInvalidSignatureS",
-    type: "error",
+    type: "constructor"
   },
   {
     anonymous: false,
     inputs: [
       {
-        indexed: false,
+        indexed: true,
         internalType: "bytes32",
         name: "claimId",
-        type: "bytes32",
-      },
+        type: "bytes32"
+      }
     ],
     name: "ClaimApproved",
-    type: "event",
+    type: "event"
   },
   {
     anonymous: false,
     inputs: [
       {
-        indexed: false,
+        indexed: true,
         internalType: "bytes32",
         name: "claimId",
-        type: "bytes32",
+        type: "bytes32"
       },
       {
         indexed: false,
         internalType: "string",
         name: "reason",
-        type: "string",
-      },
+        type: "string"
+      }
     ],
     name: "ClaimRejected",
-    type: "event",
+    type: "event"
   },
   {
     anonymous: false,
     inputs: [
       {
-        indexed: false,
+        indexed: true,
         internalType: "bytes32",
         name: "claimId",
-        type: "bytes32",
+        type: "bytes32"
       },
       {
-        indexed: false,
+        indexed: true,
         internalType: "address",
-        name: "lab",
-        type: "address",
+        name: "submitter",
+        type: "address"
       },
       {
         indexed: false,
         internalType: "bytes32",
-        name: "bundleHash",
-        type: "bytes32",
-      },
+        name: "labPubHash",
+        type: "bytes32"
+      }
     ],
     name: "ClaimSubmitted",
-    type: "event",
+    type: "event"
   },
   {
     anonymous: false,
     inputs: [
       {
-        indexed: false,
-        internalType: "address",
-        name: "lab",
-        type: "address",
-      },
-      {
-        indexed: false,
-        internalType: "bool",
-        name: "allowed",
-        type: "bool",
-      },
-    ],
-    name: "LabRegistered",
-    type: "event",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes",
-        name: "performData",
-        type: "bytes",
-      },
-    ],
-    name: "performUpkeep",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes32",
-        name: "claimId",
-        type: "bytes32",
-      },
-    ],
-    name: "process",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "lab",
-        type: "address",
-      },
-      {
-        internalType: "bool",
-        name: "allowed",
-        type: "bool",
-      },
-    ],
-    name: "setLab",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "bytes32",
-        name: "bundleHash",
-        type: "bytes32",
-      },
-      {
-        internalType: "bytes",
-        name: "labSignature",
-        type: "bytes",
-      },
-      {
-        internalType: "bytes",
-        name: "proof",
-        type: "bytes",
-      },
-      {
-        internalType: "bytes32[]",
-        name: "publicInputs",
-        type: "bytes32[]",
-      },
-    ],
-    name: "submitClaim",
-    outputs: [
-      {
+        indexed: true,
         internalType: "bytes32",
-        name: "",
-        type: "bytes32",
-      },
+        name: "labPubHash",
+        type: "bytes32"
+      }
     ],
-    stateMutability: "nonpayable",
-    type: "function",
+    name: "LabRegistered",
+    type: "event"
   },
   {
     inputs: [],
-    name: "autoDelay",
+    name: "autoProcessDelay",
     outputs: [
       {
         internalType: "uint256",
         name: "",
-        type: "uint256",
-      },
+        type: "uint256"
+      }
     ],
     stateMutability: "view",
-    type: "function",
+    type: "function"
   },
   {
     inputs: [
       {
         internalType: "bytes",
         name: "",
-        type: "bytes",
-      },
+        type: "bytes"
+      }
     ],
     name: "checkUpkeep",
     outputs: [
       {
         internalType: "bool",
-        name: "",
-        type: "bool",
+        name: "upkeepNeeded",
+        type: "bool"
       },
       {
         internalType: "bytes",
-        name: "",
-        type: "bytes",
-      },
+        name: "performData",
+        type: "bytes"
+      }
     ],
     stateMutability: "view",
-    type: "function",
+    type: "function"
   },
   {
     inputs: [
       {
         internalType: "bytes32",
         name: "",
-        type: "bytes32",
-      },
+        type: "bytes32"
+      }
     ],
     name: "claims",
     outputs: [
       {
         internalType: "bytes32",
         name: "claimId",
-        type: "bytes32",
-      },
-      {
-        internalType: "bytes32",
-        name: "bundleHash",
-        type: "bytes32",
+        type: "bytes32"
       },
       {
         internalType: "address",
-        name: "lab",
-        type: "address",
+        name: "submitter",
+        type: "address"
       },
       {
         internalType: "bytes",
-        name: "labSignature",
-        type: "bytes",
+        name: "proof",
+        type: "bytes"
       },
       {
-        internalType: "bytes",
-        name: "proof",
-        type: "bytes",
+        internalType: "bytes32",
+        name: "labPubHash",
+        type: "bytes32"
       },
       {
         internalType: "enum ClaimManager.Status",
         name: "status",
-        type: "uint8",
+        type: "uint8"
       },
       {
         internalType: "uint256",
         name: "submittedAt",
-        type: "uint256",
+        type: "uint256"
       },
       {
-        internalType: "bool",
-        name: "exists",
-        type: "bool",
+        internalType: "uint256",
+        name: "decidedAt",
+        type: "uint256"
       },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
       {
-        internalType: "bytes32",
-        name: "claimId",
-        type: "bytes32",
+        internalType: "string",
+        name: "rejectionReason",
+        type: "string"
       },
-    ],
-    name: "getClaimStatus",
-    outputs: [
       {
-        internalType: "uint8",
-        name: "",
-        type: "uint8",
-      },
+        internalType: "bool",
+        name: "exists",
+        type: "bool"
+      }
     ],
     stateMutability: "view",
-    type: "function",
+    type: "function"
   },
   {
     inputs: [],
@@ -314,30 +193,30 @@ const ABI = [
       {
         internalType: "uint256",
         name: "",
-        type: "uint256",
-      },
+        type: "uint256"
+      }
     ],
     stateMutability: "view",
-    type: "function",
+    type: "function"
   },
   {
     inputs: [
       {
-        internalType: "address",
-        name: "lab",
-        type: "address",
-      },
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32"
+      }
     ],
-    name: "isLabRegistered",
+    name: "nullifierClaims",
     outputs: [
       {
-        internalType: "bool",
+        internalType: "bytes32",
         name: "",
-        type: "bool",
-      },
+        type: "bytes32"
+      }
     ],
     stateMutability: "view",
-    type: "function",
+    type: "function"
   },
   {
     inputs: [],
@@ -346,49 +225,117 @@ const ABI = [
       {
         internalType: "address",
         name: "",
-        type: "address",
-      },
+        type: "address"
+      }
     ],
     stateMutability: "view",
-    type: "function",
+    type: "function"
   },
   {
     inputs: [
       {
         internalType: "uint256",
         name: "",
-        type: "uint256",
-      },
+        type: "uint256"
+      }
     ],
     name: "pending",
     outputs: [
       {
         internalType: "bytes32",
         name: "",
-        type: "bytes32",
-      },
+        type: "bytes32"
+      }
     ],
     stateMutability: "view",
-    type: "function",
+    type: "function"
   },
   {
     inputs: [
       {
-        internalType: "address",
-        name: "",
-        type: "address",
+        internalType: "bytes",
+        name: "performData",
+        type: "bytes"
+      }
+    ],
+    name: "performUpkeep",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "id",
+        type: "bytes32"
+      }
+    ],
+    name: "processManually",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "labPubHash",
+        type: "bytes32"
+      }
+    ],
+    name: "registerLab",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes"
+      },
+      {
+        internalType: "bytes32[]",
+        name: "publicInputs",
+        type: "bytes32[]"
       },
+      {
+        internalType: "bytes32",
+        name: "labPubHash",
+        type: "bytes32"
+      }
+    ],
+    name: "submitClaim",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "claimId",
+        type: "bytes32"
+      }
+    ],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32"
+      }
     ],
-    name: "registeredLabs",
+    name: "trustedLabs",
     outputs: [
       {
         internalType: "bool",
         name: "",
-        type: "bool",
-      },
+        type: "bool"
+      }
     ],
     stateMutability: "view",
-    type: "function",
+    type: "function"
   },
   {
     inputs: [],
@@ -397,11 +344,949 @@ const ABI = [
       {
         internalType: "contract IVerifier",
         name: "",
-        type: "address",
-      },
+        type: "address"
+      }
     ],
     stateMutability: "view",
-    type: "function",
+    type: "function"
+  }
+] as const;
+
+/** ChainlinkThresholdOracle — contracts/ChainlinkThresholdOracle.sol */
+export const THRESHOLD_ORACLE_ABI = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_functionsRouter",
+        type: "address"
+      },
+      {
+        internalType: "bytes32",
+        name: "_donId",
+        type: "bytes32"
+      },
+      {
+        internalType: "uint64",
+        name: "_subscriptionId",
+        type: "uint64"
+      },
+      {
+        internalType: "uint32",
+        name: "_callbackGasLimit",
+        type: "uint32"
+      }
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor"
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "timeRemaining",
+        type: "uint256"
+      }
+    ],
+    name: "CooldownNotElapsed",
+    type: "error"
+  },
+  {
+    inputs: [],
+    name: "EmptyArgs",
+    type: "error"
+  },
+  {
+    inputs: [],
+    name: "EmptySource",
+    type: "error"
+  },
+  {
+    inputs: [],
+    name: "InvalidThresholds",
+    type: "error"
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "labPubHash",
+        type: "bytes32"
+      }
+    ],
+    name: "LabAlreadyRegistered",
+    type: "error"
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "labPubHash",
+        type: "bytes32"
+      }
+    ],
+    name: "LabNotFound",
+    type: "error"
+  },
+  {
+    inputs: [],
+    name: "NoInlineSecrets",
+    type: "error"
+  },
+  {
+    inputs: [],
+    name: "OnlyRouterCanFulfill",
+    type: "error"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "labPubHash",
+        type: "bytes32"
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256"
+      }
+    ],
+    name: "LabDeregistered",
+    type: "event"
   },
-];
-export default ABI;
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "labPubHash",
+        type: "bytes32"
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "labName",
+        type: "string"
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "labId",
+        type: "string"
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256"
+      }
+    ],
+    name: "LabRegistered",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "labPubHash",
+        type: "bytes32"
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "isVerified",
+        type: "bool"
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256"
+      }
+    ],
+    name: "LabVerificationCompleted",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "requestId",
+        type: "bytes32"
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "labPubHash",
+        type: "bytes32"
+      }
+    ],
+    name: "LabVerificationRequested",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address"
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address"
+      }
+    ],
+    name: "OwnershipTransferRequested",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address"
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address"
+      }
+    ],
+    name: "OwnershipTransferred",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "id",
+        type: "bytes32"
+      }
+    ],
+    name: "RequestFulfilled",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "id",
+        type: "bytes32"
+      }
+    ],
+    name: "RequestSent",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "requestId",
+        type: "bytes32"
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256"
+      }
+    ],
+    name: "ThresholdsUpdateRequested",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "sugar",
+        type: "uint64"
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "cholesterol",
+        type: "uint64"
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "bloodPressure",
+        type: "uint64"
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256"
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "sourceHash",
+        type: "bytes32"
+      }
+    ],
+    name: "ThresholdsUpdated",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldown",
+        type: "uint256"
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldown",
+        type: "uint256"
+      }
+    ],
+    name: "UpdateCooldownChanged",
+    type: "event"
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "areThresholdsStale",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "callbackGasLimit",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "currentThresholds",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "sugarThreshold",
+        type: "uint64"
+      },
+      {
+        internalType: "uint64",
+        name: "cholesterolThreshold",
+        type: "uint64"
+      },
+      {
+        internalType: "uint64",
+        name: "bloodPressureThreshold",
+        type: "uint64"
+      },
+      {
+        internalType: "uint256",
+        name: "lastUpdated",
+        type: "uint256"
+      },
+      {
+        internalType: "bytes32",
+        name: "sourceHash",
+        type: "bytes32"
+      },
+      {
+        internalType: "bool",
+        name: "isSet",
+        type: "bool"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_labPubHash",
+        type: "bytes32"
+      }
+    ],
+    name: "deregisterLab",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "donId",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "fetchThresholds",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32"
+      }
+    ],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "getBloodPressureThreshold",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "getCholesterolThreshold",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_labPubHash",
+        type: "bytes32"
+      }
+    ],
+    name: "getLabInfo",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "labName",
+            type: "string"
+          },
+          {
+            internalType: "string",
+            name: "labId",
+            type: "string"
+          },
+          {
+            internalType: "bool",
+            name: "isRegistered",
+            type: "bool"
+          },
+          {
+            internalType: "uint256",
+            name: "registeredAt",
+            type: "uint256"
+          },
+          {
+            internalType: "uint256",
+            name: "lastVerifiedAt",
+            type: "uint256"
+          },
+          {
+            internalType: "bool",
+            name: "chainlinkVerified",
+            type: "bool"
+          }
+        ],
+        internalType: "struct ChainlinkThresholdOracle.LabInfo",
+        name: "",
+        type: "tuple"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "getRegisteredLabCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "getRegisteredLabs",
+    outputs: [
+      {
+        internalType: "bytes32[]",
+        name: "",
+        type: "bytes32[]"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "getSugarThreshold",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "getThresholds",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "sugar",
+        type: "uint64"
+      },
+      {
+        internalType: "uint64",
+        name: "cholesterol",
+        type: "uint64"
+      },
+      {
+        internalType: "uint64",
+        name: "bloodPressure",
+        type: "uint64"
+      },
+      {
+        internalType: "uint256",
+        name: "lastUpdated",
+        type: "uint256"
+      },
+      {
+        internalType: "bytes32",
+        name: "sourceHash",
+        type: "bytes32"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "requestId",
+        type: "bytes32"
+      },
+      {
+        internalType: "bytes",
+        name: "response",
+        type: "bytes"
+      },
+      {
+        internalType: "bytes",
+        name: "err",
+        type: "bytes"
+      }
+    ],
+    name: "handleOracleFulfillment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_labPubHash",
+        type: "bytes32"
+      }
+    ],
+    name: "isLabChainlinkVerified",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_labPubHash",
+        type: "bytes32"
+      }
+    ],
+    name: "isLabTrusted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32"
+      }
+    ],
+    name: "labs",
+    outputs: [
+      {
+        internalType: "string",
+        name: "labName",
+        type: "string"
+      },
+      {
+        internalType: "string",
+        name: "labId",
+        type: "string"
+      },
+      {
+        internalType: "bool",
+        name: "isRegistered",
+        type: "bool"
+      },
+      {
+        internalType: "uint256",
+        name: "registeredAt",
+        type: "uint256"
+      },
+      {
+        internalType: "uint256",
+        name: "lastVerifiedAt",
+        type: "uint256"
+      },
+      {
+        internalType: "bool",
+        name: "chainlinkVerified",
+        type: "bool"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "lastUpdateRequest",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "previousThresholds",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "sugarThreshold",
+        type: "uint64"
+      },
+      {
+        internalType: "uint64",
+        name: "cholesterolThreshold",
+        type: "uint64"
+      },
+      {
+        internalType: "uint64",
+        name: "bloodPressureThreshold",
+        type: "uint64"
+      },
+      {
+        internalType: "uint256",
+        name: "lastUpdated",
+        type: "uint256"
+      },
+      {
+        internalType: "bytes32",
+        name: "sourceHash",
+        type: "bytes32"
+      },
+      {
+        internalType: "bool",
+        name: "isSet",
+        type: "bool"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_labPubHash",
+        type: "bytes32"
+      },
+      {
+        internalType: "string",
+        name: "_labName",
+        type: "string"
+      },
+      {
+        internalType: "string",
+        name: "_labId",
+        type: "string"
+      }
+    ],
+    name: "registerLab",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256"
+      }
+    ],
+    name: "registeredLabHashes",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "_gasLimit",
+        type: "uint32"
+      }
+    ],
+    name: "setCallbackGasLimit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint64",
+        name: "_subId",
+        type: "uint64"
+      }
+    ],
+    name: "setSubscriptionId",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint64",
+        name: "_sugar",
+        type: "uint64"
+      },
+      {
+        internalType: "uint64",
+        name: "_cholesterol",
+        type: "uint64"
+      },
+      {
+        internalType: "uint64",
+        name: "_bp",
+        type: "uint64"
+      }
+    ],
+    name: "setThresholdsManual",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_cooldown",
+        type: "uint256"
+      }
+    ],
+    name: "setUpdateCooldown",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "subscriptionId",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address"
+      }
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "updateCooldown",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_labPubHash",
+        type: "bytes32"
+      }
+    ],
+    name: "verifyLabOffChain",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32"
+      }
+    ],
+    stateMutability: "nonpayable",
+    type: "function"
+  }
+] as const;
+
+/** MockzkHealthVerifier — contracts/MedZKVerifier.sol */
+export const VERIFIER_ABI = [
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes"
+      },
+      {
+        internalType: "bytes32[]",
+        name: "publicInputs",
+        type: "bytes32[]"
+      }
+    ],
+    name: "verify",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool"
+      }
+    ],
+    stateMutability: "pure",
+    type: "function"
+  }
+] as const;
@@ -0,0 +1,149 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Artifact Cache — circuit artifacts kept for offline proving
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Compiled circuits are fetched once and kept in Cache Storage,
+ * keyed by circuit version. Every artifact must match the SHA-256
+ * pinned for its version in lib/artifact-hashes when the circuits
+ * were compiled, so a server or cache serving other bytes is never
+ * proved with. Downloads are checked before they are cached, and
+ * cached entries again on every read: one that fails is dropped
+ * and fetched again. Bumping a circuit's version in lib/circuits
+ * evicts the entries of its other versions.
+ *
+ * The prover worker and the Noir and Barretenberg WASM ship as
+ * build chunks, which the service worker (public/sw.js) caches
+ * with the rest of the app.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { encodeBase64 } from "ethers";
+import type { CompiledCircuit } from "@noir-lang/noir_js";
+import { PINNED_ARTIFACT_HASHES } from "@/lib/artifact-hashes";
+import { CIRCUITS, type CircuitId } from "@/lib/circuits";
+
+/** Bump when the layout of cached entries changes. */
+const CACHE_PREFIX = "zkhealth-circuits-";
+export const ARTIFACT_CACHE = `${CACHE_PREFIX}v1`;
+
+/** Cache key of an artifact: its path, tagged with the version. */
+function artifactKey(circuitId: CircuitId): string {
+  const { artifactPath, version } = CIRCUITS[circuitId];
+  return `${artifactPath}?v=${version}`;
+}
+
+/** SHA-256 of an artifact's bytes, in SRI format. */
+export async function artifactIntegrity(bytes: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return `sha256-${encodeBase64(new Uint8Array(digest))}`;
+}
+
+/** The hash pinned for the circuit's current version. */
+function pinnedIntegrity(circuitId: CircuitId): string {
+  const { version } = CIRCUITS[circuitId];
+  const pinned = PINNED_ARTIFACT_HASHES[circuitId]?.[version];
+  if (!pinned) {
+    throw new Error(
+      `${circuitId} v${version} has no pinned artifact hash — run npm run pin:vk after compiling.`,
+    );
+  }
+  return pinned;
+}
+
+function parseArtifact(bytes: ArrayBuffer): CompiledCircuit {
+  return JSON.parse(new TextDecoder().decode(bytes));
+}
+
+/* ── Loading ──────────────────────────────────────────────── */
+
+/**
+ * A circuit's compiled artifact, from the cache when it holds an
+ * intact copy of the current version, otherwise from the network.
+ */
+export async function loadCircuitArtifact(
+  circuitId: CircuitId,
+): Promise<CompiledCircuit> {
+  const expected = pinnedIntegrity(circuitId);
+  if (typeof caches === "undefined") {
+    return parseArtifact(await download(circuitId, expected));
+  }
+
+  await pruneArtifactCaches();
+  const cache = await caches.open(ARTIFACT_CACHE);
+  const key = artifactKey(circuitId);
+
+  const cached = await cache.match(key);
+  if (cached) {
+    const bytes = await cached.arrayBuffer();
+    if ((await artifactIntegrity(bytes)) === expected) {
+      return parseArtifact(bytes);
+    }
+    console.warn(
+      `[Artifact Cache] Cached ${circuitId} failed its integrity check, downloading again.`,
+    );
+    await cache.delete(key);
+  }
+
+  const bytes = await download(circuitId, expected);
+  await cache.put(
+    key,
+    new Response(bytes, { headers: { "content-type": "application/json" } }),
+  );
+  await evictOtherVersions(cache, circuitId);
+  return parseArtifact(bytes);
+}
+
+/**
+ * Fetch every circuit while online, so a lab can switch claim types
+ * later without a connection. Circuits that are not deployed are
+ * skipped; they prove in simulation mode either way.
+ */
+export async function precacheCircuitArtifacts(): Promise<void> {
+  if (typeof caches === "undefined") return;
+  await Promise.allSettled(
+    (Object.keys(CIRCUITS) as CircuitId[]).map(loadCircuitArtifact),
+  );
+}
+
+async function download(
+  circuitId: CircuitId,
+  expected: string,
+): Promise<ArrayBuffer> {
+  const { artifactPath } = CIRCUITS[circuitId];
+  const response = await fetch(artifactPath, { cache: "no-cache" });
+  if (!response.ok) {
+    throw new Error(
+      `Could not download ${artifactPath}: HTTP ${response.status}`,
+    );
+  }
+  const bytes = await response.arrayBuffer();
+  if ((await artifactIntegrity(bytes)) !== expected) {
+    throw new Error(
+      `${artifactPath} does not match the artifact pinned for ${circuitId} — refusing to prove with it.`,
+    );
+  }
+  return bytes;
+}
+
+/* ── Eviction ─────────────────────────────────────────────── */
+
+async function evictOtherVersions(cache: Cache, circuitId: CircuitId) {
+  const { artifactPath } = CIRCUITS[circuitId];
+  const current = new URL(artifactKey(circuitId), self.location.origin).href;
+  for (const request of await cache.keys()) {
+    const url = new URL(request.url);
+    if (url.pathname === artifactPath && url.href !== current) {
+      await cache.delete(request);
+    }
+  }
+}
+
+/** Drop caches written by earlier layouts of this module. */
+async function pruneArtifactCaches(): Promise<void> {
+  for (const name of await caches.keys()) {
+    if (name.startsWith(CACHE_PREFIX) && name !== ARTIFACT_CACHE) {
+      await caches.delete(name);
+    }
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Pinned Circuit Artifacts — GENERATED, do not edit
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * SHA-256 of each compiled circuit artifact (SRI format), per
+ * circuit version. Regenerate with `npm run pin:vk` after compiling
+ * the circuits. lib/artifact-cache refuses any artifact, downloaded
+ * or cached, that does not match the pin of its version.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import type { CircuitId } from "@/lib/circuits";
+
+export const PINNED_ARTIFACT_HASHES: Partial<
+  Record<CircuitId, Record<string, string>>
+> = {
+  medical_proof: {
+    "1.4.0": "sha256-5miwnzx3ri/bVRxAlOYyvNihp2neJ9WpQSGoNnEAGgI="
+  },
+  diabetes_proof: {
+    "1.4.0": "sha256-ihRvU8PxEManDGQF789a7oN0hOYJ09XvNSxm7PGWGzc="
+  },
+  cholesterol_proof: {
+    "1.4.0": "sha256-aNl4/c2IShTkGmg21vQNJwds8IwhgY+3PTo82im3Nvo="
+  },
+  cardiac_proof: {
+    "1.4.0": "sha256-1SkqMZHgZolRlqFDMo6gXMlLp4QDizqb+F47PgKkq9I="
+  },
+  hypertension_proof: {
+    "1.4.0": "sha256-r+ElFDmczn45tRvHrUjTuavRGld3Df/TQpNYqnaQJFM="
+  },
+  diabetes_series_proof: {
+    "1.2.0": "sha256-zDSVQLtFO/AyXY1gWawYuMb3FEhBS3Nj9PunUqMGUQI="
+  },
+  hba1c_proof: {
+    "1.1.0": "sha256-H0X33AMwgLBj7uu0wydOfJiBl95dMelm48hojg8zB3M="
+  },
+  anemia_proof: {
+    "1.1.0": "sha256-nM0ItCHjxZNERNanmlmlI9npAw19Iz5Ox3HDfyNl1AA="
+  },
+  kidney_proof: {
+    "1.1.0": "sha256-lbVPMOw+q11ZmBvtrXm01xs+D1Nu+cqJkFJM/N3QsI0="
+  },
+  lipid_ratio_proof: {
+    "1.1.0": "sha256-AZ+GkL4H9ydw/qau2eZassWMnFAYOqnw7ZqvpT9WU1w="
+  }
+};
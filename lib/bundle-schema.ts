@@ -0,0 +1,614 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Bundle Schema — ClaimBundle v2 structure, validation, migration
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * CLAIM_BUNDLE_SCHEMA is a JSON Schema (2020-12) for the bundle an
+ * insurer receives. Other implementations can validate against it
+ * directly; here `validateSchema` checks the subset of keywords the
+ * schema uses and reports every failing field by JSON Pointer.
+ *
+ * Bundles written as v1.0.0 are migrated on load. Their issuer
+ * signature was made over the v1 hash, so it keeps being checked
+ * against that hash (see hashLegacyBundle).
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { keccak256, toUtf8Bytes } from "ethers";
+import { CIRCUITS, REPORT_FIELDS } from "@/lib/circuits";
+import {
+  BIOMARKERS,
+  DEFAULT_CLAIM_RULE,
+  withThresholds,
+  type Biomarker,
+  type BiomarkerValues,
+  type ClaimRule,
+} from "@/lib/claim-rules";
+import { isSimulatedVerificationKey } from "@/lib/zkp-engine";
+
+/* ── Types ────────────────────────────────────────────────── */
+
+export const BUNDLE_VERSION = "2.0.0";
+
+/** Keywords understood by validateSchema. */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  const?: string | number | boolean;
+  enum?: readonly (string | number)[];
+  pattern?: string;
+  minLength?: number;
+  minimum?: number;
+  required?: readonly string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  oneOf?: JsonSchema[];
+}
+
+/** One schema violation, located by JSON Pointer (RFC 6901). */
+export interface BundleFieldError {
+  path: string;
+  message: string;
+}
+
+/* ── Schema ───────────────────────────────────────────────── */
+
+const HEX = "^0x[0-9a-fA-F]+$";
+const BYTES32 = "^0x[0-9a-fA-F]{64}$";
+const ADDRESS = "^0x[0-9a-fA-F]{40}$";
+const SEMVER = "^\\d+\\.\\d+\\.\\d+$";
+
+const timestamp: JsonSchema = { type: "integer", minimum: 0 };
+const text: JsonSchema = { type: "string" };
+const nonEmpty: JsonSchema = { type: "string", minLength: 1 };
+
+const biomarker: JsonSchema = { enum: Object.keys(BIOMARKERS) };
+
+const predicate: JsonSchema = {
+  type: "object",
+  required: [
+    "type",
+    "marker",
+    "comparator",
+    "threshold",
+    "unit",
+    "condition",
+  ],
+  additionalProperties: false,
+  properties: {
+    type: { const: "predicate" },
+    marker: biomarker,
+    comparator: { enum: ["gt", "gte", "lt", "lte"] },
+    threshold: { type: "number" },
+    unit: text,
+    condition: text,
+  },
+};
+
+const rangeBound: JsonSchema = {
+  type: "object",
+  required: ["threshold", "inclusive"],
+  additionalProperties: false,
+  properties: {
+    threshold: { type: "number" },
+    inclusive: { type: "boolean" },
+  },
+};
+
+const range: JsonSchema = {
+  type: "object",
+  required: ["type", "marker", "lower", "upper", "unit", "condition"],
+  additionalProperties: false,
+  properties: {
+    type: { const: "range" },
+    marker: biomarker,
+    lower: rangeBound,
+    upper: rangeBound,
+    unit: text,
+    condition: text,
+  },
+};
+
+const series: JsonSchema = {
+  type: "object",
+  required: [
+    "type",
+    "marker",
+    "comparator",
+    "threshold",
+    "minReadings",
+    "minDaysApart",
+    "unit",
+    "condition",
+  ],
+  additionalProperties: false,
+  properties: {
+    type: { const: "series" },
+    marker: biomarker,
+    comparator: { enum: ["gt", "gte", "lt", "lte"] },
+    threshold: { type: "number" },
+    minReadings: { type: "integer", minimum: 1 },
+    minDaysApart: { type: "integer", minimum: 0 },
+    unit: text,
+    condition: text,
+  },
+};
+
+function combinator(type: "all" | "any"): JsonSchema {
+  return {
+    type: "object",
+    required: ["type", "rules"],
+    additionalProperties: false,
+    properties: {
+      type: { const: type },
+      rules: {
+        type: "array",
+        minItems: 1,
+        items: { $ref: "#/$defs/ruleNode" },
+      },
+    },
+  };
+}
+
+export const CLAIM_BUNDLE_SCHEMA: JsonSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: `urn:zkhealth:claim-bundle:${BUNDLE_VERSION}`,
+  title: "zkHealth ClaimBundle",
+  description:
+    "A zero-knowledge health claim: proof, public parameters and policy metadata. Never contains private medical values.",
+  type: "object",
+  required: [
+    "version",
+    "claimId",
+    "policy",
+    "proof",
+    "publicParams",
+    "createdAt",
+    "expiresAt",
+    "submitterId",
+  ],
+  additionalProperties: false,
+  properties: {
+    version: { const: BUNDLE_VERSION },
+    migratedFrom: { const: "1.0.0" },
+    claimId: { type: "string", pattern: "^CLM-[0-9A-Z]+-[0-9A-Z]+$" },
+    policy: {
+      type: "object",
+      required: [
+        "number",
+        "claimType",
+        "claimTypeLabel",
+        "insurerName",
+        "notes",
+      ],
+      additionalProperties: false,
+      properties: {
+        number: nonEmpty,
+        claimType: nonEmpty,
+        claimTypeLabel: text,
+        insurerName: text,
+        notes: text,
+      },
+    },
+    proof: {
+      type: "object",
+      required: [
+        "hash",
+        "publicInputs",
+        "verificationKey",
+        "mode",
+        "circuit",
+        "circuitVersion",
+        "provingTimeMs",
+      ],
+      additionalProperties: false,
+      properties: {
+        hash: { type: "string", pattern: HEX },
+        publicInputs: { type: "array", minItems: 1, items: nonEmpty },
+        verificationKey: nonEmpty,
+        mode: { enum: ["real", "simulated"] },
+        circuit: { enum: Object.keys(CIRCUITS) },
+        circuitVersion: { type: "string", pattern: SEMVER },
+        circuitMetrics: { $ref: "#/$defs/circuitMetrics" },
+        constraintCount: {
+          description: "v1.0.0 only, where it was never measured.",
+          type: "integer",
+          minimum: 0,
+        },
+        provingTimeMs: { type: "number", minimum: 0 },
+      },
+    },
+    publicParams: {
+      type: "object",
+      required: ["thresholds", "rule", "labIdentifier"],
+      additionalProperties: false,
+      properties: {
+        thresholds: {
+          type: "object",
+          additionalProperties: { type: "number" },
+        },
+        rule: { $ref: "#/$defs/claimRule" },
+        labIdentifier: text,
+        oracle: { $ref: "#/$defs/oracleSnapshot" },
+        nullifier: {
+          description: "Absent for circuits before v1.1.0.",
+          type: "string",
+          pattern: BYTES32,
+        },
+        disclosed: {
+          description: "Report values the proof reveals, by biomarker.",
+          type: "object",
+          additionalProperties: false,
+          properties: Object.fromEntries(
+            REPORT_FIELDS.map((marker) => [
+              marker,
+              { type: "number", minimum: 0 },
+            ]),
+          ),
+        },
+      },
+    },
+    createdAt: timestamp,
+    expiresAt: timestamp,
+    submitterId: { type: "string", pattern: "^0x[0-9a-f]{16}$" },
+    issuer: {
+      type: "object",
+      required: ["labAddress", "bundleHash", "signature", "signedAt"],
+      additionalProperties: false,
+      properties: {
+        labAddress: { type: "string", pattern: ADDRESS },
+        bundleHash: { type: "string", pattern: BYTES32 },
+        signature: { type: "string", pattern: HEX },
+        signedAt: timestamp,
+      },
+    },
+    onChain: {
+      type: "object",
+      required: [
+        "claimId",
+        "txHash",
+        "contractAddress",
+        "chainId",
+        "submittedAt",
+      ],
+      additionalProperties: false,
+      properties: {
+        claimId: { type: "string", pattern: BYTES32 },
+        txHash: { type: "string", pattern: BYTES32 },
+        contractAddress: { type: "string", pattern: ADDRESS },
+        chainId: { type: "integer", minimum: 1 },
+        submittedAt: timestamp,
+      },
+    },
+  },
+  $defs: {
+    claimRule: {
+      type: "object",
+      required: ["id", "version", "description", "root"],
+      additionalProperties: false,
+      properties: {
+        id: nonEmpty,
+        version: { type: "string", pattern: SEMVER },
+        description: text,
+        root: { $ref: "#/$defs/ruleNode" },
+      },
+    },
+    ruleNode: {
+      oneOf: [
+        predicate,
+        range,
+        series,
+        combinator("all"),
+        combinator("any"),
+        {
+          type: "object",
+          required: ["type", "count", "rules"],
+          additionalProperties: false,
+          properties: {
+            type: { const: "at_least" },
+            count: { type: "integer", minimum: 1 },
+            rules: {
+              type: "array",
+              minItems: 1,
+              items: { $ref: "#/$defs/ruleNode" },
+            },
+          },
+        },
+      ],
+    },
+    oracleSnapshot: {
+      type: "object",
+      required: [
+        "chainId",
+        "address",
+        "thresholds",
+        "updatedAt",
+        "sourceHash",
+      ],
+      additionalProperties: false,
+      properties: {
+        chainId: { type: "integer", minimum: 1 },
+        address: { type: "string", pattern: ADDRESS },
+        thresholds: {
+          type: "object",
+          required: ["sugar", "cholesterol", "bpSystolic"],
+          additionalProperties: false,
+          properties: {
+            sugar: { type: "number" },
+            cholesterol: { type: "number" },
+            bpSystolic: { type: "number" },
+          },
+        },
+        updatedAt: timestamp,
+        sourceHash: { type: "string", pattern: BYTES32 },
+      },
+    },
+    circuitMetrics: {
+      type: "object",
+      required: ["noirVersion", "acirHash", "gateCount"],
+      additionalProperties: false,
+      properties: {
+        noirVersion: nonEmpty,
+        acirHash: { type: "string", pattern: BYTES32 },
+        gateCount: { type: "integer", minimum: 1 },
+      },
+    },
+  },
+};
+
+/* ── Validation ───────────────────────────────────────────── */
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: JsonSchema["type"]): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  const name = ref.replace(/^#\/\$defs\//, "");
+  const target = root.$defs?.[name];
+  if (!target) throw new Error(`Unresolvable schema reference ${ref}`);
+  return target;
+}
+
+/** RFC 6901: `~` and `/` are escaped inside a pointer segment. */
+function pointer(path: string, key: string | number): string {
+  return `${path}/${String(key).replace(/~/g, "~0").replace(/\//g, "~1")}`;
+}
+
+function validateNode(
+  root: JsonSchema,
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  errors: BundleFieldError[],
+): void {
+  if (schema.$ref) {
+    validateNode(root, resolveRef(root, schema.$ref), value, path, errors);
+    return;
+  }
+
+  if (schema.oneOf) {
+    const attempts = schema.oneOf.map((branch) => {
+      const branchErrors: BundleFieldError[] = [];
+      validateNode(root, branch, value, path, branchErrors);
+      return branchErrors;
+    });
+    const passing = attempts.filter((a) => a.length === 0).length;
+    if (passing > 1) {
+      errors.push({ path, message: "matches more than one allowed shape" });
+    } else if (passing === 0) {
+      // Report the branch the value came closest to
+      const closest = attempts.reduce((a, b) => (b.length < a.length ? b : a));
+      errors.push(...closest);
+    }
+    return;
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push({
+      path,
+      message: `must be one of ${schema.enum.join(", ")}`,
+    });
+    return;
+  }
+  if (schema.type && !matchesType(value, schema.type)) {
+    errors.push({
+      path,
+      message: `must be ${schema.type}, got ${typeOf(value)}`,
+    });
+    return;
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: "must not be empty" });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === "number" && schema.minimum !== undefined) {
+    if (value < schema.minimum) {
+      errors.push({ path, message: `must be ≥ ${schema.minimum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({
+        path,
+        message: `must have at least ${schema.minItems} item(s)`,
+      });
+    }
+    if (schema.items) {
+      value.forEach((item, i) =>
+        validateNode(root, schema.items!, item, pointer(path, i), errors),
+      );
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        errors.push({ path: pointer(path, key), message: "is required" });
+      }
+    }
+    for (const [key, child] of Object.entries(record)) {
+      if (child === undefined) continue;
+      const known = schema.properties?.[key];
+      if (known) {
+        validateNode(root, known, child, pointer(path, key), errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: pointer(path, key), message: "is not allowed" });
+      } else if (typeof schema.additionalProperties === "object") {
+        validateNode(
+          root,
+          schema.additionalProperties,
+          child,
+          pointer(path, key),
+          errors,
+        );
+      }
+    }
+  }
+}
+
+/** Every place `value` violates `schema`; empty when it conforms. */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema = CLAIM_BUNDLE_SCHEMA,
+): BundleFieldError[] {
+  const errors: BundleFieldError[] = [];
+  validateNode(schema, schema, value, "", errors);
+  return errors;
+}
+
+export function formatFieldError(error: BundleFieldError): string {
+  return `${error.path || "(bundle)"} ${error.message}`;
+}
+
+/* ── Migration ────────────────────────────────────────────── */
+
+/** Every v1 proof was made with the first release of its circuit. */
+const V1_CIRCUIT_VERSION = "1.0.0";
+
+/** The name v1 gave medical_proof, the only circuit it had. */
+const V1_CIRCUIT = "medical_insurance_claim_v1.nr";
+
+/**
+ * The rule a v1 proof was made against: DEFAULT_CLAIM_RULE with
+ * the bundle's thresholds. v1 declared sugar and cholesterol; the
+ * blood pressure threshold is only in the public inputs, which v1
+ * wrote as [sugar, cholesterol, bp, result].
+ */
+function legacyRule(
+  thresholds: Record<string, unknown>,
+  publicInputs: unknown,
+): ClaimRule {
+  const proven = Array.isArray(publicInputs) ? publicInputs : [];
+  const v1: BiomarkerValues = {};
+  const declared = {
+    sugar: thresholds.sugar ?? proven[0],
+    cholesterol: thresholds.cholesterol ?? proven[1],
+    bpSystolic: proven[2],
+  };
+  for (const [marker, value] of Object.entries(declared)) {
+    if (value !== undefined) v1[marker as Biomarker] = Number(value);
+  }
+  return withThresholds(DEFAULT_CLAIM_RULE, v1);
+}
+
+/**
+ * Upgrade a parsed bundle to the current version. v1.0.0 bundles
+ * keep their content, but `version` changes, the v1 circuit name
+ * becomes medical_proof and the circuit version and rule it
+ * implied are made explicit. Other versions are returned
+ * untouched for validation to report.
+ */
+export function migrateBundle(
+  raw: Record<string, unknown>,
+): Record<string, unknown> {
+  if (raw.version !== "1.0.0") return raw;
+
+  const proof = raw.proof as Record<string, unknown> | undefined;
+  const params = raw.publicParams as Record<string, unknown> | undefined;
+  return {
+    ...raw,
+    version: BUNDLE_VERSION,
+    migratedFrom: "1.0.0",
+    ...(proof && {
+      proof: {
+        circuitVersion: V1_CIRCUIT_VERSION,
+        ...proof,
+        ...(proof.circuit === V1_CIRCUIT && { circuit: "medical_proof" }),
+        // v1 recorded the mode only in the VK marker
+        mode: isSimulatedVerificationKey(String(proof.verificationKey))
+          ? "simulated"
+          : "real",
+      },
+    }),
+    ...(params && {
+      publicParams: {
+        ...params,
+        rule: legacyRule(
+          (params.thresholds ?? {}) as Record<string, unknown>,
+          proof?.publicInputs,
+        ),
+      },
+    }),
+  };
+}
+
+/**
+ * The hash a v1.0.0 issuer signed: `JSON.stringify` of a fixed set
+ * of fields, in the key order of the original file. Migration does
+ * not reorder those fields, and what it added or renamed is undone
+ * here, so the signature still verifies.
+ */
+export function hashLegacyBundle(bundle: {
+  claimId: string;
+  policy: unknown;
+  proof: Record<string, unknown>;
+  publicParams: Record<string, unknown>;
+  createdAt: number;
+  expiresAt: number;
+  submitterId: string;
+}): string {
+  const proof = { ...bundle.proof };
+  delete proof.circuitVersion;
+  delete proof.mode;
+  if (proof.circuit === "medical_proof") proof.circuit = V1_CIRCUIT;
+  const publicParams = { ...bundle.publicParams };
+  delete publicParams.rule;
+  const json = JSON.stringify({
+    version: "1.0.0",
+    claimId: bundle.claimId,
+    policy: bundle.policy,
+    proof,
+    publicParams,
+    createdAt: bundle.createdAt,
+    expiresAt: bundle.expiresAt,
+    submitterId: bundle.submitterId,
+  });
+  return keccak256(toUtf8Bytes(json));
+}
@@ -0,0 +1,637 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Bundle Verifier — the checks an insurer runs on a claim bundle
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * One implementation for every verifier: the insurer portal
+ * (hooks/use-verifier) and `zkhealth verify` (scripts/zkhealth)
+ * both call verifyBundle, so they reach the same verdict on the
+ * same bundle, issuer signature included. Checks never throw;
+ * each failure becomes a failed check with a readable detail.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import {
+  deserializeBundle,
+  validateBundle,
+  isExpired,
+  isSimulated,
+  getProofBytes,
+  claimScopeOf,
+  nullifierScope,
+  CLAIM_TYPES,
+  type ClaimBundle,
+} from "@/lib/claim-engine";
+import {
+  SIMULATED_VK_PREFIX,
+  type GeneratedProof,
+  type ProofMode,
+} from "@/lib/zkp-engine";
+import { verifyInWorker } from "@/lib/prover-client";
+import {
+  CIRCUITS,
+  decodePublicInputs,
+  getPinnedVkHash,
+  hasPinnedVkHashes,
+  isCircuitId,
+  ruleMatchesCircuit,
+  type DecodedPublicInputs,
+} from "@/lib/circuits";
+import {
+  BIOMARKERS,
+  collectThresholds,
+  describeThresholdKey,
+  getThreshold,
+  type Biomarker,
+} from "@/lib/claim-rules";
+import {
+  fetchThresholdsAt,
+  getOracleAddress,
+  isOracleMarker,
+} from "@/lib/threshold-oracle";
+import { ACTIVE_NETWORK } from "@/lib/networks";
+import {
+  checkLabSignature,
+  getLabTrusted,
+  getNullifierClaim,
+  type LabSignatureState,
+} from "@/lib/chain";
+import { DEMO_LABS } from "@/lib/lab-signer";
+import { fieldsEqual } from "@/lib/pedersen";
+import {
+  localNullifierStore,
+  type NullifierStore,
+} from "@/lib/nullifier-store";
+import { formatFieldError } from "@/lib/bundle-schema";
+import { truncateHash } from "@/lib/utils";
+
+/* ── Types ────────────────────────────────────────────────── */
+
+export interface VerificationResult {
+  isValid: boolean;
+  timestamp: number;
+  checks: VerificationCheck[];
+  mode: ProofMode; // Simulated if either the mode or the VK says so
+  strict: boolean; // Whether simulated proofs were refused
+  issuer: IssuerStatus;
+}
+
+/** Where the bundle's issuer signature stands (checkLabSignature). */
+export interface IssuerStatus {
+  state: LabSignatureState;
+  labAddress: string;
+}
+
+/**
+ * Strict verifiers refuse simulated proofs outright. Set
+ * NEXT_PUBLIC_VERIFIER_STRICT=false to accept them in demos, or
+ * true to refuse them regardless. Unset, verifiers are strict once
+ * a verification key is pinned: before that every proof is
+ * simulated, and strict mode would refuse all of them.
+ */
+export const DEFAULT_STRICT_MODE =
+  process.env.NEXT_PUBLIC_VERIFIER_STRICT === undefined
+    ? hasPinnedVkHashes()
+    : process.env.NEXT_PUBLIC_VERIFIER_STRICT !== "false";
+
+export interface VerificationCheck {
+  label: string;
+  passed: boolean;
+  detail: string;
+  comparisons?: InputComparison[];
+}
+
+/** A value decoded from the proof next to what the bundle declares. */
+export interface InputComparison {
+  label: string;
+  proven: string;
+  declared: string;
+  match: boolean;
+}
+
+/* ── Proof Checks ─────────────────────────────────────────── */
+
+/** Public inputs of the bundle's proof, by its circuit's layout. */
+function decodeBundleInputs(bundle: ClaimBundle): DecodedPublicInputs {
+  const { circuit, circuitVersion, publicInputs } = bundle.proof;
+  if (!isCircuitId(circuit)) throw new Error(`Unknown circuit ${circuit}`);
+  return decodePublicInputs(circuit, publicInputs, circuitVersion);
+}
+
+/**
+ * `publicParams` is only a label — what the proof actually proves
+ * is in its public inputs. Every declared threshold and disclosed
+ * value must equal the decoded one, the rule must have the
+ * circuit's shape, and the result flag must be set.
+ */
+function checkPublicInputs(bundle: ClaimBundle): VerificationCheck {
+  const label = "Public Inputs Consistency";
+  let decoded: DecodedPublicInputs;
+  try {
+    decoded = decodeBundleInputs(bundle);
+  } catch (err) {
+    return {
+      label,
+      passed: false,
+      detail: err instanceof Error ? err.message : String(err),
+    };
+  }
+
+  const { thresholds: declared, rule } = bundle.publicParams;
+  const ruleThresholds = collectThresholds(rule);
+  const keys = new Set([
+    ...Object.keys(decoded.thresholds),
+    ...Object.keys(declared),
+  ]);
+  const comparisons: InputComparison[] = [...keys].map((key) => {
+    const proven = decoded.thresholds[key];
+    const ruleThreshold = ruleThresholds[key];
+    return {
+      label: describeThresholdKey(key),
+      proven: proven?.toString() ?? "—",
+      declared: declared[key]?.toString() ?? "—",
+      match:
+        proven !== undefined &&
+        declared[key] === proven &&
+        ruleThreshold === proven,
+    };
+  });
+  const disclosed = bundle.publicParams.disclosed ?? {};
+  const disclosedMarkers = new Set([
+    ...Object.keys(decoded.disclosed),
+    ...Object.keys(disclosed),
+  ]) as Set<Biomarker>;
+  for (const marker of disclosedMarkers) {
+    const proven = decoded.disclosed[marker];
+    comparisons.push({
+      label: `Disclosed ${BIOMARKERS[marker]?.label ?? marker}`,
+      proven: proven?.toString() ?? "—",
+      declared: disclosed[marker]?.toString() ?? "—",
+      match: proven !== undefined && disclosed[marker] === proven,
+    });
+  }
+  comparisons.push({
+    label: "Result",
+    proven: decoded.result ? "1" : "0",
+    declared: "1",
+    match: decoded.result,
+  });
+
+  const shapeMatches = ruleMatchesCircuit(rule, decoded.circuit);
+  const mismatched = comparisons.filter((c) => !c.match);
+  const passed = shapeMatches && mismatched.length === 0;
+  return {
+    label,
+    passed,
+    detail: passed
+      ? `${bundle.proof.publicInputs.length} public inputs decoded for ${decoded.circuit} v${decoded.version} and match the declared rule`
+      : !shapeMatches
+        ? `Declared rule "${rule.id}" is not the predicate ${decoded.circuit} proves`
+        : `Proof does not match the bundle: ${mismatched
+            .map((c) => c.label)
+            .join(", ")}`,
+    comparisons,
+  };
+}
+
+/**
+ * The bundle names the verification key its proof needs; the
+ * insurer only verifies against keys pinned for the declared
+ * circuit version, so a proof for some other circuit cannot pass.
+ * Simulated proofs have no key to pin: strict mode refuses them,
+ * otherwise they pass as explicitly unverified.
+ */
+async function checkCryptographicProof(
+  bundle: ClaimBundle,
+  strict: boolean,
+): Promise<VerificationCheck> {
+  const label = "Cryptographic Proof";
+  const { circuit, circuitVersion, verificationKey, mode } = bundle.proof;
+  if (!isCircuitId(circuit)) {
+    return { label, passed: false, detail: `Unknown circuit ${circuit}` };
+  }
+
+  if (isSimulated(bundle)) {
+    if (mode !== "simulated") {
+      return {
+        label,
+        passed: false,
+        detail: `Bundle declares a ${mode} proof but carries a simulated verification key`,
+      };
+    }
+    if (strict) {
+      return {
+        label,
+        passed: false,
+        detail: "SIMULATED proof — refused in strict mode",
+      };
+    }
+    // There is nothing to verify; only the marker can be checked
+    const marked = verificationKey === `${SIMULATED_VK_PREFIX}${circuit}`;
+    return {
+      label,
+      passed: marked,
+      detail: marked
+        ? "SIMULATED proof accepted with strict mode off — not cryptographically verified"
+        : `Simulated verification key does not belong to ${circuit}`,
+    };
+  }
+
+  const pinned = getPinnedVkHash(circuit, circuitVersion);
+  if (!pinned) {
+    return {
+      label,
+      passed: false,
+      detail: `No trusted verification key is pinned for ${circuit} v${circuitVersion}`,
+    };
+  }
+  if (pinned.toLowerCase() !== verificationKey.toLowerCase()) {
+    return {
+      label,
+      passed: false,
+      detail: `Verification key ${truncateHash(verificationKey, 10)} is not the pinned key for ${circuit} v${circuitVersion}`,
+    };
+  }
+
+  let proofData: GeneratedProof;
+  try {
+    proofData = {
+      proof: getProofBytes(bundle),
+      publicSignals: bundle.proof.publicInputs,
+    };
+  } catch (err) {
+    return {
+      label,
+      passed: false,
+      detail: err instanceof Error ? err.message : String(err),
+    };
+  }
+  const valid = await verifyInWorker(proofData, circuit, verificationKey);
+  return {
+    label,
+    passed: valid,
+    detail: valid
+      ? `Proof verified against the pinned key for ${circuit} v${circuitVersion}`
+      : "Proof verification failed — invalid or tampered",
+  };
+}
+
+function describeMismatches(
+  proven: Record<string, number>,
+  expected: Record<string, number | undefined>,
+): string[] {
+  return Object.entries(proven)
+    .filter(([key, value]) => expected[key] !== value)
+    .map(([key, value]) => `${key} ${value} ≠ ${expected[key] ?? "unset"}`);
+}
+
+/**
+ * The thresholds the proof was generated against must be the ones
+ * the oracle published when the bundle was signed. Bundles from a
+ * network without an oracle must use the circuit defaults. The
+ * oracle publishes neither bands nor reading counts, and only
+ * covers ORACLE_MARKERS, so band bounds, series parameters and
+ * other markers' thresholds must always be the circuit's own.
+ */
+async function checkOracleThresholds(
+  bundle: ClaimBundle,
+): Promise<VerificationCheck> {
+  const label = "Oracle Thresholds";
+  let decoded: DecodedPublicInputs;
+  try {
+    decoded = decodeBundleInputs(bundle);
+  } catch (err) {
+    return {
+      label,
+      passed: false,
+      detail: err instanceof Error ? err.message : String(err),
+    };
+  }
+
+  const { circuit } = decoded;
+  const snapshot = bundle.publicParams.oracle;
+  const proven: Record<string, number> = {};
+  const fixed: Record<string, number> = {};
+  for (const [key, value] of Object.entries(decoded.thresholds)) {
+    if (isOracleMarker(key)) proven[key] = value;
+    else fixed[key] = value;
+  }
+  const fixedMismatches = describeMismatches(
+    fixed,
+    collectThresholds(CIRCUITS[circuit].rule),
+  );
+
+  if (!snapshot) {
+    if (getOracleAddress()) {
+      return {
+        label,
+        passed: false,
+        detail: `Bundle records no oracle update, but ${ACTIVE_NETWORK.name} has a threshold oracle`,
+      };
+    }
+    const defaults: Partial<Record<Biomarker, number>> = {};
+    for (const marker of Object.keys(proven) as Biomarker[]) {
+      defaults[marker] = getThreshold(CIRCUITS[circuit].rule, marker);
+    }
+    const mismatches = [
+      ...describeMismatches(proven, defaults),
+      ...fixedMismatches,
+    ];
+    return {
+      label,
+      passed: mismatches.length === 0,
+      detail: mismatches.length
+        ? `Thresholds differ from circuit defaults: ${mismatches.join(", ")}`
+        : `No oracle on ${ACTIVE_NETWORK.name} — circuit default thresholds used`,
+    };
+  }
+
+  const signedAt = bundle.issuer?.signedAt ?? bundle.createdAt;
+  try {
+    const atSigning = await fetchThresholdsAt(
+      snapshot.chainId,
+      snapshot.address,
+      signedAt,
+    );
+    if (!atSigning) {
+      return {
+        label,
+        passed: false,
+        detail:
+          "Oracle no longer records the thresholds in effect at signing time",
+      };
+    }
+    const mismatches = [
+      ...describeMismatches(proven, snapshot.thresholds),
+      ...describeMismatches(proven, atSigning.thresholds),
+      ...fixedMismatches,
+    ];
+    if (atSigning.sourceHash !== snapshot.sourceHash) {
+      mismatches.push("oracle update differs from the one recorded");
+    }
+    return {
+      label,
+      passed: mismatches.length === 0,
+      detail: mismatches.length
+        ? `Public thresholds do not match the oracle: ${mismatches.join(", ")}`
+        : `Match oracle update of ${new Date(atSigning.updatedAt).toLocaleString()}`,
+    };
+  } catch (err) {
+    return {
+      label,
+      passed: false,
+      detail: `Could not read the oracle: ${
+        err instanceof Error ? err.message : String(err)
+      }`,
+    };
+  }
+}
+
+/**
+ * The proof shows a lab signed the report; it is only worth
+ * something if that lab is trusted. The proof's lab_pub_hash must
+ * be registered on ClaimManager or, when the chain cannot be read,
+ * be one of the known labs (DEMO_LABS) — the detail then says so.
+ */
+async function checkLab(bundle: ClaimBundle): Promise<VerificationCheck> {
+  const label = "Trusted Lab";
+  let labPubHash: string;
+  try {
+    labPubHash = decodeBundleInputs(bundle).labPubHash;
+  } catch (err) {
+    return {
+      label,
+      passed: false,
+      detail: err instanceof Error ? err.message : String(err),
+    };
+  }
+
+  let registered: boolean;
+  try {
+    registered = await getLabTrusted(labPubHash);
+  } catch {
+    const known = DEMO_LABS.find((lab) =>
+      fieldsEqual(lab.labPubHash, labPubHash),
+    );
+    return {
+      label,
+      passed: !!known,
+      detail: known
+        ? `Signed by ${known.labName} (${known.labId}), a known lab — on-chain registry unavailable`
+        : `Lab ${truncateHash(labPubHash, 10)} is not a known lab — on-chain registry unavailable`,
+    };
+  }
+  return {
+    label,
+    passed: registered,
+    detail: registered
+      ? `Lab ${truncateHash(labPubHash, 10)} is registered on ${ACTIVE_NETWORK.name}`
+      : `Lab ${truncateHash(labPubHash, 10)} is not registered on ${ACTIVE_NETWORK.name}`,
+  };
+}
+
+/** The nullifier the bundle's proof publishes. */
+export function getBundleNullifier(bundle: ClaimBundle): string {
+  return decodeBundleInputs(bundle).nullifier;
+}
+
+/**
+ * A report backs one claim per scope. The proof's nullifier must
+ * be scoped to the bundle's claim type, insurer and policy, and
+ * neither this insurer nor ClaimManager may hold it for another
+ * claim. When the chain cannot be read, only the insurer's own
+ * record is checked and the detail says so.
+ */
+async function checkNullifier(
+  bundle: ClaimBundle,
+  store: NullifierStore,
+): Promise<VerificationCheck> {
+  const label = "Not previously claimed";
+  let decoded: DecodedPublicInputs;
+  try {
+    decoded = decodeBundleInputs(bundle);
+  } catch (err) {
+    return {
+      label,
+      passed: false,
+      detail: err instanceof Error ? err.message : String(err),
+    };
+  }
+
+  const { nullifier, scope } = decoded;
+  if (!nullifier) {
+    return {
+      label,
+      passed: false,
+      detail: `${decoded.circuit} v${decoded.version} predates nullifiers, so its report could be claimed again`,
+    };
+  }
+  const declared = bundle.publicParams.nullifier;
+  if (declared && !fieldsEqual(declared, nullifier)) {
+    return {
+      label,
+      passed: false,
+      detail: `Bundle declares nullifier ${truncateHash(declared, 10)}, proof has ${truncateHash(nullifier, 10)}`,
+    };
+  }
+  const { claimType, insurerName, number } = bundle.policy;
+  if (!fieldsEqual(scope, nullifierScope(claimScopeOf(bundle)))) {
+    return {
+      label,
+      passed: false,
+      detail: `Nullifier is not scoped to a ${claimType} claim on policy ${number} at ${insurerName}`,
+    };
+  }
+
+  const local = store.lookup(nullifier);
+  if (local && local.claimId !== bundle.claimId) {
+    return {
+      label,
+      passed: false,
+      detail: `Report already claimed as ${local.claimId} on ${new Date(
+        local.recordedAt,
+      ).toLocaleString()}`,
+    };
+  }
+
+  let onChain: string | null;
+  try {
+    onChain = await getNullifierClaim(nullifier);
+  } catch {
+    return {
+      label,
+      passed: true,
+      detail: `Nullifier ${truncateHash(nullifier, 10)} not claimed with this insurer — on-chain registry unavailable`,
+    };
+  }
+  const submitted = bundle.onChain?.claimId.toLowerCase();
+  if (onChain && onChain.toLowerCase() !== submitted) {
+    return {
+      label,
+      passed: false,
+      detail: `Report already claimed on ${ACTIVE_NETWORK.name} by claim ${truncateHash(onChain, 10)}`,
+    };
+  }
+  return {
+    label,
+    passed: true,
+    detail: `Nullifier ${truncateHash(nullifier, 10)} not claimed with this insurer or on ${ACTIVE_NETWORK.name}`,
+  };
+}
+
+/* ── Bundle Checks ────────────────────────────────────────── */
+
+const ISSUER_DETAILS: Record<LabSignatureState, string> = {
+  unsigned: "The bundle is not signed by a lab",
+  invalid: "The signature does not match the bundle",
+  signed_unregistered: "Signed, but the lab is not registered on-chain",
+  signed_registered: "Signed by a registered lab",
+};
+
+/**
+ * The lab signs every field the insurer relies on, so a signature
+ * that does not match means the bundle was edited after signing.
+ * Unsigned bundles pass and say so; whether the lab behind the
+ * proof is trusted is checkLab's question.
+ */
+function checkIssuerSignature(issuer: IssuerStatus): VerificationCheck {
+  return {
+    label: "Issuer signature",
+    passed: issuer.state !== "invalid",
+    detail: ISSUER_DETAILS[issuer.state],
+  };
+}
+
+function checkStructure(bundle: ClaimBundle): VerificationCheck {
+  const validation = validateBundle(bundle);
+  return {
+    label: "Bundle Structure",
+    passed: validation.valid,
+    detail: validation.valid
+      ? "All required fields present"
+      : validation.errors.map(formatFieldError).join("; "),
+  };
+}
+
+function checkExpiry(bundle: ClaimBundle): VerificationCheck {
+  const expired = isExpired(bundle);
+  return {
+    label: "Expiry Check",
+    passed: !expired,
+    detail: expired
+      ? "Claim bundle has expired"
+      : `Valid for ${Math.ceil(
+          (bundle.expiresAt - Date.now()) / 86400000,
+        )} more days`,
+  };
+}
+
+function checkCircuitBinding(bundle: ClaimBundle): VerificationCheck {
+  const expectedCircuit = CLAIM_TYPES[bundle.policy.claimType]?.circuit;
+  const circuitBound = bundle.proof.circuit === expectedCircuit;
+  return {
+    label: "Circuit Binding",
+    passed: circuitBound,
+    detail: circuitBound
+      ? `Circuit ${bundle.proof.circuit} matches claim type ${bundle.policy.claimType}`
+      : expectedCircuit
+        ? `Claim type ${bundle.policy.claimType} requires circuit ${expectedCircuit}, bundle uses ${bundle.proof.circuit}`
+        : `Unknown claim type ${bundle.policy.claimType}`,
+  };
+}
+
+/* ── Entry Points ─────────────────────────────────────────── */
+
+/**
+ * Parse and validate a bundle as received from a file, link or
+ * paste; throws with the schema errors when it is not usable.
+ */
+export function parseBundle(raw: string): ClaimBundle {
+  const parsed = deserializeBundle(raw);
+  if (!parsed) {
+    throw new Error(
+      "Invalid claim bundle format. Expected a zkHealth claim JSON.",
+    );
+  }
+
+  const validation = validateBundle(parsed);
+  if (!validation.valid) {
+    throw new Error(
+      `Bundle validation failed: ${validation.errors
+        .map(formatFieldError)
+        .join("; ")}`,
+    );
+  }
+  return parsed;
+}
+
+/** Run every check; the bundle is valid only if all of them pass. */
+export async function verifyBundle(
+  bundle: ClaimBundle,
+  {
+    strict = DEFAULT_STRICT_MODE,
+    nullifiers = localNullifierStore,
+  }: { strict?: boolean; nullifiers?: NullifierStore } = {},
+): Promise<VerificationResult> {
+  const issuer = await checkLabSignature(bundle);
+  const checks: VerificationCheck[] = [
+    checkStructure(bundle),
+    checkIssuerSignature(issuer),
+    checkExpiry(bundle),
+    checkCircuitBinding(bundle),
+    await checkCryptographicProof(bundle, strict),
+    checkPublicInputs(bundle),
+    await checkLab(bundle),
+    await checkOracleThresholds(bundle),
+    await checkNullifier(bundle, nullifiers),
+  ];
+
+  return {
+    isValid: checks.every((c) => c.passed),
+    timestamp: Date.now(),
+    checks,
+    mode: isSimulated(bundle) ? "simulated" : "real",
+    strict,
+    issuer,
+  };
+}
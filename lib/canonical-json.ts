@@ -0,0 +1,54 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Canonical JSON — RFC 8785 (JSON Canonicalization Scheme)
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * `JSON.stringify` output depends on the order keys were inserted,
+ * so two parties holding the same bundle can hash it differently.
+ * JCS fixes one serialization for every JSON value:
+ *
+ *   - object keys sorted by UTF-16 code units, no whitespace
+ *   - numbers in ECMAScript shortest round-trip form
+ *   - strings escaped exactly as ECMAScript `JSON.stringify` does
+ *
+ * Anything that is not plain JSON (NaN, Infinity, bigint, functions)
+ * is rejected rather than silently dropped.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value === "boolean") {
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot canonicalize non-finite number ${value}.`);
+    }
+    // ECMAScript Number-to-String is the serialization JCS mandates
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === "string") {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value
+      .map((item) => (item === undefined ? "null" : canonicalize(item)))
+      .join(",")}]`;
+  }
+
+  if (typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    // Default sort compares UTF-16 code units, as RFC 8785 §3.2.3 requires
+    const keys = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort();
+    return `{${keys
+      .map((key) => `${JSON.stringify(key)}:${canonicalize(record[key])}`)
+      .join(",")}}`;
+  }
+
+  throw new Error(`Cannot canonicalize a value of type ${typeof value}.`);
+}
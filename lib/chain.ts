@@ -1,36 +1,29 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { ethers } from "ethers";
-import ABI from "./abi";
-import type { ClaimBundle } from "@/lib/claim-engine";
-
-const SEPOLIA_CHAIN_ID = 11155111;
-const CLAIM_MANAGER_ADDRESS = "0x33572879683C50Cd162905D02D353e33BC47297C";
-
-const SEPOLIA_RPC_URL =
-  process.env.NEXT_PUBLIC_SEPOLIA_RPC_URL ??
-  "https://ethereum-sepolia-rpc.publicnode.com";
-
-const CLAIM_MANAGER_ABI = ABI;
+import { CLAIM_MANAGER_ABI } from "./abi";
+import {
+  getProofBytes,
+  hashBundle,
+  type ClaimBundle,
+} from "@/lib/claim-engine";
+import { hashLegacyBundle } from "@/lib/bundle-schema";
+import { isCircuitId, publicInputLayout } from "@/lib/circuits";
+import {
+  ACTIVE_NETWORK,
+  getAddChainParams,
+  getNetworkByChainId,
+  getSwitchChainParams,
+  type NetworkConfig,
+} from "@/lib/networks";
+
+const CLAIM_MANAGER_ADDRESS =
+  process.env.NEXT_PUBLIC_CLAIM_MANAGER_ADDRESS ??
+  ACTIVE_NETWORK.contracts.claimManager;
 
 export type OnChainStatus = "Submitted" | "Approved" | "Rejected" | "Unknown";
 
-function getHashPayload(bundle: ClaimBundle) {
-  return {
-    version: bundle.version,
-    claimId: bundle.claimId,
-    policy: bundle.policy,
-    proof: bundle.proof,
-    publicParams: bundle.publicParams,
-    createdAt: bundle.createdAt,
-    expiresAt: bundle.expiresAt,
-    submitterId: bundle.submitterId,
-  };
-}
-
-export function hashBundle(bundle: ClaimBundle): string {
-  const json = JSON.stringify(getHashPayload(bundle));
-  return ethers.keccak256(ethers.toUtf8Bytes(json));
-}
+/** ClaimManager.Status, in enum order. */
+const STATUSES: OnChainStatus[] = ["Submitted", "Approved", "Rejected"];
 
 function toBytes32(value: string): string {
   const v = value.trim();
@@ -58,57 +51,140 @@ export function getMetaMaskInstallUrl(): string {
   return "https://metamask.io/download/";
 }
 
-function proofToHex(proof: string): string {
-  if (proof.startsWith("0x")) return proof;
-  return ethers.hexlify(ethers.toUtf8Bytes(proof));
-}
+/** MetaMask's error code for a chain it has not been told about. */
+const UNRECOGNIZED_CHAIN = 4902;
 
-async function getBrowserProvider() {
+async function getBrowserProvider(network: NetworkConfig = ACTIVE_NETWORK) {
   if (typeof window === "undefined" || !(window as any).ethereum) {
     throw new Error("MetaMask not found");
   }
 
-  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const ethereum = (window as any).ethereum;
+  const provider = new ethers.BrowserProvider(ethereum);
   await provider.send("eth_requestAccounts", []);
 
-  const network = await provider.getNetwork();
-  if (Number(network.chainId) !== SEPOLIA_CHAIN_ID) {
+  const current = await provider.getNetwork();
+  if (Number(current.chainId) === network.chainId) return provider;
+
+  try {
+    await ethereum.request({
+      method: "wallet_switchEthereumChain",
+      params: getSwitchChainParams(network),
+    });
+  } catch (err: any) {
+    if (err?.code !== UNRECOGNIZED_CHAIN) {
+      throw new Error(`Please switch MetaMask to ${network.name}`);
+    }
     try {
-      await (window as any).ethereum.request({
-        method: "wallet_switchEthereumChain",
-        params: [{ chainId: "0xaa36a7" }],
+      await ethereum.request({
+        method: "wallet_addEthereumChain",
+        params: getAddChainParams(network),
       });
     } catch {
-      throw new Error("Please switch MetaMask to Sepolia");
+      throw new Error(`Please add ${network.name} to MetaMask`);
     }
   }
 
-  return provider;
+  // A provider does not follow chain switches — start a fresh one
+  return new ethers.BrowserProvider(ethereum);
 }
 
-export function getAddressUrl(address: string) {
-  return `https://sepolia.etherscan.io/address/${address}`;
+/** Read-only provider for a network, no wallet required. */
+export function getReadProvider(
+  network: NetworkConfig = ACTIVE_NETWORK,
+): ethers.JsonRpcProvider {
+  return new ethers.JsonRpcProvider(network.rpcUrl, network.chainId, {
+    staticNetwork: true,
+  });
 }
 
-export async function signBundleAsLab(bundle: ClaimBundle) {
-  const provider = await getBrowserProvider();
-  const signer = await provider.getSigner();
+/**
+ * Sign a bundle as the issuing lab — with MetaMask, or with the
+ * given signer (e.g. a keystore wallet in the CLI).
+ */
+export async function signBundleAsLab(
+  bundle: ClaimBundle,
+  signer?: ethers.Signer,
+) {
+  signer ??= await (await getBrowserProvider()).getSigner();
 
-  const bundleHash = hashBundle(bundle);
   const labAddress = await signer.getAddress();
+  const signedAt = Date.now();
+  const bundleHash = hashBundle(bundle, { labAddress, signedAt });
   const signature = await signer.signMessage(ethers.getBytes(bundleHash));
 
-  return {
-    labAddress,
-    bundleHash,
-    signature,
-    signedAt: Date.now(),
-  };
+  return { labAddress, bundleHash, signature, signedAt };
+}
+
+/* ── ClaimManager ─────────────────────────────────────────── */
+
+export function getClaimManager(
+  runner: ethers.ContractRunner,
+  address: string = CLAIM_MANAGER_ADDRESS,
+): ethers.Contract {
+  return new ethers.Contract(address, CLAIM_MANAGER_ABI, runner);
+}
+
+/**
+ * The lab identity the proof was generated against — the
+ * `lab_pub_hash` public input of the bundle's circuit version.
+ */
+export function getLabPubHash(bundle: ClaimBundle): string {
+  const { circuit, circuitVersion } = bundle.proof;
+  const layout = isCircuitId(circuit)
+    ? publicInputLayout(circuit, circuitVersion)
+    : undefined;
+  const index = layout
+    ? layout.findIndex((spec) => spec.name === "lab_pub_hash")
+    : -1;
+
+  if (index < 0 || bundle.proof.publicInputs[index] === undefined) {
+    throw new Error(
+      `Cannot find lab_pub_hash for circuit "${circuit}" v${circuitVersion}`,
+    );
+  }
+  return toBytes32(bundle.proof.publicInputs[index]);
+}
+
+/**
+ * Submit a bundle's proof to ClaimManager. The contract derives the
+ * claim id from the sender and block, so it is read back from the
+ * ClaimSubmitted event rather than computed locally.
+ */
+export async function submitClaim(
+  contract: ethers.Contract,
+  bundle: ClaimBundle,
+): Promise<{ claimId: string; txHash: string }> {
+  const tx = await contract.submitClaim(
+    getProofBytes(bundle),
+    bundle.proof.publicInputs.map(toBytes32),
+    getLabPubHash(bundle),
+  );
+  const receipt: ethers.TransactionReceipt = await tx.wait();
+
+  for (const log of receipt.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "ClaimSubmitted") {
+      return { claimId: parsed.args.claimId, txHash: receipt.hash };
+    }
+  }
+  throw new Error("ClaimSubmitted event not found in transaction receipt");
+}
+
+export async function readClaimStatus(
+  contract: ethers.Contract,
+  claimId: string,
+): Promise<OnChainStatus> {
+  const claim = await contract.claims(claimId);
+  if (!claim.exists) return "Unknown";
+  return STATUSES[Number(claim.status)] ?? "Unknown";
 }
 
 export async function submitBundleOnChain(bundle: ClaimBundle) {
   if (!CLAIM_MANAGER_ADDRESS) {
-    throw new Error("NEXT_PUBLIC_CLAIM_MANAGER_ADDRESS is missing");
+    throw new Error(
+      `No ClaimManager deployed on ${ACTIVE_NETWORK.name} — set NEXT_PUBLIC_CLAIM_MANAGER_ADDRESS`,
+    );
   }
 
   if (!bundle.issuer) {
@@ -118,59 +194,47 @@ export async function submitBundleOnChain(bundle: ClaimBundle) {
   const provider = await getBrowserProvider();
   const signer = await provider.getSigner();
 
-  const contract = new ethers.Contract(
-    CLAIM_MANAGER_ADDRESS,
-    CLAIM_MANAGER_ABI,
-    signer,
+  const { claimId, txHash } = await submitClaim(
+    getClaimManager(signer),
+    bundle,
   );
 
-  const proofHex = proofToHex(bundle.proof.hash);
-  const publicInputs = bundle.proof.publicInputs.map(toBytes32);
-
-  const tx = await contract.submitClaim(
-    bundle.issuer.bundleHash,
-    bundle.issuer.signature,
-    proofHex,
-    publicInputs,
-  );
-
-  const receipt = await tx.wait();
-  const onChainClaimId = ethers.keccak256(bundle.issuer.bundleHash);
-
   return {
-    claimId: onChainClaimId,
-    txHash: receipt.hash,
+    claimId,
+    txHash,
     contractAddress: CLAIM_MANAGER_ADDRESS,
-    chainId: SEPOLIA_CHAIN_ID,
+    chainId: ACTIVE_NETWORK.chainId,
     submittedAt: Date.now(),
   };
 }
 
-export async function getClaimStatus(claimId: string): Promise<OnChainStatus> {
-  if (!CLAIM_MANAGER_ADDRESS) return "Unknown";
-
-  const provider = new ethers.JsonRpcProvider(SEPOLIA_RPC_URL);
-  const contract = new ethers.Contract(
-    CLAIM_MANAGER_ADDRESS,
-    CLAIM_MANAGER_ABI,
-    provider,
-  );
+/**
+ * Status of a submitted claim, read from the chain and contract it
+ * was submitted to (the active network's ClaimManager by default).
+ */
+export async function getClaimStatus(
+  claimId: string,
+  chainId: number = ACTIVE_NETWORK.chainId,
+  contractAddress?: string,
+): Promise<OnChainStatus> {
+  const network = getNetworkByChainId(chainId);
+  const address =
+    contractAddress ??
+    (network === ACTIVE_NETWORK
+      ? CLAIM_MANAGER_ADDRESS
+      : network?.contracts.claimManager);
+  if (!network || !address) return "Unknown";
 
   try {
-    const status = Number(await contract.getClaimStatus(claimId));
-    if (status === 0) return "Submitted";
-    if (status === 1) return "Approved";
-    if (status === 2) return "Rejected";
-    return "Unknown";
+    return await readClaimStatus(
+      getClaimManager(getReadProvider(network), address),
+      claimId,
+    );
   } catch {
     return "Unknown";
   }
 }
 
-export function getTxUrl(txHash: string) {
-  return `https://sepolia.etherscan.io/tx/${txHash}`;
-}
-
 export async function verifyBundleSignatureLocal(bundle: ClaimBundle): Promise<{
   valid: boolean;
   recoveredAddress?: string;
@@ -180,7 +244,10 @@ export async function verifyBundleSignatureLocal(bundle: ClaimBundle): Promise<{
   }
 
   try {
-    const expectedHash = hashBundle(bundle);
+    const expectedHash =
+      bundle.migratedFrom === "1.0.0"
+        ? hashLegacyBundle(bundle)
+        : hashBundle(bundle);
 
     if (expectedHash.toLowerCase() !== bundle.issuer.bundleHash.toLowerCase()) {
       return { valid: false };
@@ -200,21 +267,86 @@ export async function verifyBundleSignatureLocal(bundle: ClaimBundle): Promise<{
   }
 }
 
-export async function isLabRegisteredOnChain(
-  labAddress: string,
+/**
+ * Whether ClaimManager's registry on the active network trusts
+ * this lab identity. Throws when there is no ClaimManager or it
+ * cannot be read, like getNullifierClaim.
+ */
+export async function getLabTrusted(labPubHash: string): Promise<boolean> {
+  if (!CLAIM_MANAGER_ADDRESS) {
+    throw new Error(`No ClaimManager deployed on ${ACTIVE_NETWORK.name}`);
+  }
+  return getClaimManager(getReadProvider()).trustedLabs(toBytes32(labPubHash));
+}
+
+/** Whether ClaimManager's registry trusts this lab identity. */
+export async function isLabTrustedOnChain(
+  labPubHash: string,
 ): Promise<boolean> {
-  if (!CLAIM_MANAGER_ADDRESS) return false;
+  try {
+    return await getLabTrusted(labPubHash);
+  } catch {
+    return false;
+  }
+}
 
-  const provider = new ethers.JsonRpcProvider(SEPOLIA_RPC_URL);
-  const contract = new ethers.Contract(
-    CLAIM_MANAGER_ADDRESS,
-    CLAIM_MANAGER_ABI,
-    provider,
-  );
+/**
+ * The claim holding a nullifier on ClaimManager, or null when it
+ * is free. The contract reserves the last public input of every
+ * submitted proof and releases it when the claim is rejected.
+ */
+export async function readNullifierClaim(
+  contract: ethers.Contract,
+  nullifier: string,
+): Promise<string | null> {
+  const claimId: string = await contract.nullifierClaims(toBytes32(nullifier));
+  return claimId === ethers.ZeroHash ? null : claimId;
+}
+
+/**
+ * readNullifierClaim on the active network. Throws when there is
+ * no ClaimManager or it cannot be read, so callers can tell "not
+ * claimed" from "unknown".
+ */
+export async function getNullifierClaim(
+  nullifier: string,
+): Promise<string | null> {
+  if (!CLAIM_MANAGER_ADDRESS) {
+    throw new Error(`No ClaimManager deployed on ${ACTIVE_NETWORK.name}`);
+  }
+  return readNullifierClaim(getClaimManager(getReadProvider()), nullifier);
+}
+
+export type LabSignatureState =
+  | "unsigned"
+  | "invalid"
+  | "signed_unregistered"
+  | "signed_registered";
+
+/**
+ * Where a bundle's issuer signature stands, as insurers see it.
+ * `labAddress` is the recovered signer for invalid signatures.
+ */
+export async function checkLabSignature(
+  bundle: ClaimBundle,
+): Promise<{ state: LabSignatureState; labAddress: string }> {
+  if (!bundle.issuer) return { state: "unsigned", labAddress: "" };
+
+  const local = await verifyBundleSignatureLocal(bundle);
+  if (!local.valid) {
+    return { state: "invalid", labAddress: local.recoveredAddress ?? "" };
+  }
 
+  // The registry trusts the lab identity the proof was built against
+  let registered = false;
   try {
-    return await contract.isLabRegistered(labAddress);
+    registered = await isLabTrustedOnChain(getLabPubHash(bundle));
   } catch {
-    return false;
+    registered = false;
   }
+
+  return {
+    state: registered ? "signed_registered" : "signed_unregistered",
+    labAddress: bundle.issuer.labAddress,
+  };
 }
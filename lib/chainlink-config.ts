@@ -5,6 +5,9 @@
  *   - Sepolia (testnet) — for hackathon demo
  *   - Avalanche Fuji — alternative testnet
  *
+ * lib/networks.ts builds the app's network registry from this file,
+ * adding a local devnet (anvil / hardhat node) without Chainlink.
+ *
  * SETUP:
  *   1. Get LINK tokens from faucet: https://faucets.chain.link/
  *   2. Create Functions subscription: https://functions.chain.link/
@@ -16,7 +19,7 @@ export const CHAINLINK_CONFIG = {
   // Sepolia Testnet
   sepolia: {
     chainId: 11155111,
-    rpcUrl: "https://rpc.sepolia.org",
+    rpcUrl: "https://ethereum-sepolia-rpc.publicnode.com",
     functionsRouter: "0xb83E47C2bC239B3bf370bc41e1459A34b41238D0",
     donId: "0x66756e2d657468657265756d2d7365706f6c69612d3100000000000000000000",
     subscriptionId: 0, // Fill after creating subscription
@@ -44,13 +47,24 @@ export type ChainlinkNetwork = keyof typeof CHAINLINK_CONFIG;
  * Contract addresses (filled after deployment)
  */
 export const DEPLOYED_CONTRACTS = {
+  // The earlier ClaimManager on Sepolia predates the current ABI;
+  // until it is redeployed, set NEXT_PUBLIC_CLAIM_MANAGER_ADDRESS
   sepolia: {
     verifier: "", // Fill after nargo codegen + deploy
-    claimManager: "", // Fill after deploy
+    claimManager: "",
+    thresholdOracle: "", // Fill after deploy
   },
   fuji: {
     verifier: "",
     claimManager: "",
+    thresholdOracle: "",
+  },
+  // `npm run deploy:local` on a fresh anvil / hardhat node — the
+  // first three deployments of the default dev account land here
+  local: {
+    verifier: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+    claimManager: "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512",
+    thresholdOracle: "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0",
   },
 } as const;
 
@@ -0,0 +1,662 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Circuit Registry — Compiled Noir circuits and their public inputs
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Each claim type is proven by its own circuit (see CLAIM_TYPES in
+ * claim-engine). All circuits share the same private inputs — the
+ * full lab-signed report — but expose only the thresholds of the
+ * predicate they check — one threshold per single-sided predicate,
+ * a lower and an upper bound per band. Series circuits instead
+ * take a lab-signed list of dated readings of one biomarker, and
+ * also expose the reading count and spacing they require. Report
+ * circuits can reveal chosen values of the report: a flag and a
+ * value per field, the value proven equal to the signed one. Every
+ * circuit starts with the lab's identity and ends with the result
+ * flag, the claim's scope and its nullifier, so lab_pub_hash is
+ * always the first public input and the nullifier the last.
+ * Earlier releases laid their inputs out differently; each keeps
+ * its layout here, so their proofs still decode by the version
+ * their bundle names.
+ *
+ * Values enter circuits as whole numbers in each marker's unit
+ * times its scale (see BIOMARKERS), and so do the thresholds and
+ * disclosed values they publish; decoding divides the scale out.
+ * Derived markers such as eGFR are computed inside the circuit
+ * from the report, never supplied by the prover.
+ *
+ * A circuit's `rule` is the single source of truth for its predicate:
+ * the simulation path evaluates it directly, and the Noir source
+ * implements exactly the same logic (inclusive comparisons included).
+ *
+ * Sources live in `circuits/<id>/src/main.nr`; the compiled
+ * artifact is served from `/circuits/<id>.json`
+ * (npm run generate:circuits).
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import {
+  DEFAULT_CLAIM_RULE,
+  DIABETES_RULE,
+  CHOLESTEROL_RULE,
+  CARDIAC_RULE,
+  HYPERTENSION_STAGE2_RULE,
+  DIABETES_CONFIRMED_RULE,
+  HBA1C_RULE,
+  ANEMIA_RULE,
+  KIDNEY_RULE,
+  LIPID_RATIO_RULE,
+  fromCircuitUnits,
+  partKey,
+  sameRuleShape,
+  toCircuitUnits,
+  type Biomarker,
+  type BiomarkerValues,
+  type ClaimRule,
+  type ReportMarker,
+  type ThresholdPart,
+} from "@/lib/claim-rules";
+import { SEX_CODES, type PatientDetails } from "@/lib/derived-markers";
+import {
+  computeDataHash,
+  fieldToHex,
+  toField,
+  type FieldInput,
+} from "@/lib/pedersen";
+import { PINNED_VK_HASHES } from "@/lib/vk-hashes";
+
+/* ── Types ────────────────────────────────────────────────── */
+
+export type CircuitId =
+  | "medical_proof"
+  | "diabetes_proof"
+  | "cholesterol_proof"
+  | "cardiac_proof"
+  | "hypertension_proof"
+  | "diabetes_series_proof"
+  | "hba1c_proof"
+  | "anemia_proof"
+  | "kidney_proof"
+  | "lipid_ratio_proof";
+
+export type PublicInputSpec =
+  | {
+      name: string;
+      kind: "threshold";
+      marker: Biomarker;
+      part?: ThresholdPart; // Set for band bounds and series parameters
+    }
+  | {
+      name: "lab_pub_hash" | "data_hash" | "scope" | "nullifier";
+      kind: "field";
+    }
+  | {
+      name: "disclose" | "disclosed"; // Flag, then the value or 0
+      kind: "disclosure";
+      marker: ReportMarker;
+    }
+  | { name: "result"; kind: "result" };
+
+export interface CircuitDefinition {
+  id: CircuitId;
+  version: string;
+  artifactPath: string;
+  /** The predicate the circuit enforces, with default thresholds. */
+  rule: ClaimRule;
+  /** Public inputs in ABI order — the order of `publicInputs` in a proof. */
+  publicInputs: PublicInputSpec[];
+  /**
+   * Set for series circuits: data_hash then commits to dated
+   * readings of this biomarker (computeReadingsHash) instead of
+   * the report's values.
+   */
+  readings?: Biomarker;
+  /**
+   * Public inputs of earlier released versions, by version — their
+   * proofs are still decoded by the layout they were made with.
+   */
+  earlierPublicInputs?: Record<string, PublicInputSpec[]>;
+}
+
+/* ── Registry ─────────────────────────────────────────────── */
+
+/**
+ * Values of a signed report in Report order, each of which can
+ * be disclosed — REPORT_FIELDS in lib.nr.
+ */
+export const REPORT_FIELDS: ReportMarker[] = [
+  "sugar",
+  "cholesterol",
+  "bpSystolic",
+  "bpDiastolic",
+  "hemoglobin",
+  "creatinine",
+  "hba1c",
+  "hdl",
+];
+
+/** Their names in the Report struct. */
+const REPORT_STRUCT_FIELDS: Record<ReportMarker, string> = {
+  sugar: "sugar",
+  cholesterol: "cholesterol",
+  bpSystolic: "bp_systolic",
+  bpDiastolic: "bp_diastolic",
+  hemoglobin: "hemoglobin",
+  creatinine: "creatinine",
+  hba1c: "hba1c",
+  hdl: "hdl",
+};
+
+function disclosureInputs(
+  name: "disclose" | "disclosed",
+  fields: ReportMarker[] = REPORT_FIELDS,
+): PublicInputSpec[] {
+  return fields.map((marker) => ({ name, kind: "disclosure", marker }));
+}
+
+const CLAIM_PUBLIC_INPUTS: PublicInputSpec[] = [
+  { name: "result", kind: "result" },
+  { name: "scope", kind: "field" },
+  { name: "nullifier", kind: "field" },
+];
+
+/** Every circuit's first public input, ahead of its thresholds. */
+const LAB_PUBLIC_INPUT: PublicInputSpec = {
+  name: "lab_pub_hash",
+  kind: "field",
+};
+
+/** Commitment, disclosure and claim inputs of a report. */
+const REPORT_PUBLIC_INPUTS: PublicInputSpec[] = [
+  { name: "data_hash", kind: "field" },
+  ...disclosureInputs("disclose"), // Flags for every field first…
+  ...disclosureInputs("disclosed"), // …then the values, 0 when hidden
+  ...CLAIM_PUBLIC_INPUTS,
+];
+
+/** Series circuits commit to readings and disclose nothing. */
+const READINGS_PUBLIC_INPUTS: PublicInputSpec[] = [
+  { name: "data_hash", kind: "field" },
+  ...CLAIM_PUBLIC_INPUTS,
+];
+
+const FIELD_KEYS = {
+  lab_pub_hash: "labPubHash",
+  data_hash: "dataHash",
+  scope: "scope",
+  nullifier: "nullifier",
+} as const;
+
+/** Each circuit's thresholds, in ABI order. */
+const THRESHOLD_INPUTS: Record<CircuitId, PublicInputSpec[]> = {
+  medical_proof: [
+    { name: "threshold_sugar", kind: "threshold", marker: "sugar" },
+    {
+      name: "threshold_cholesterol",
+      kind: "threshold",
+      marker: "cholesterol",
+    },
+    { name: "threshold_bp", kind: "threshold", marker: "bpSystolic" },
+  ],
+  diabetes_proof: [
+    { name: "threshold_sugar", kind: "threshold", marker: "sugar" },
+  ],
+  cholesterol_proof: [
+    {
+      name: "threshold_cholesterol",
+      kind: "threshold",
+      marker: "cholesterol",
+    },
+  ],
+  cardiac_proof: [
+    { name: "threshold_bp", kind: "threshold", marker: "bpSystolic" },
+    {
+      name: "threshold_bp_diastolic",
+      kind: "threshold",
+      marker: "bpDiastolic",
+    },
+  ],
+  hypertension_proof: [
+    {
+      name: "threshold_bp_lower",
+      kind: "threshold",
+      marker: "bpSystolic",
+      part: "lower",
+    },
+    {
+      name: "threshold_bp_upper",
+      kind: "threshold",
+      marker: "bpSystolic",
+      part: "upper",
+    },
+  ],
+  diabetes_series_proof: [
+    { name: "threshold_sugar", kind: "threshold", marker: "sugar" },
+    {
+      name: "min_readings",
+      kind: "threshold",
+      marker: "sugar",
+      part: "readings",
+    },
+    {
+      name: "min_days_apart",
+      kind: "threshold",
+      marker: "sugar",
+      part: "days_apart",
+    },
+  ],
+  hba1c_proof: [
+    { name: "threshold_hba1c", kind: "threshold", marker: "hba1c" },
+  ],
+  anemia_proof: [
+    {
+      name: "threshold_hemoglobin",
+      kind: "threshold",
+      marker: "hemoglobin",
+    },
+  ],
+  kidney_proof: [
+    { name: "threshold_egfr", kind: "threshold", marker: "egfr" },
+  ],
+  lipid_ratio_proof: [
+    {
+      name: "threshold_ratio",
+      kind: "threshold",
+      marker: "cholesterolRatio",
+    },
+  ],
+};
+
+/* ── Earlier Releases ─────────────────────────────────────── */
+
+/*
+ * Until lab_pub_hash moved ahead of the thresholds, it followed
+ * them together with data_hash. These are what came after the
+ * thresholds in those releases, oldest first.
+ */
+
+const LAB_AND_DATA_INPUTS: PublicInputSpec[] = [
+  LAB_PUBLIC_INPUT,
+  { name: "data_hash", kind: "field" },
+];
+
+/** v1.0.0 — no scope or nullifier yet. */
+const UNSCOPED_INPUTS: PublicInputSpec[] = [
+  ...LAB_AND_DATA_INPUTS,
+  { name: "result", kind: "result" },
+];
+
+/** Scope and nullifier, but nothing disclosed. */
+const SCOPED_INPUTS: PublicInputSpec[] = [
+  ...LAB_AND_DATA_INPUTS,
+  ...CLAIM_PUBLIC_INPUTS,
+];
+
+/** The first disclosing reports had only sugar, cholesterol and BP. */
+const FIRST_REPORT_FIELDS: ReportMarker[] = REPORT_FIELDS.slice(0, 3);
+
+const FIRST_DISCLOSURE_INPUTS: PublicInputSpec[] = [
+  ...LAB_AND_DATA_INPUTS,
+  ...disclosureInputs("disclose", FIRST_REPORT_FIELDS),
+  ...disclosureInputs("disclosed", FIRST_REPORT_FIELDS),
+  ...CLAIM_PUBLIC_INPUTS,
+];
+
+const DISCLOSURE_INPUTS: PublicInputSpec[] = [
+  ...LAB_AND_DATA_INPUTS,
+  ...disclosureInputs("disclose"),
+  ...disclosureInputs("disclosed"),
+  ...CLAIM_PUBLIC_INPUTS,
+];
+
+/**
+ * Layouts of a report circuit before v1.4.0: v1.1.0 added the
+ * nullifier, v1.2.0 disclosure and v1.3.0 the other report fields.
+ */
+function reportReleases(
+  thresholds: PublicInputSpec[],
+): Record<string, PublicInputSpec[]> {
+  return {
+    "1.0.0": [...thresholds, ...UNSCOPED_INPUTS],
+    "1.1.0": [...thresholds, ...SCOPED_INPUTS],
+    "1.2.0": [...thresholds, ...FIRST_DISCLOSURE_INPUTS],
+    "1.3.0": [...thresholds, ...DISCLOSURE_INPUTS],
+  };
+}
+
+/** Report circuits added in v1.3.0 of the others. */
+function laterReportReleases(
+  thresholds: PublicInputSpec[],
+): Record<string, PublicInputSpec[]> {
+  return { "1.0.0": [...thresholds, ...DISCLOSURE_INPUTS] };
+}
+
+/* ── Circuits ─────────────────────────────────────────────── */
+
+export const CIRCUITS: Record<CircuitId, CircuitDefinition> = {
+  medical_proof: {
+    id: "medical_proof",
+    version: "1.4.0",
+    artifactPath: "/circuits/medical_proof.json",
+    rule: DEFAULT_CLAIM_RULE,
+    publicInputs: [
+      LAB_PUBLIC_INPUT,
+      ...THRESHOLD_INPUTS.medical_proof,
+      ...REPORT_PUBLIC_INPUTS,
+    ],
+    earlierPublicInputs: reportReleases(THRESHOLD_INPUTS.medical_proof),
+  },
+  diabetes_proof: {
+    id: "diabetes_proof",
+    version: "1.4.0",
+    artifactPath: "/circuits/diabetes_proof.json",
+    rule: DIABETES_RULE,
+    publicInputs: [
+      LAB_PUBLIC_INPUT,
+      ...THRESHOLD_INPUTS.diabetes_proof,
+      ...REPORT_PUBLIC_INPUTS,
+    ],
+    earlierPublicInputs: reportReleases(THRESHOLD_INPUTS.diabetes_proof),
+  },
+  cholesterol_proof: {
+    id: "cholesterol_proof",
+    version: "1.4.0",
+    artifactPath: "/circuits/cholesterol_proof.json",
+    rule: CHOLESTEROL_RULE,
+    publicInputs: [
+      LAB_PUBLIC_INPUT,
+      ...THRESHOLD_INPUTS.cholesterol_proof,
+      ...REPORT_PUBLIC_INPUTS,
+    ],
+    earlierPublicInputs: reportReleases(THRESHOLD_INPUTS.cholesterol_proof),
+  },
+  cardiac_proof: {
+    id: "cardiac_proof",
+    version: "1.4.0",
+    artifactPath: "/circuits/cardiac_proof.json",
+    rule: CARDIAC_RULE,
+    publicInputs: [
+      LAB_PUBLIC_INPUT,
+      ...THRESHOLD_INPUTS.cardiac_proof,
+      ...REPORT_PUBLIC_INPUTS,
+    ],
+    earlierPublicInputs: {
+      // The diastolic threshold came with v1.3.0
+      ...reportReleases(THRESHOLD_INPUTS.cardiac_proof.slice(0, 1)),
+      "1.3.0": [...THRESHOLD_INPUTS.cardiac_proof, ...DISCLOSURE_INPUTS],
+    },
+  },
+  hypertension_proof: {
+    id: "hypertension_proof",
+    version: "1.4.0",
+    artifactPath: "/circuits/hypertension_proof.json",
+    rule: HYPERTENSION_STAGE2_RULE,
+    publicInputs: [
+      LAB_PUBLIC_INPUT,
+      ...THRESHOLD_INPUTS.hypertension_proof,
+      ...REPORT_PUBLIC_INPUTS,
+    ],
+    earlierPublicInputs: reportReleases(THRESHOLD_INPUTS.hypertension_proof),
+  },
+  diabetes_series_proof: {
+    id: "diabetes_series_proof",
+    version: "1.2.0",
+    artifactPath: "/circuits/diabetes_series_proof.json",
+    rule: DIABETES_CONFIRMED_RULE,
+    readings: "sugar",
+    publicInputs: [
+      LAB_PUBLIC_INPUT,
+      ...THRESHOLD_INPUTS.diabetes_series_proof,
+      ...READINGS_PUBLIC_INPUTS,
+    ],
+    earlierPublicInputs: {
+      "1.0.0": [...THRESHOLD_INPUTS.diabetes_series_proof, ...UNSCOPED_INPUTS],
+      "1.1.0": [...THRESHOLD_INPUTS.diabetes_series_proof, ...SCOPED_INPUTS],
+    },
+  },
+  hba1c_proof: {
+    id: "hba1c_proof",
+    version: "1.1.0",
+    artifactPath: "/circuits/hba1c_proof.json",
+    rule: HBA1C_RULE,
+    publicInputs: [
+      LAB_PUBLIC_INPUT,
+      ...THRESHOLD_INPUTS.hba1c_proof,
+      ...REPORT_PUBLIC_INPUTS,
+    ],
+    earlierPublicInputs: laterReportReleases(THRESHOLD_INPUTS.hba1c_proof),
+  },
+  anemia_proof: {
+    id: "anemia_proof",
+    version: "1.1.0",
+    artifactPath: "/circuits/anemia_proof.json",
+    rule: ANEMIA_RULE,
+    publicInputs: [
+      LAB_PUBLIC_INPUT,
+      ...THRESHOLD_INPUTS.anemia_proof,
+      ...REPORT_PUBLIC_INPUTS,
+    ],
+    earlierPublicInputs: laterReportReleases(THRESHOLD_INPUTS.anemia_proof),
+  },
+  kidney_proof: {
+    id: "kidney_proof",
+    version: "1.1.0",
+    artifactPath: "/circuits/kidney_proof.json",
+    rule: KIDNEY_RULE,
+    publicInputs: [
+      LAB_PUBLIC_INPUT,
+      ...THRESHOLD_INPUTS.kidney_proof,
+      ...REPORT_PUBLIC_INPUTS,
+    ],
+    earlierPublicInputs: laterReportReleases(THRESHOLD_INPUTS.kidney_proof),
+  },
+  lipid_ratio_proof: {
+    id: "lipid_ratio_proof",
+    version: "1.1.0",
+    artifactPath: "/circuits/lipid_ratio_proof.json",
+    rule: LIPID_RATIO_RULE,
+    publicInputs: [
+      LAB_PUBLIC_INPUT,
+      ...THRESHOLD_INPUTS.lipid_ratio_proof,
+      ...REPORT_PUBLIC_INPUTS,
+    ],
+    earlierPublicInputs: laterReportReleases(
+      THRESHOLD_INPUTS.lipid_ratio_proof,
+    ),
+  },
+};
+
+export function isCircuitId(value: string): value is CircuitId {
+  return value in CIRCUITS;
+}
+
+/**
+ * Fingerprint of the verification key trusted for a circuit
+ * version, or undefined when that version was never pinned.
+ */
+export function getPinnedVkHash(
+  circuitId: CircuitId,
+  version: string,
+): string | undefined {
+  return PINNED_VK_HASHES[circuitId]?.[version];
+}
+
+/**
+ * Whether any circuit version has a pinned key. Until one does,
+ * every proof the app makes is simulated (see lib/vk-hashes).
+ */
+export function hasPinnedVkHashes(): boolean {
+  return Object.values(PINNED_VK_HASHES).some(
+    (pins) => !!pins && Object.keys(pins).length > 0,
+  );
+}
+
+/* ── Private Inputs ───────────────────────────────────────── */
+
+/**
+ * The `report` input of report circuits — the Report struct in
+ * lib.nr, each value in circuit units and 0 when the report does
+ * not have it, then the lab's salt.
+ */
+export function toReportInput(
+  values: BiomarkerValues,
+  patient: PatientDetails,
+  salt: FieldInput,
+): Record<string, string> {
+  const input: Record<string, string> = {};
+  for (const marker of REPORT_FIELDS) {
+    const value = values[marker];
+    input[REPORT_STRUCT_FIELDS[marker]] = String(
+      value === undefined ? 0 : toCircuitUnits(marker, value),
+    );
+  }
+  input.age = String(patient.age ?? 0);
+  input.sex = String(patient.sex ? SEX_CODES[patient.sex] : 0);
+  input.salt = fieldToHex(toField(salt));
+  return input;
+}
+
+/** Commitment to a report — mirrors `data_commitment` in lib.nr. */
+export function computeReportHash(
+  values: BiomarkerValues,
+  patient: PatientDetails,
+  salt: FieldInput,
+): Promise<string> {
+  return computeDataHash(Object.values(toReportInput(values, patient, salt)));
+}
+
+/* ── Public Inputs ────────────────────────────────────────── */
+
+type ThresholdSpec = Extract<PublicInputSpec, { kind: "threshold" }>;
+
+/** Where a threshold input appears in collectThresholds' output. */
+export function thresholdKey(spec: ThresholdSpec): string {
+  return spec.part ? partKey(spec.marker, spec.part) : spec.marker;
+}
+
+/** Reading counts and spacing are plain numbers, not marker values. */
+function inMarkerUnits(spec: ThresholdSpec): boolean {
+  return spec.part !== "readings" && spec.part !== "days_apart";
+}
+
+/** A rule's threshold as the circuit input `spec` takes it. */
+export function encodeThreshold(spec: ThresholdSpec, threshold: number) {
+  return inMarkerUnits(spec)
+    ? toCircuitUnits(spec.marker, threshold)
+    : threshold;
+}
+
+/** A proof's public inputs, read back by the circuit's ABI. */
+export interface DecodedPublicInputs {
+  circuit: CircuitId;
+  version: string;
+  thresholds: Record<string, number>; // Keyed like collectThresholds
+  labPubHash: string;
+  dataHash: string;
+  result: boolean;
+  scope: string; // "" in releases before nullifiers
+  nullifier: string; // One claim per report and scope
+  disclosed: BiomarkerValues; // Only the values flagged for disclosure
+}
+
+/**
+ * The public inputs of a released circuit version, in ABI order,
+ * or undefined when that version was never released.
+ */
+export function publicInputLayout(
+  circuitId: CircuitId,
+  version: string,
+): PublicInputSpec[] | undefined {
+  const circuit = CIRCUITS[circuitId];
+  return version === circuit.version
+    ? circuit.publicInputs
+    : circuit.earlierPublicInputs?.[version];
+}
+
+/**
+ * Decode public inputs by the layout of the given circuit version.
+ * Throws when the version is unknown or the input count does not
+ * match its ABI — the proof then cannot be interpreted at all.
+ */
+export function decodePublicInputs(
+  circuitId: CircuitId,
+  publicInputs: string[],
+  version: string = CIRCUITS[circuitId].version,
+): DecodedPublicInputs {
+  const circuit = CIRCUITS[circuitId];
+  const layout = publicInputLayout(circuitId, version);
+  if (!layout) {
+    const released = [
+      ...Object.keys(circuit.earlierPublicInputs ?? {}),
+      circuit.version,
+    ];
+    throw new Error(
+      `No public input layout for ${circuitId} v${version} (released: ${released.map((v) => `v${v}`).join(", ")}).`,
+    );
+  }
+  if (publicInputs.length !== layout.length) {
+    throw new Error(
+      `${circuitId} v${version} has ${layout.length} public inputs, proof has ${publicInputs.length}.`,
+    );
+  }
+
+  const decoded: DecodedPublicInputs = {
+    circuit: circuitId,
+    version,
+    thresholds: {},
+    labPubHash: "",
+    dataHash: "",
+    result: false,
+    scope: "",
+    nullifier: "",
+    disclosed: {},
+  };
+  const flagged = new Set<Biomarker>();
+  layout.forEach((spec, i) => {
+    let value: bigint;
+    try {
+      value = BigInt(publicInputs[i]);
+    } catch {
+      throw new Error(
+        `Public input ${spec.name} is not a field element: "${publicInputs[i]}".`,
+      );
+    }
+    switch (spec.kind) {
+      case "threshold":
+        decoded.thresholds[thresholdKey(spec)] = inMarkerUnits(spec)
+          ? fromCircuitUnits(spec.marker, Number(value))
+          : Number(value);
+        break;
+      case "field":
+        decoded[FIELD_KEYS[spec.name]] = fieldToHex(value);
+        break;
+      case "disclosure":
+        // Flags precede values, so a value's flag is already known
+        if (spec.name === "disclose") {
+          if (value === BigInt(1)) flagged.add(spec.marker);
+        } else if (flagged.has(spec.marker)) {
+          decoded.disclosed[spec.marker] = fromCircuitUnits(
+            spec.marker,
+            Number(value),
+          );
+        }
+        break;
+      case "result":
+        decoded.result = value === BigInt(1);
+        break;
+    }
+  });
+  return decoded;
+}
+
+/**
+ * A rule can be proven by a circuit only if it has the circuit's
+ * shape — same markers, comparators, bands, series and combinators.
+ * Thresholds and bounds may differ since they are public inputs.
+ */
+export function ruleMatchesCircuit(
+  rule: ClaimRule,
+  circuitId: CircuitId,
+): boolean {
+  return sameRuleShape(rule.root, CIRCUITS[circuitId].rule.root);
+}
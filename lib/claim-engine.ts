@@ -11,11 +11,48 @@
  *  - Public inputs (thresholds, not actual values)
  *  - Claim metadata (policy, type, timestamps)
  *
- * It NEVER contains private medical values.
+ * It NEVER contains private medical values. The only values it
+ * carries are those the patient chose to disclose, which the
+ * proof binds to the lab-signed report.
+ *
+ * Bundles follow CLAIM_BUNDLE_SCHEMA (lib/bundle-schema) and are
+ * hashed as RFC 8785 canonical JSON, so every consumer computes
+ * the same hash regardless of key order.
  * ═══════════════════════════════════════════════════════════════
  */
 
+import { keccak256, toUtf8Bytes, toUtf8String } from "ethers";
 import type { ZKProof } from "@/hooks/use-zkp";
+import {
+  collectThresholds,
+  type BiomarkerValues,
+  type ClaimRule,
+} from "@/lib/claim-rules";
+import {
+  CIRCUITS,
+  decodePublicInputs,
+  type CircuitId,
+} from "@/lib/circuits";
+import type { OracleSnapshot } from "@/lib/threshold-oracle";
+import {
+  isSimulatedVerificationKey,
+  type CircuitMetrics,
+  type ProofMode,
+} from "@/lib/zkp-engine";
+import { canonicalize } from "@/lib/canonical-json";
+import { fieldsEqual } from "@/lib/pedersen";
+import {
+  decodeLegacyProof,
+  decodeProof,
+  fromBase64Url,
+  toBase64Url,
+} from "@/lib/proof-codec";
+import {
+  BUNDLE_VERSION,
+  migrateBundle,
+  validateSchema,
+  type BundleFieldError,
+} from "@/lib/bundle-schema";
 
 /* ── Types ────────────────────────────────────────────────── */
 
@@ -26,43 +63,127 @@ export interface ClaimDetails {
   notes: string;
 }
 
+/** The claim a proof is made for — see nullifierScope. */
+export type ClaimScope = Pick<
+  ClaimDetails,
+  "claimType" | "insurerName" | "policyNumber"
+>;
+
 export type ClaimType =
   | "diabetes_diagnosis"
   | "cholesterol_screening"
   | "cardiac_assessment"
   | "general_health"
-  | "prescription_eligibility";
+  | "prescription_eligibility"
+  | "hypertension_treatment"
+  | "diabetes_confirmation"
+  | "diabetes_hba1c"
+  | "anemia_treatment"
+  | "kidney_disease"
+  | "cardiovascular_risk";
 
+/**
+ * Each claim type is bound to the circuit that proves it. The
+ * eligibility rule comes from the circuit — see getClaimRule.
+ */
 export const CLAIM_TYPES: Record<
   ClaimType,
-  { label: string; description: string }
+  { label: string; description: string; circuit: CircuitId }
 > = {
   diabetes_diagnosis: {
     label: "Diabetes Diagnosis Verification",
     description:
       "Proves blood sugar exceeds diagnostic threshold without revealing exact value",
+    circuit: "diabetes_proof",
   },
   cholesterol_screening: {
     label: "Cholesterol Screening",
     description: "Proves cholesterol is within or outside policy range",
+    circuit: "cholesterol_proof",
   },
   cardiac_assessment: {
     label: "Cardiac Risk Assessment",
     description:
-      "Proves blood pressure and related markers meet assessment criteria",
+      "Proves systolic or diastolic blood pressure is in the hypertensive range",
+    circuit: "cardiac_proof",
   },
   general_health: {
     label: "General Health Verification",
     description: "Proves multiple health markers satisfy policy requirements",
+    circuit: "medical_proof",
   },
   prescription_eligibility: {
     label: "Prescription Eligibility",
     description: "Proves medical conditions warrant specific prescriptions",
+    circuit: "medical_proof",
+  },
+  hypertension_treatment: {
+    label: "Hypertension Treatment",
+    description:
+      "Proves systolic blood pressure is in the stage 2 band, below crisis level",
+    circuit: "hypertension_proof",
+  },
+  diabetes_confirmation: {
+    label: "Confirmed Diabetes Diagnosis",
+    description:
+      "Proves repeat blood sugar readings on different days are diabetic without revealing values or dates",
+    circuit: "diabetes_series_proof",
+  },
+  diabetes_hba1c: {
+    label: "Diabetes Diagnosis (HbA1c)",
+    description:
+      "Proves HbA1c is in the diabetic range without revealing the exact value",
+    circuit: "hba1c_proof",
+  },
+  anemia_treatment: {
+    label: "Anemia Treatment",
+    description: "Proves hemoglobin is below the anemia threshold",
+    circuit: "anemia_proof",
+  },
+  kidney_disease: {
+    label: "Chronic Kidney Disease",
+    description:
+      "Proves the eGFR computed from creatinine, age and sex is reduced, revealing none of them",
+    circuit: "kidney_proof",
+  },
+  cardiovascular_risk: {
+    label: "Cardiovascular Risk Screening",
+    description:
+      "Proves the total to HDL cholesterol ratio is in the high-risk range",
+    circuit: "lipid_ratio_proof",
   },
 };
 
+export function getClaimRule(type: ClaimType): ClaimRule {
+  return CIRCUITS[CLAIM_TYPES[type].circuit].rule;
+}
+
+/**
+ * The scope a report is claimed under. The circuit publishes one
+ * nullifier per report and scope, so a report backs one claim of
+ * each type per policy: a second diabetes claim on the same policy
+ * reuses the nullifier, one under another policy or insurer does
+ * not. Keccak-256 of the claim type, insurer and policy number —
+ * trimmed and case-folded, so spellings of one policy share a
+ * scope — with the top byte cleared to fit a field element.
+ */
+export function nullifierScope(claim: ClaimScope): string {
+  const context = [claim.claimType, claim.insurerName, claim.policyNumber];
+  const key = JSON.stringify(
+    context.map((part) => part.trim().replace(/\s+/g, " ").toLowerCase()),
+  );
+  return "0x00" + keccak256(toUtf8Bytes(`zkhealth:claim:${key}`)).slice(4);
+}
+
+/** The claim a bundle is made for, from its policy. */
+export function claimScopeOf(bundle: ClaimBundle): ClaimScope {
+  const { claimType, insurerName, number } = bundle.policy;
+  return { claimType, insurerName, policyNumber: number };
+}
+
 export interface ClaimBundle {
-  version: "1.0.0";
+  version: typeof BUNDLE_VERSION;
+  migratedFrom?: "1.0.0"; // Issuer signed the v1 hash — see hashLegacyBundle
   claimId: string;
 
   policy: {
@@ -77,14 +198,20 @@ export interface ClaimBundle {
     hash: string;
     publicInputs: string[];
     verificationKey: string;
+    mode: ProofMode; // Recorded by the lab; "simulated" proves nothing
     circuit: string;
-    constraintCount: number;
+    circuitVersion: string; // Selects the public input layout
+    circuitMetrics?: CircuitMetrics; // From the artifact; absent if simulated
     provingTimeMs: number;
   };
 
   publicParams: {
     thresholds: Record<string, number>;
+    rule: ClaimRule;
     labIdentifier: string;
+    oracle?: OracleSnapshot; // Oracle update the thresholds were read from
+    nullifier?: string; // One claim per report and scope — see nullifierScope
+    disclosed?: BiomarkerValues; // Values revealed by the proof, if any
   };
 
   createdAt: number;
@@ -107,6 +234,12 @@ export interface ClaimBundle {
   };
 }
 
+/** The part of the issuer record that is itself signed. */
+export type IssuerStamp = Pick<
+  NonNullable<ClaimBundle["issuer"]>,
+  "labAddress" | "signedAt"
+>;
+
 export type ClaimStatus =
   | "draft"
   | "submitted"
@@ -137,11 +270,28 @@ export function buildClaimBundle(
   details: ClaimDetails,
   labName: string,
 ): ClaimBundle {
+  const binding = CLAIM_TYPES[details.claimType];
+  if (binding.circuit !== proof.circuit) {
+    throw new Error(
+      `Claim type "${details.claimType}" requires circuit "${binding.circuit}", but the proof was generated with "${proof.circuit}".`,
+    );
+  }
+
+  const { nullifier, scope, disclosed } = decodePublicInputs(
+    binding.circuit,
+    proof.publicInputs,
+    proof.circuitVersion,
+  );
+  if (!fieldsEqual(scope, nullifierScope(details))) {
+    throw new Error(
+      `The proof was not generated for a ${details.claimType} claim on policy "${details.policyNumber}" at "${details.insurerName}".`,
+    );
+  }
   const now = Date.now();
   const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000;
 
   return {
-    version: "1.0.0",
+    version: BUNDLE_VERSION,
     claimId: generateClaimId(),
     policy: {
       number: details.policyNumber,
@@ -154,16 +304,19 @@ export function buildClaimBundle(
       hash: proof.proofHash,
       publicInputs: proof.publicInputs,
       verificationKey: proof.verificationKey,
+      mode: proof.mode,
       circuit: proof.circuit,
-      constraintCount: proof.constraintCount,
+      circuitVersion: proof.circuitVersion,
+      ...(proof.circuitMetrics && { circuitMetrics: proof.circuitMetrics }),
       provingTimeMs: proof.provingTimeMs,
     },
     publicParams: {
-      thresholds: {
-        sugar: 126,
-        cholesterol: 200,
-      },
+      thresholds: collectThresholds(proof.rule),
+      rule: proof.rule,
       labIdentifier: labName,
+      ...(proof.oracle && { oracle: proof.oracle }),
+      nullifier,
+      ...(Object.keys(disclosed).length > 0 && { disclosed }),
     },
     createdAt: now,
     expiresAt: now + THIRTY_DAYS_MS,
@@ -171,52 +324,82 @@ export function buildClaimBundle(
   };
 }
 
+/**
+ * Keccak-256 of the canonical bundle, as signed by the issuing lab.
+ * It covers everything except the signature itself and the on-chain
+ * receipt added after signing — including who signed and when.
+ */
+export function hashBundle(
+  bundle: ClaimBundle,
+  signer: IssuerStamp | undefined = bundle.issuer,
+): string {
+  const content: Record<string, unknown> = { ...bundle };
+  delete content.issuer;
+  delete content.onChain;
+  if (signer) {
+    content.issuer = {
+      labAddress: signer.labAddress,
+      signedAt: signer.signedAt,
+    };
+  }
+  return keccak256(toUtf8Bytes(canonicalize(content)));
+}
+
 export function serializeBundle(bundle: ClaimBundle): string {
   return JSON.stringify(bundle, null, 2);
 }
 
+/** The bundle as a `data` parameter for share links and QR codes. */
+export function encodeBundleForUrl(bundle: ClaimBundle): string {
+  return toBase64Url(toUtf8Bytes(JSON.stringify(bundle)));
+}
+
+/** Bundle JSON from a `data` parameter; pass it to deserializeBundle. */
+export function decodeBundleFromUrl(data: string): string {
+  return toUtf8String(fromBase64Url(data));
+}
+
+/**
+ * Parse a bundle and migrate it to the current version. Returns
+ * null only for input that is not a JSON object; everything else
+ * is left to validateBundle so problems are reported per field.
+ */
 export function deserializeBundle(raw: string): ClaimBundle | null {
   try {
-    const parsed = JSON.parse(raw);
-    if (parsed.version && parsed.claimId && parsed.proof?.hash) {
-      return parsed as ClaimBundle;
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return null;
     }
-    return null;
+    return migrateBundle(
+      parsed as Record<string, unknown>,
+    ) as unknown as ClaimBundle;
   } catch {
     return null;
   }
 }
 
-export function validateBundle(bundle: ClaimBundle): {
+export function validateBundle(bundle: unknown): {
   valid: boolean;
-  errors: string[];
+  errors: BundleFieldError[];
 } {
-  const errors: string[] = [];
-
-  if (!bundle.version) errors.push("Missing version");
-  if (!bundle.claimId) errors.push("Missing claim ID");
-  if (!bundle.proof?.hash) errors.push("Missing proof hash");
-  if (!bundle.proof?.verificationKey) errors.push("Missing verification key");
-  if (!bundle.proof?.publicInputs?.length) errors.push("Missing public inputs");
-  if (!bundle.policy?.number) errors.push("Missing policy number");
-  if (!bundle.policy?.claimType) errors.push("Missing claim type");
-
-  if (bundle.expiresAt && bundle.expiresAt < Date.now()) {
-    errors.push("Claim bundle has expired");
-  }
+  const errors = validateSchema(bundle);
 
-  if (bundle.issuer) {
-    if (!bundle.issuer.labAddress) errors.push("Missing issuer lab address");
-    if (!bundle.issuer.bundleHash) errors.push("Missing issuer bundle hash");
-    if (!bundle.issuer.signature) errors.push("Missing issuer signature");
+  const partial = bundle as Partial<ClaimBundle> | null;
+  const expiresAt = partial?.expiresAt;
+  if (typeof expiresAt === "number" && expiresAt < Date.now()) {
+    errors.push({ path: "/expiresAt", message: "claim bundle has expired" });
   }
 
-  if (bundle.onChain) {
-    if (!bundle.onChain.claimId) errors.push("Missing on-chain claim ID");
-    if (!bundle.onChain.txHash) errors.push("Missing on-chain tx hash");
-    if (!bundle.onChain.contractAddress) {
-      errors.push("Missing on-chain contract address");
-    }
+  // Real proofs come from an artifact, so its metrics must be known
+  if (
+    partial?.proof?.mode === "real" &&
+    !partial.proof.circuitMetrics &&
+    partial.migratedFrom === undefined
+  ) {
+    errors.push({
+      path: "/proof/circuitMetrics",
+      message: "is required for real proofs",
+    });
   }
 
   return { valid: errors.length === 0, errors };
@@ -226,6 +409,24 @@ export function isExpired(bundle: ClaimBundle): boolean {
   return bundle.expiresAt < Date.now();
 }
 
+/**
+ * Whether the bundle's proof is simulated. The VK marker counts as
+ * much as the recorded mode, so relabelling a bundle does not help.
+ */
+export function isSimulated(bundle: ClaimBundle): boolean {
+  return (
+    bundle.proof.mode === "simulated" ||
+    isSimulatedVerificationKey(bundle.proof.verificationKey)
+  );
+}
+
+/** The raw proof bytes the bundle carries, for verifiers. */
+export function getProofBytes(bundle: ClaimBundle): Uint8Array {
+  return bundle.migratedFrom === "1.0.0"
+    ? decodeLegacyProof(bundle.proof.hash)
+    : decodeProof(bundle.proof.hash);
+}
+
 export function getExpiryDays(bundle: ClaimBundle): number {
   const remaining = bundle.expiresAt - Date.now();
   return Math.max(0, Math.ceil(remaining / (24 * 60 * 60 * 1000)));
@@ -0,0 +1,798 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Claim Rules — Declarative Biomarker Eligibility Policies
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * A claim rule is a small expression tree:
+ *
+ *   predicate  → one biomarker compared against a threshold
+ *   range      → one biomarker inside a band, each bound inclusive
+ *                or exclusive (e.g. systolic 140–179 mmHg)
+ *   series     → at least K dated readings of one biomarker pass a
+ *                threshold, each D or more days after the last
+ *   all        → every child rule must pass          (AND)
+ *   any        → at least one child rule must pass   (OR)
+ *   at_least   → at least N of the M children pass   (N-of-M)
+ *
+ * The rule is the single description of WHEN a patient qualifies.
+ * Eligibility is computed from it, and the thresholds it declares
+ * become the public parameters of the claim bundle — so the
+ * insurer can see exactly which policy rule a proof was built for.
+ *
+ * Values and thresholds are in each marker's unit (BIOMARKERS);
+ * circuits take them scaled to whole numbers. Predicates may name
+ * derived markers such as eGFR, which the circuits compute from
+ * the signed report (see lib/derived-markers).
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+/* ── Types ────────────────────────────────────────────────── */
+
+/** Values a lab measures and signs. */
+export type ReportMarker =
+  | "sugar"
+  | "cholesterol"
+  | "bpSystolic"
+  | "bpDiastolic"
+  | "hemoglobin"
+  | "creatinine"
+  | "hba1c"
+  | "hdl";
+
+/** Values computed from the signed ones — see lib/derived-markers. */
+export type DerivedMarker = "egfr" | "cholesterolRatio";
+
+export type Biomarker = ReportMarker | DerivedMarker;
+
+export type Comparator = "gt" | "gte" | "lt" | "lte";
+
+export interface ThresholdPredicate {
+  type: "predicate";
+  marker: Biomarker;
+  comparator: Comparator;
+  threshold: number;
+  unit: string;
+  condition: string; // e.g. "Diabetic" — shown when the predicate passes
+}
+
+export interface RangeBound {
+  threshold: number;
+  inclusive: boolean;
+}
+
+export interface RangePredicate {
+  type: "range";
+  marker: Biomarker;
+  lower: RangeBound;
+  upper: RangeBound;
+  unit: string;
+  condition: string;
+}
+
+/**
+ * A chronic condition confirmed by repeat readings, e.g. two
+ * fasting glucose results ≥ 126 mg/dL on different days.
+ */
+export interface SeriesPredicate {
+  type: "series";
+  marker: Biomarker;
+  comparator: Comparator;
+  threshold: number;
+  minReadings: number; // K readings must pass…
+  minDaysApart: number; // …each at least D days after the last counted
+  unit: string;
+  condition: string;
+}
+
+export type BiomarkerPredicate =
+  | ThresholdPredicate
+  | RangePredicate
+  | SeriesPredicate;
+
+export type RuleNode =
+  | BiomarkerPredicate
+  | { type: "all"; rules: RuleNode[] }
+  | { type: "any"; rules: RuleNode[] }
+  | { type: "at_least"; count: number; rules: RuleNode[] };
+
+export interface ClaimRule {
+  id: string;
+  version: string;
+  description: string;
+  root: RuleNode;
+}
+
+export type BiomarkerValues = Partial<Record<Biomarker, number>>;
+
+/** A dated reading; `day` counts whole days since 1970-01-01 UTC. */
+export interface DatedReading {
+  value: number;
+  day: number;
+}
+
+export type BiomarkerSeries = Partial<Record<Biomarker, DatedReading[]>>;
+
+/** Names the circuit parameters of bands and series. */
+export type ThresholdPart = "lower" | "upper" | "readings" | "days_apart";
+
+export interface PredicateOutcome {
+  predicate: BiomarkerPredicate;
+  value: number | null; // For a series, the readings that counted
+  passed: boolean;
+  description: string;
+}
+
+export interface RuleEvaluation {
+  passed: boolean;
+  outcomes: PredicateOutcome[];
+}
+
+/* ── Metadata ─────────────────────────────────────────────── */
+
+export interface BiomarkerInfo {
+  label: string;
+  unit: string;
+  /**
+   * Circuits take whole numbers: a value enters them multiplied
+   * by its scale, so hemoglobin 14.2 g/dL is 142.
+   */
+  scale: number;
+  derived?: boolean; // Computed from other values, never signed
+}
+
+export const BIOMARKERS: Record<Biomarker, BiomarkerInfo> = {
+  sugar: { label: "Blood Sugar", unit: "mg/dL", scale: 1 },
+  cholesterol: { label: "Cholesterol", unit: "mg/dL", scale: 1 },
+  bpSystolic: { label: "BP Systolic", unit: "mmHg", scale: 1 },
+  bpDiastolic: { label: "BP Diastolic", unit: "mmHg", scale: 1 },
+  hemoglobin: { label: "Hemoglobin", unit: "g/dL", scale: 10 },
+  creatinine: { label: "Creatinine", unit: "mg/dL", scale: 100 },
+  hba1c: { label: "HbA1c", unit: "%", scale: 10 },
+  hdl: { label: "HDL Cholesterol", unit: "mg/dL", scale: 1 },
+  egfr: { label: "eGFR", unit: "mL/min/1.73m²", scale: 1, derived: true },
+  cholesterolRatio: {
+    label: "Cholesterol Ratio",
+    unit: "total/HDL",
+    scale: 10,
+    derived: true,
+  },
+};
+
+/**
+ * A value in the whole units circuits take. Throws when the value
+ * is more precise than the circuit, which would otherwise round
+ * it across a threshold.
+ */
+export function toCircuitUnits(marker: Biomarker, value: number): number {
+  const { label, unit, scale } = BIOMARKERS[marker];
+  const units = Math.round(value * scale);
+  if (units < 0 || Math.abs(units - value * scale) > 1e-6) {
+    throw new Error(
+      `${label} must be a non-negative multiple of ${1 / scale} ${unit}, got ${value}.`,
+    );
+  }
+  return units;
+}
+
+export function fromCircuitUnits(marker: Biomarker, units: number): number {
+  return units / BIOMARKERS[marker].scale;
+}
+
+const COMPARATOR_SYMBOLS: Record<Comparator, string> = {
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+};
+
+const NEGATED_SYMBOLS: Record<Comparator, string> = {
+  gt: "≤",
+  gte: "<",
+  lt: "≥",
+  lte: ">",
+};
+
+/* ── Default Policy ───────────────────────────────────────── */
+
+/**
+ * Patient qualifies if ANY condition meets its threshold:
+ *
+ *   sugar ≥ 126       → Diabetic range
+ *   cholesterol ≥ 200 → High cholesterol
+ *   bp_systolic ≥ 140 → Hypertension
+ */
+export const DEFAULT_CLAIM_RULE: ClaimRule = {
+  id: "general_any_marker",
+  version: "1.0.0",
+  description: "At least one biomarker is in a qualifying range",
+  root: {
+    type: "any",
+    rules: [
+      {
+        type: "predicate",
+        marker: "sugar",
+        comparator: "gte",
+        threshold: 126,
+        unit: "mg/dL",
+        condition: "Diabetic",
+      },
+      {
+        type: "predicate",
+        marker: "cholesterol",
+        comparator: "gte",
+        threshold: 200,
+        unit: "mg/dL",
+        condition: "High",
+      },
+      {
+        type: "predicate",
+        marker: "bpSystolic",
+        comparator: "gte",
+        threshold: 140,
+        unit: "mmHg",
+        condition: "Hypertension",
+      },
+    ],
+  },
+};
+
+/* ── Single-Condition Policies ────────────────────────────── */
+
+export const DIABETES_RULE: ClaimRule = {
+  id: "diabetes_fasting_glucose",
+  version: "1.0.0",
+  description: "Fasting blood sugar is in the diabetic range",
+  root: {
+    type: "predicate",
+    marker: "sugar",
+    comparator: "gte",
+    threshold: 126,
+    unit: "mg/dL",
+    condition: "Diabetic",
+  },
+};
+
+export const CHOLESTEROL_RULE: ClaimRule = {
+  id: "cholesterol_high",
+  version: "1.0.0",
+  description: "Total cholesterol is in the high range",
+  root: {
+    type: "predicate",
+    marker: "cholesterol",
+    comparator: "gte",
+    threshold: 200,
+    unit: "mg/dL",
+    condition: "High",
+  },
+};
+
+/**
+ * Hypertension by either reading of the blood pressure:
+ *
+ *   bp_systolic ≥ 140 mmHg OR bp_diastolic ≥ 90 mmHg
+ */
+export const CARDIAC_RULE: ClaimRule = {
+  id: "cardiac_hypertension",
+  version: "1.1.0",
+  description: "Systolic or diastolic blood pressure is hypertensive",
+  root: {
+    type: "any",
+    rules: [
+      {
+        type: "predicate",
+        marker: "bpSystolic",
+        comparator: "gte",
+        threshold: 140,
+        unit: "mmHg",
+        condition: "Hypertension",
+      },
+      {
+        type: "predicate",
+        marker: "bpDiastolic",
+        comparator: "gte",
+        threshold: 90,
+        unit: "mmHg",
+        condition: "Hypertension",
+      },
+    ],
+  },
+};
+
+export const HBA1C_RULE: ClaimRule = {
+  id: "diabetes_hba1c",
+  version: "1.0.0",
+  description: "HbA1c is in the diabetic range",
+  root: {
+    type: "predicate",
+    marker: "hba1c",
+    comparator: "gte",
+    threshold: 6.5,
+    unit: "%",
+    condition: "Diabetic",
+  },
+};
+
+export const ANEMIA_RULE: ClaimRule = {
+  id: "anemia_hemoglobin",
+  version: "1.0.0",
+  description: "Hemoglobin is below the anemia threshold",
+  root: {
+    type: "predicate",
+    marker: "hemoglobin",
+    comparator: "lt",
+    threshold: 12,
+    unit: "g/dL",
+    condition: "Anemia",
+  },
+};
+
+/* ── Derived-Marker Policies ──────────────────────────────── */
+
+/**
+ * Chronic kidney disease, stage 3 or worse, by the eGFR the
+ * circuit computes from creatinine, age and sex:
+ *
+ *   egfr < 60 mL/min/1.73m²
+ */
+export const KIDNEY_RULE: ClaimRule = {
+  id: "ckd_egfr",
+  version: "1.0.0",
+  description: "Estimated kidney function is reduced (CKD stage 3+)",
+  root: {
+    type: "predicate",
+    marker: "egfr",
+    comparator: "lt",
+    threshold: 60,
+    unit: "mL/min/1.73m²",
+    condition: "Reduced Kidney Function",
+  },
+};
+
+/** Total cholesterol at five times HDL or more. */
+export const LIPID_RATIO_RULE: ClaimRule = {
+  id: "cholesterol_hdl_ratio",
+  version: "1.0.0",
+  description: "Total to HDL cholesterol ratio is in the high-risk range",
+  root: {
+    type: "predicate",
+    marker: "cholesterolRatio",
+    comparator: "gte",
+    threshold: 5,
+    unit: "total/HDL",
+    condition: "High Risk",
+  },
+};
+
+/* ── Band Policies ────────────────────────────────────────── */
+
+/**
+ * Stage 2 hypertension below the hypertensive-crisis level, for
+ * policies that pay for treatment but not emergency care:
+ *
+ *   140 ≤ bp_systolic ≤ 179 mmHg
+ */
+export const HYPERTENSION_STAGE2_RULE: ClaimRule = {
+  id: "hypertension_stage2_band",
+  version: "1.0.0",
+  description: "Systolic blood pressure is in the stage 2 band",
+  root: {
+    type: "range",
+    marker: "bpSystolic",
+    lower: { threshold: 140, inclusive: true },
+    upper: { threshold: 179, inclusive: true },
+    unit: "mmHg",
+    condition: "Stage 2 Hypertension",
+  },
+};
+
+/* ── Series Policies ──────────────────────────────────────── */
+
+/**
+ * Diabetes confirmed by two fasting glucose readings in the
+ * diabetic range, taken on different days:
+ *
+ *   2 × sugar ≥ 126 mg/dL, ≥ 1 day apart
+ */
+export const DIABETES_CONFIRMED_RULE: ClaimRule = {
+  id: "diabetes_repeat_fasting_glucose",
+  version: "1.0.0",
+  description:
+    "Two fasting blood sugar readings on different days are diabetic",
+  root: {
+    type: "series",
+    marker: "sugar",
+    comparator: "gte",
+    threshold: 126,
+    minReadings: 2,
+    minDaysApart: 1,
+    unit: "mg/dL",
+    condition: "Diabetic",
+  },
+};
+
+/* ── Evaluation ───────────────────────────────────────────── */
+
+function compare(value: number, comparator: Comparator, threshold: number) {
+  switch (comparator) {
+    case "gt":
+      return value > threshold;
+    case "gte":
+      return value >= threshold;
+    case "lt":
+      return value < threshold;
+    case "lte":
+      return value <= threshold;
+  }
+}
+
+/** The comparators a band's bounds stand for. */
+function boundComparators(range: RangePredicate): [Comparator, Comparator] {
+  return [
+    range.lower.inclusive ? "gte" : "gt",
+    range.upper.inclusive ? "lte" : "lt",
+  ];
+}
+
+function test(
+  p: ThresholdPredicate | RangePredicate,
+  value: number,
+): boolean {
+  if (p.type === "predicate") return compare(value, p.comparator, p.threshold);
+  const [lower, upper] = boundComparators(p);
+  return (
+    compare(value, lower, p.lower.threshold) &&
+    compare(value, upper, p.upper.threshold)
+  );
+}
+
+/** Day number of an ISO 8601 date, as DatedReading counts days. */
+export function toDayNumber(date: string): number {
+  const ms = Date.parse(date);
+  if (Number.isNaN(ms)) throw new Error(`Invalid reading date "${date}".`);
+  return Math.floor(ms / 86_400_000);
+}
+
+/**
+ * How many readings count towards a series: passing readings,
+ * oldest first, each at least `minDaysApart` after the last one
+ * counted. Taking the earliest passing reading is never worse
+ * than skipping it, so this is the largest possible count — and
+ * the count `count_spaced` computes in the circuit.
+ */
+export function countSpacedReadings(
+  p: SeriesPredicate,
+  readings: DatedReading[],
+): number {
+  let counted = 0;
+  let lastDay = 0;
+  for (const { value, day } of [...readings].sort((a, b) => a.day - b.day)) {
+    const spaced = counted === 0 || day >= lastDay + p.minDaysApart;
+    if (spaced && compare(value, p.comparator, p.threshold)) {
+      counted++;
+      lastDay = day;
+    }
+  }
+  return counted;
+}
+
+function evaluateNode(
+  node: RuleNode,
+  values: BiomarkerValues,
+  series: BiomarkerSeries,
+  outcomes: PredicateOutcome[],
+): boolean {
+  switch (node.type) {
+    case "series": {
+      const readings = series[node.marker] ?? [];
+      const counted = countSpacedReadings(node, readings);
+      const passed = counted >= node.minReadings;
+      outcomes.push({
+        predicate: node,
+        value: readings.length ? counted : null,
+        passed,
+        description: describeSeriesOutcome(node, counted, readings.length),
+      });
+      return passed;
+    }
+    case "predicate":
+    case "range": {
+      const value = values[node.marker] ?? null;
+      const passed = value !== null && test(node, value);
+      outcomes.push({
+        predicate: node,
+        value,
+        passed,
+        description: describeOutcome(node, value, passed),
+      });
+      return passed;
+    }
+    case "all":
+      return node.rules
+        .map((child) => evaluateNode(child, values, series, outcomes))
+        .every(Boolean);
+    case "any":
+      return node.rules
+        .map((child) => evaluateNode(child, values, series, outcomes))
+        .some(Boolean);
+    case "at_least":
+      return (
+        node.rules
+          .map((child) => evaluateNode(child, values, series, outcomes))
+          .filter(Boolean).length >= node.count
+      );
+  }
+}
+
+/**
+ * Evaluate a rule against concrete biomarker values, and dated
+ * readings for its series predicates.
+ * Every predicate is evaluated (no short-circuit) so the UI can
+ * list all qualified and failed conditions.
+ */
+export function evaluateRule(
+  rule: ClaimRule,
+  values: BiomarkerValues,
+  series: BiomarkerSeries = {},
+): RuleEvaluation {
+  const outcomes: PredicateOutcome[] = [];
+  const passed = evaluateNode(rule.root, values, series, outcomes);
+  return { passed, outcomes };
+}
+
+/* ── Introspection ────────────────────────────────────────── */
+
+export function collectPredicates(node: RuleNode): BiomarkerPredicate[] {
+  if (
+    node.type === "predicate" ||
+    node.type === "range" ||
+    node.type === "series"
+  ) {
+    return [node];
+  }
+  return node.rules.flatMap(collectPredicates);
+}
+
+/** Predicates with one cut-off — the ones the oracle governs. */
+export function collectThresholdPredicates(
+  node: RuleNode,
+): Array<ThresholdPredicate | SeriesPredicate> {
+  return collectPredicates(node).filter(
+    (p): p is ThresholdPredicate | SeriesPredicate => p.type !== "range",
+  );
+}
+
+/** Key of a band's bound or a series parameter among thresholds. */
+export function partKey(marker: Biomarker, part: ThresholdPart) {
+  return `${marker}_${part}`;
+}
+
+/**
+ * Public thresholds declared by a rule. Single-sided thresholds
+ * are keyed by biomarker; a biomarker constrained more than once
+ * gets a comparator suffix (e.g. `sugar_lt`) so no threshold is
+ * silently dropped. Band bounds and the reading count and spacing
+ * of a series are keyed by partKey.
+ */
+export function collectThresholds(rule: ClaimRule): Record<string, number> {
+  const thresholds: Record<string, number> = {};
+  for (const p of collectPredicates(rule.root)) {
+    if (p.type === "range") {
+      thresholds[partKey(p.marker, "lower")] = p.lower.threshold;
+      thresholds[partKey(p.marker, "upper")] = p.upper.threshold;
+      continue;
+    }
+    const key =
+      p.marker in thresholds ? `${p.marker}_${p.comparator}` : p.marker;
+    thresholds[key] = p.threshold;
+    if (p.type === "series") {
+      thresholds[partKey(p.marker, "readings")] = p.minReadings;
+      thresholds[partKey(p.marker, "days_apart")] = p.minDaysApart;
+    }
+  }
+  return thresholds;
+}
+
+/** The single-sided threshold a rule sets for a biomarker. */
+export function getThreshold(
+  rule: ClaimRule,
+  marker: Biomarker,
+): number | undefined {
+  return collectThresholdPredicates(rule.root).find((p) => p.marker === marker)
+    ?.threshold;
+}
+
+/**
+ * The same rule with thresholds replaced per biomarker — e.g. with
+ * live values from the threshold oracle. Markers not listed keep
+ * their threshold. Bands keep their bounds: the oracle publishes
+ * one cut-off per marker, which says nothing about a band.
+ */
+export function withThresholds(
+  rule: ClaimRule,
+  thresholds: BiomarkerValues,
+): ClaimRule {
+  const replace = (node: RuleNode): RuleNode => {
+    if (node.type === "predicate" || node.type === "series") {
+      const threshold = thresholds[node.marker];
+      return threshold === undefined ? node : { ...node, threshold };
+    }
+    if (node.type === "range") return node;
+    return { ...node, rules: node.rules.map(replace) };
+  };
+  return { ...rule, root: replace(rule.root) };
+}
+
+/**
+ * Two rules have the same shape when they differ only in their
+ * thresholds. A circuit fixes the shape; thresholds are public
+ * inputs, and so are a series' reading count and spacing.
+ */
+export function sameRuleShape(a: RuleNode, b: RuleNode): boolean {
+  if (a.type === "range" || b.type === "range") {
+    return (
+      a.type === "range" &&
+      b.type === "range" &&
+      a.marker === b.marker &&
+      a.lower.inclusive === b.lower.inclusive &&
+      a.upper.inclusive === b.upper.inclusive &&
+      a.unit === b.unit
+    );
+  }
+  if (a.type === "series" || b.type === "series") {
+    return (
+      a.type === "series" &&
+      b.type === "series" &&
+      a.marker === b.marker &&
+      a.comparator === b.comparator &&
+      a.unit === b.unit
+    );
+  }
+  if (a.type === "predicate" || b.type === "predicate") {
+    return (
+      a.type === "predicate" &&
+      b.type === "predicate" &&
+      a.marker === b.marker &&
+      a.comparator === b.comparator &&
+      a.unit === b.unit
+    );
+  }
+  if (a.type !== b.type || a.rules.length !== b.rules.length) return false;
+  if (a.type === "at_least" && b.type === "at_least" && a.count !== b.count) {
+    return false;
+  }
+  return a.rules.every((child, i) => sameRuleShape(child, b.rules[i]));
+}
+
+/* ── Formatting ───────────────────────────────────────────── */
+
+/** `<` or `≤` between a bound and the value, read left to right. */
+function boundSymbol(bound: RangeBound): string {
+  return COMPARATOR_SYMBOLS[bound.inclusive ? "lte" : "lt"];
+}
+
+function plural(n: number, noun: string): string {
+  return `${n} ${noun}${n === 1 ? "" : "s"}`;
+}
+
+/** e.g. `≥ 1 day apart`. */
+function describeSpacing(p: SeriesPredicate): string {
+  return `≥ ${plural(p.minDaysApart, "day")} apart`;
+}
+
+/**
+ * e.g. `Blood Sugar ≥ 126 mg/dL`, `140 ≤ BP Systolic ≤ 179 mmHg`
+ * or `2 readings of Blood Sugar ≥ 126 mg/dL, ≥ 1 day apart`.
+ */
+function describeTest(p: BiomarkerPredicate): string {
+  const label = BIOMARKERS[p.marker].label;
+  if (p.type === "series") {
+    return `${plural(p.minReadings, "reading")} of ${label} ${
+      COMPARATOR_SYMBOLS[p.comparator]
+    } ${p.threshold} ${p.unit}, ${describeSpacing(p)}`;
+  }
+  if (p.type === "predicate") {
+    return `${label} ${COMPARATOR_SYMBOLS[p.comparator]} ${p.threshold} ${
+      p.unit
+    }`;
+  }
+  return `${p.lower.threshold} ${boundSymbol(p.lower)} ${label} ${boundSymbol(
+    p.upper,
+  )} ${p.upper.threshold} ${p.unit}`;
+}
+
+export function describePredicate(p: BiomarkerPredicate): string {
+  return `${describeTest(p)} (${p.condition})`;
+}
+
+function describeSeriesOutcome(
+  p: SeriesPredicate,
+  counted: number,
+  total: number,
+): string {
+  const label = BIOMARKERS[p.marker].label;
+  if (total === 0) return `${label}: no dated readings reported`;
+  const summary = `${label}: ${counted} of ${plural(total, "reading")} ${
+    COMPARATOR_SYMBOLS[p.comparator]
+  } ${p.threshold} ${p.unit}, ${describeSpacing(p)}`;
+  return counted >= p.minReadings
+    ? `${summary} (${p.condition})`
+    : `${summary} (${p.minReadings} needed)`;
+}
+
+function describeOutcome(
+  p: ThresholdPredicate | RangePredicate,
+  value: number | null,
+  passed: boolean,
+): string {
+  const label = BIOMARKERS[p.marker].label;
+  if (value === null) return `${label}: not reported`;
+
+  if (p.type === "range") {
+    if (passed) {
+      return `${label}: ${p.lower.threshold} ${boundSymbol(
+        p.lower,
+      )} ${value} ${boundSymbol(p.upper)} ${p.upper.threshold} ${p.unit} (${
+        p.condition
+      })`;
+    }
+    const [lower, upper] = boundComparators(p);
+    return compare(value, lower, p.lower.threshold)
+      ? `${label}: ${value} ${p.unit} ${NEGATED_SYMBOLS[upper]} ${
+          p.upper.threshold
+        } ${p.unit} (Above range)`
+      : `${label}: ${value} ${p.unit} ${NEGATED_SYMBOLS[lower]} ${
+          p.lower.threshold
+        } ${p.unit} (Below range)`;
+  }
+
+  if (passed) {
+    return `${label}: ${value} ${p.unit} ${COMPARATOR_SYMBOLS[p.comparator]} ${
+      p.threshold
+    } ${p.unit} (${p.condition})`;
+  }
+  return `${label}: ${value} ${p.unit} ${NEGATED_SYMBOLS[p.comparator]} ${
+    p.threshold
+  } ${p.unit} (Normal)`;
+}
+
+const PART_LABELS: Record<ThresholdPart, string> = {
+  lower: "lower bound",
+  upper: "upper bound",
+  readings: "min. readings",
+  days_apart: "min. days apart",
+};
+
+/** Human readable name of a key from collectThresholds. */
+export function describeThresholdKey(key: string): string {
+  const [marker, suffix] = key.split(/_(.*)/) as [Biomarker, string?];
+  const label = BIOMARKERS[marker]?.label;
+  if (!label) return key;
+  if (suffix && suffix in PART_LABELS) {
+    return `${label} (${PART_LABELS[suffix as ThresholdPart]})`;
+  }
+  if (suffix && suffix in COMPARATOR_SYMBOLS) {
+    return `${label} (${COMPARATOR_SYMBOLS[suffix as Comparator]})`;
+  }
+  return label;
+}
+
+/**
+ * One-line human readable form of a rule, e.g.
+ * `ANY(Blood Sugar ≥ 126 mg/dL, Cholesterol ≥ 200 mg/dL)`.
+ */
+export function describeRule(node: RuleNode): string {
+  switch (node.type) {
+    case "predicate":
+    case "range":
+    case "series":
+      return describeTest(node);
+    case "all":
+      return `ALL(${node.rules.map(describeRule).join(", ")})`;
+    case "any":
+      return `ANY(${node.rules.map(describeRule).join(", ")})`;
+    case "at_least":
+      return `AT LEAST ${node.count} OF(${node.rules
+        .map(describeRule)
+        .join(", ")})`;
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * CSV Import — lab result exports to a report
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * LIS exports list one result per row. Which column holds what
+ * differs between systems, so fromCsvExport takes a CsvMapping:
+ *
+ *   patient_id,loinc,test,result,unit,collected_at,sex,age,lab
+ *   MED-2024-7829,2345-7,Glucose,131,mg/dL,2024-01-08T08:15:00Z,M,54,Metro
+ *
+ * is DEFAULT_CSV_MAPPING. Codes are LOINC unless the mapping
+ * lists its own, e.g. a lab's local test codes. Units are
+ * converted with lib/report-units; repeat results and codes that
+ * are not mapped are handled as for every lab import
+ * (lib/lab-results).
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import type { MedicalData } from "@/hooks/use-zkp";
+import type { ReportMarker } from "@/lib/claim-rules";
+import { toMarkerUnit } from "@/lib/report-units";
+import {
+  LOINC_MARKERS,
+  LOINC_SYSTEM,
+  addUnmapped,
+  foundCodes,
+  toReport,
+  type LabResult,
+  type UnmappedCode,
+} from "@/lib/lab-results";
+
+/* ── Mapping ──────────────────────────────────────────────── */
+
+/** Header names of the export's columns; matched ignoring case. */
+export interface CsvColumns {
+  code: string;
+  value: string;
+  unit: string;
+  display?: string;
+  takenAt?: string; // ISO 8601
+  patientId?: string;
+  sex?: string; // F, M, female or male
+  age?: string;
+  labName?: string;
+}
+
+export interface CsvMapping {
+  delimiter: string;
+  columns: CsvColumns;
+  // Result codes to markers; LOINC_MARKERS when left out
+  codes?: Record<string, ReportMarker>;
+}
+
+export const DEFAULT_CSV_MAPPING: CsvMapping = {
+  delimiter: ",",
+  columns: {
+    patientId: "patient_id",
+    code: "loinc",
+    display: "test",
+    value: "result",
+    unit: "unit",
+    takenAt: "collected_at",
+    sex: "sex",
+    age: "age",
+    labName: "lab",
+  },
+};
+
+/* ── Parsing ──────────────────────────────────────────────── */
+
+/** RFC 4180 rows: quoted fields may hold delimiters, "" and newlines. */
+function parseRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+  // Blank lines, including the one after a final newline
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+/* ── Import ───────────────────────────────────────────────── */
+
+/** A report from a CSV export; throws when none can be read. */
+export function fromCsvExport(
+  text: string,
+  mapping: CsvMapping = DEFAULT_CSV_MAPPING,
+): MedicalData {
+  // Spreadsheet exports often start with a byte order mark
+  const [header, ...rows] = parseRows(
+    text.replace(/^\uFEFF/, ""),
+    mapping.delimiter,
+  );
+  if (!header || rows.length === 0) {
+    throw new Error("The CSV export has no result rows.");
+  }
+  const names = header.map((name) => name.trim().toLowerCase());
+  const index = (column: keyof CsvColumns, required: boolean) => {
+    const name = mapping.columns[column];
+    const at = name ? names.indexOf(name.trim().toLowerCase()) : -1;
+    if (required && at < 0) {
+      throw new Error(
+        `The CSV export has no "${name}" column for the ${column} (columns: ${header.join(", ")}).`,
+      );
+    }
+    return at;
+  };
+  const columns = {
+    code: index("code", true),
+    value: index("value", true),
+    unit: index("unit", true),
+    display: index("display", false),
+    takenAt: index("takenAt", false),
+    patientId: index("patientId", false),
+    sex: index("sex", false),
+    age: index("age", false),
+    labName: index("labName", false),
+  };
+  const codes = mapping.codes ?? LOINC_MARKERS;
+
+  const results: LabResult[] = [];
+  const unmapped = new Map<string, UnmappedCode>();
+  let patient: string | undefined;
+  const details: Partial<Record<"sex" | "age" | "labName", string>> = {};
+  rows.forEach((row, i) => {
+    const cell = (at: number) => (at < 0 ? "" : (row[at] ?? "").trim());
+    const line = i + 2; // 1-based, after the header
+
+    // A claim is for one patient: stop at the first row of another
+    const patientId = cell(columns.patientId);
+    if (patientId && patient && patientId !== patient) {
+      throw new Error(
+        `CSV line ${line} is for patient "${patientId}", not "${patient}": the CSV export holds results of more than one patient.`,
+      );
+    }
+    patient ??= patientId || undefined;
+    for (const detail of ["sex", "age", "labName"] as const) {
+      details[detail] ??= cell(columns[detail]) || undefined;
+    }
+
+    const code = cell(columns.code);
+    const marker = codes[code];
+    if (!marker) {
+      addUnmapped(unmapped, {
+        system: mapping.codes ? undefined : LOINC_SYSTEM,
+        code: code || "uncoded",
+        display: cell(columns.display) || undefined,
+      });
+      return;
+    }
+
+    // No value, e.g. a result still pending: nothing to read
+    if (!cell(columns.value)) return;
+    const value = Number(cell(columns.value));
+    if (!Number.isFinite(value)) {
+      throw new Error(
+        `CSV line ${line} (${code}) value "${cell(columns.value)}" is not a number.`,
+      );
+    }
+    const unit = cell(columns.unit);
+    if (!unit) {
+      throw new Error(`CSV line ${line} (${code}) does not state its unit.`);
+    }
+    const takenAt = cell(columns.takenAt) || undefined;
+    if (takenAt && Number.isNaN(Date.parse(takenAt))) {
+      throw new Error(`CSV line ${line} date "${takenAt}" is not a date.`);
+    }
+    results.push({
+      marker,
+      value: toMarkerUnit(marker, { value, unit }),
+      takenAt,
+    });
+  });
+
+  if (results.length === 0) {
+    throw new Error(
+      `The CSV export has no result with a supported code${foundCodes(unmapped)}.`,
+    );
+  }
+
+  const data = toReport(results, unmapped);
+  if (patient) data.patientId = patient;
+  if (details.labName) data.labName = details.labName;
+  const sex = details.sex?.toLowerCase();
+  if (sex === "f" || sex === "female") data.sex = "female";
+  if (sex === "m" || sex === "male") data.sex = "male";
+  if (details.age !== undefined) {
+    const age = Number(details.age);
+    if (!Number.isInteger(age) || age < 0) {
+      throw new Error(`CSV age "${details.age}" is not a whole number.`);
+    }
+    data.age = age;
+  }
+  return data;
+}
@@ -0,0 +1,170 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Derived Markers — values computed from the signed report
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Some claims rest on values a lab does not report directly:
+ *
+ *   egfr             → CKD-EPI 2021 eGFR from creatinine, age and sex
+ *   cholesterolRatio → total cholesterol / HDL, in tenths
+ *
+ * The circuits compute them from the committed report (see
+ * circuits/zkhealth/src/derived.nr). eGFR needs fractional powers,
+ * which the circuit evaluates in 32-bit fixed point through log2
+ * and exp2. This module runs the same integer operations in the
+ * same order, so both agree to the last unit — a float formula
+ * could land on the other side of a threshold.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { toCircuitUnits, type BiomarkerValues } from "@/lib/claim-rules";
+
+/* ── Types ────────────────────────────────────────────────── */
+
+export type Sex = "female" | "male";
+
+/** What a report states about the patient besides biomarkers. */
+export interface PatientDetails {
+  age?: number; // whole years
+  sex?: Sex;
+}
+
+/** Report.sex in the circuits; 0 when the report does not say. */
+export const SEX_CODES: Record<Sex, number> = { female: 1, male: 2 };
+
+/* ── Fixed Point ──────────────────────────────────────────── */
+
+const FRAC_BITS = BigInt(32);
+const ONE = BigInt(1) << FRAC_BITS;
+const TWO = ONE * BigInt(2);
+
+/** 2^(2^-i) for i = 1…32 — EXP2_ROOTS in derived.nr. */
+const EXP2_ROOTS = [
+  6074001000, 5107605667, 4683695048, 4485121744, 4389014833, 4341736423,
+  4318288544, 4306612134, 4300785774, 4297875550, 4296421177, 4295694175,
+  4295330720, 4295149004, 4295058149, 4295012722, 4294990009, 4294978653,
+  4294972974, 4294970135, 4294968716, 4294968006, 4294967651, 4294967473,
+  4294967385, 4294967340, 4294967318, 4294967307, 4294967302, 4294967299,
+  4294967297, 4294967297,
+].map(BigInt);
+
+/** CKD-EPI 2021 constants; κ in creatinine units (0.01 mg/dL). */
+const KAPPA = { female: BigInt(70), male: BigInt(90) };
+// α = 0.241 (female), 0.302 (male) — negated in the formula
+const ALPHA = { female: BigInt(1035087118), male: BigInt(1297080123) };
+const FIFTH = BigInt(858993459); // 0.2
+const AGE_BASE = BigInt(4268338499); // 0.9938
+const FEMALE_FACTOR = BigInt(4346506904); // 1.012
+
+function mul(a: bigint, b: bigint): bigint {
+  return (a * b) >> FRAC_BITS;
+}
+
+function div(a: bigint, b: bigint): bigint {
+  return (a << FRAC_BITS) / b;
+}
+
+/** log2(x) for x ≥ 1: the integer part, then one bit per squaring. */
+function log2(x: bigint): bigint {
+  let z = x;
+  let int = BigInt(0);
+  for (let i = 0; i < 32; i++) {
+    if (z >= TWO) {
+      z >>= BigInt(1);
+      int += BigInt(1);
+    }
+  }
+  let frac = BigInt(0);
+  let bit = ONE >> BigInt(1);
+  for (let i = 0; i < 32; i++) {
+    z = mul(z, z);
+    if (z >= TWO) {
+      z >>= BigInt(1);
+      frac += bit;
+    }
+    bit >>= BigInt(1);
+  }
+  return (int << FRAC_BITS) + frac;
+}
+
+/** 2^t for t ≥ 0, one table root per fractional bit. */
+function exp2(t: bigint): bigint {
+  const int = t >> FRAC_BITS;
+  const frac = t - (int << FRAC_BITS);
+  let result = ONE;
+  let bit = ONE >> BigInt(1);
+  for (let i = 0; i < 32; i++) {
+    if ((frac & bit) !== BigInt(0)) result = mul(result, EXP2_ROOTS[i]);
+    bit >>= BigInt(1);
+  }
+  return result << int;
+}
+
+/** x^p for x ≥ 1 and 0 ≤ p < 1. */
+function pow(x: bigint, p: bigint): bigint {
+  return exp2(mul(p, log2(x)));
+}
+
+/* ── Markers ──────────────────────────────────────────────── */
+
+/**
+ * CKD-EPI 2021, in mL/min/1.73m² rounded down:
+ *
+ *   142 × min(Scr/κ, 1)^α × max(Scr/κ, 1)^-1.2 × 0.9938^age
+ *       × 1.012 (female)
+ *
+ * Mirrors `egfr` in derived.nr. Creatinine is in 0.01 mg/dL.
+ */
+export function computeEgfr(
+  creatinine: number,
+  age: number,
+  sex: Sex,
+): number {
+  const scr = BigInt(creatinine);
+  const kappa = KAPPA[sex];
+  const factor =
+    scr < kappa
+      ? pow(div(kappa, scr), ALPHA[sex])
+      : div(ONE, mul(div(scr, kappa), pow(div(scr, kappa), FIFTH)));
+
+  let ageFactor = ONE;
+  let base = AGE_BASE;
+  let years = age;
+  for (let i = 0; i < 7; i++) {
+    if (years % 2 === 1) ageFactor = mul(ageFactor, base);
+    base = mul(base, base);
+    years = Math.floor(years / 2);
+  }
+
+  let gfr = mul(BigInt(142) * factor, ageFactor);
+  if (sex === "female") gfr = mul(gfr, FEMALE_FACTOR);
+  return Number(gfr >> FRAC_BITS);
+}
+
+/**
+ * The report's values with the markers derived from them. A
+ * derived marker is left out when an input is missing, as the
+ * circuit then refuses to compute it; eGFR is defined for adults.
+ */
+export function withDerivedMarkers(
+  values: BiomarkerValues,
+  patient: PatientDetails,
+): BiomarkerValues {
+  const derived: BiomarkerValues = { ...values };
+  const { age = 0, sex } = patient;
+  // Age enters the circuit as 7 bits
+  if (values.creatinine && sex && age >= 18 && age < 128) {
+    derived.egfr = computeEgfr(
+      toCircuitUnits("creatinine", values.creatinine),
+      age,
+      sex,
+    );
+  }
+  if (values.cholesterol && values.hdl) {
+    // Both in mg/dL; the ratio is kept in tenths
+    const total = toCircuitUnits("cholesterol", values.cholesterol);
+    const hdl = toCircuitUnits("hdl", values.hdl);
+    derived.cholesterolRatio = Math.floor((total * 10) / hdl) / 10;
+  }
+  return derived;
+}
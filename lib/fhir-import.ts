@@ -0,0 +1,211 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * FHIR Import — R4 Bundles of lab Observations to a report
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Lab systems export results as a FHIR R4 Bundle: one Observation
+ * per result, coded with LOINC, often next to the DiagnosticReport
+ * that groups them and the Patient they are about. fromFhirBundle
+ * maps those onto MedicalData:
+ *
+ *   Observation      → a biomarker value, by its LOINC code, with
+ *                      its valueQuantity converted as in
+ *                      lib/report-units
+ *   Patient          → sex and age at the time of the results
+ *   DiagnosticReport → lab name and report time
+ *
+ * Repeat results and unmapped codes are handled as for every lab
+ * import, see lib/lab-results.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import type { MedicalData } from "@/hooks/use-zkp";
+import { toMarkerUnit } from "@/lib/report-units";
+import {
+  LOINC_MARKERS,
+  LOINC_SYSTEM,
+  addUnmapped,
+  ageAt,
+  foundCodes,
+  toReport,
+  type LabResult,
+  type UnmappedCode,
+} from "@/lib/lab-results";
+
+/* ── Types ────────────────────────────────────────────────── */
+
+interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+interface FhirQuantity {
+  value?: number;
+  unit?: string;
+  code?: string; // UCUM, e.g. mm[Hg]
+}
+
+interface Reference {
+  reference?: string;
+  display?: string;
+}
+
+interface Observation {
+  resourceType: "Observation";
+  id?: string;
+  status?: string;
+  code?: CodeableConcept;
+  subject?: Reference;
+  effectiveDateTime?: string;
+  effectivePeriod?: { start?: string };
+  issued?: string;
+  valueQuantity?: FhirQuantity;
+  component?: { code?: CodeableConcept; valueQuantity?: FhirQuantity }[];
+}
+
+interface Patient {
+  resourceType: "Patient";
+  id?: string;
+  gender?: string;
+  birthDate?: string;
+}
+
+interface DiagnosticReport {
+  resourceType: "DiagnosticReport";
+  issued?: string;
+  effectiveDateTime?: string;
+  performer?: Reference[];
+}
+
+type Resource = { resourceType?: string } & Record<string, unknown>;
+
+/* ── Codes ────────────────────────────────────────────────── */
+
+/** Blood pressure panel; systolic and diastolic are components. */
+const BP_PANEL = "85354-9";
+
+// Results withdrawn by the lab
+const VOID_STATUSES = ["entered-in-error", "cancelled"];
+
+function loincCode(concept: CodeableConcept | undefined) {
+  return concept?.coding?.find((c) => c.system === LOINC_SYSTEM)?.code;
+}
+
+/* ── Import ───────────────────────────────────────────────── */
+
+function effectiveDate(observation: Observation): string | undefined {
+  return (
+    observation.effectiveDateTime ??
+    observation.effectivePeriod?.start ??
+    observation.issued
+  );
+}
+
+/** The observation's mapped results, in their markers' units. */
+function readResults(observation: Observation): LabResult[] {
+  const code = loincCode(observation.code);
+  const parts =
+    code === BP_PANEL
+      ? (observation.component ?? []).map((c) => ({
+          code: loincCode(c.code),
+          quantity: c.valueQuantity,
+        }))
+      : [{ code, quantity: observation.valueQuantity }];
+
+  const results: LabResult[] = [];
+  for (const part of parts) {
+    const marker = part.code && LOINC_MARKERS[part.code];
+    // No value, e.g. a dataAbsentReason: nothing to read
+    if (!marker || part.quantity?.value === undefined) continue;
+    const unit = part.quantity.unit ?? part.quantity.code;
+    if (!unit) {
+      throw new Error(
+        `Observation ${observation.id ?? ""} (LOINC ${part.code}) does not state its unit.`,
+      );
+    }
+    results.push({
+      marker,
+      value: toMarkerUnit(marker, { value: part.quantity.value, unit }),
+      takenAt: effectiveDate(observation),
+    });
+  }
+  return results;
+}
+
+/** A report from a FHIR R4 Bundle; throws when none can be read. */
+export function fromFhirBundle(bundle: Resource): MedicalData {
+  if (bundle.resourceType !== "Bundle") {
+    throw new Error(
+      `Only FHIR Bundles can be imported, got a ${bundle.resourceType}.`,
+    );
+  }
+  const resources = ((bundle.entry ?? []) as { resource?: Resource }[])
+    .map((entry) => entry.resource)
+    .filter((resource): resource is Resource => !!resource);
+  const ofType = <T>(type: string) =>
+    resources.filter((r) => r.resourceType === type) as unknown as T[];
+
+  const results: LabResult[] = [];
+  const subjects = new Set<string>();
+  const unmapped = new Map<string, UnmappedCode>();
+  for (const observation of ofType<Observation>("Observation")) {
+    if (VOID_STATUSES.includes(observation.status ?? "")) continue;
+    const read = readResults(observation);
+    if (read.length === 0) {
+      const coding = observation.code?.coding?.[0];
+      addUnmapped(unmapped, {
+        system: coding?.system,
+        code: coding?.code ?? observation.code?.text ?? "uncoded",
+        display: coding?.display ?? observation.code?.text,
+      });
+      continue;
+    }
+    results.push(...read);
+    if (observation.subject?.reference) {
+      subjects.add(observation.subject.reference);
+    }
+  }
+
+  if (results.length === 0) {
+    throw new Error(
+      `The FHIR bundle has no observation with a supported LOINC code${foundCodes(unmapped)}.`,
+    );
+  }
+  if (subjects.size > 1) {
+    throw new Error(
+      "The FHIR bundle holds observations of more than one patient.",
+    );
+  }
+
+  const data = toReport(results, unmapped);
+  const [report] = ofType<DiagnosticReport>("DiagnosticReport");
+  const issued = report?.issued ?? report?.effectiveDateTime;
+  if (issued) data.timestamp = issued;
+  if (report?.performer?.[0]?.display) {
+    data.labName = report.performer[0].display;
+  }
+
+  const [subject] = subjects;
+  if (subject) {
+    data.patientId = subject;
+    const patient = ofType<Patient>("Patient").find(
+      (p) => `Patient/${p.id}` === subject,
+    );
+    if (patient?.gender === "female" || patient?.gender === "male") {
+      data.sex = patient.gender;
+    }
+    if (patient?.birthDate) {
+      data.age = ageAt(
+        patient.birthDate,
+        data.timestamp ? new Date(data.timestamp) : new Date(),
+      );
+    }
+  }
+  return data;
+}
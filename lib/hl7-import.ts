@@ -0,0 +1,202 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * HL7 Import — v2 ORU^R01 result messages to a report
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Most lab information systems still send results as HL7 v2
+ * ORU^R01 messages, one segment per line:
+ *
+ *   MSH  sending facility (the lab) and message time
+ *   PID  patient identifier, birth date and sex
+ *   OBR  an ordered panel: collection and report times
+ *   OBX  one result: code, value, units, status, time
+ *
+ * fromHl7Message reads each OBX whose identifier is LOINC-coded
+ * (coding system "LN") by LOINC_MARKERS and converts its units
+ * with lib/report-units. Results the lab deleted or could
+ * not obtain are skipped; repeat results and codes that are not
+ * mapped are handled as for every lab import (lib/lab-results).
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import type { MedicalData } from "@/hooks/use-zkp";
+import { toMarkerUnit } from "@/lib/report-units";
+import {
+  LOINC_MARKERS,
+  LOINC_SYSTEM,
+  addUnmapped,
+  ageAt,
+  foundCodes,
+  toReport,
+  type LabResult,
+  type UnmappedCode,
+} from "@/lib/lab-results";
+
+/* ── Segments ─────────────────────────────────────────────── */
+
+interface Delimiters {
+  field: string;
+  component: string;
+  repetition: string;
+  escape: string;
+  subcomponent: string;
+}
+
+/** A segment's fields, numbered as in the standard: MSH-9 is [9]. */
+type Segment = string[];
+
+// OBX-11 statuses of results that are not results
+const VOID_STATUSES = ["D", "W", "X"];
+
+function splitSegments(message: string): {
+  delimiters: Delimiters;
+  segments: Segment[];
+} {
+  const lines = message
+    .split(/\r\n|\r|\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (!lines[0]?.startsWith("MSH")) {
+    throw new Error("An HL7 v2 message must start with an MSH segment.");
+  }
+  // MSH-1 is the field separator itself, MSH-2 the other four
+  const field = lines[0][3];
+  const [component, repetition, escape, subcomponent] = lines[0]
+    .slice(4)
+    .split(field)[0];
+  const delimiters = { field, component, repetition, escape, subcomponent };
+  const segments = lines.map((line) => {
+    const fields = line.split(field);
+    return fields[0] === "MSH" ? ["MSH", field, ...fields.slice(1)] : fields;
+  });
+  return { delimiters, segments };
+}
+
+/** Undo the \F\, \S\, \T\, \R\ and \E\ escapes in a text value. */
+function unescape(text: string, d: Delimiters): string {
+  const escapes: Record<string, string> = {
+    F: d.field,
+    S: d.component,
+    T: d.subcomponent,
+    R: d.repetition,
+    E: d.escape,
+  };
+  const e = d.escape.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return text.replace(
+    new RegExp(`${e}([FSTRE])${e}`, "g"),
+    (_, c: string) => escapes[c],
+  );
+}
+
+/** An HL7 TS value, YYYYMMDD[HHMM[SS]][±ZZZZ], as ISO 8601. */
+function toIsoDate(ts: string): string {
+  const match = ts.match(
+    /^(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?(\d{2})?(?:\.\d+)?([+-]\d{4})?$/,
+  );
+  if (!match) throw new Error(`Invalid HL7 date/time "${ts}".`);
+  const [, y, mo, d, h = "00", mi = "00", s = "00", zone] = match;
+  const offset = zone ? `${zone.slice(0, 3)}:${zone.slice(3)}` : "Z";
+  return `${y}-${mo}-${d}T${h}:${mi}:${s}${offset}`;
+}
+
+/* ── Import ───────────────────────────────────────────────── */
+
+/** A report from an ORU^R01 message; throws when none can be read. */
+export function fromHl7Message(message: string): MedicalData {
+  const { delimiters, segments } = splitSegments(message);
+  const components = (field: string | undefined) =>
+    (field ?? "").split(delimiters.component);
+  const timeOf = (field: string | undefined) =>
+    field ? toIsoDate(components(field)[0]) : undefined;
+
+  const [msh] = segments;
+  const type = components(msh[9]);
+  if (type[0] !== "ORU" || type[1] !== "R01") {
+    throw new Error(
+      `Only HL7 v2 ORU^R01 messages can be imported, got ${type.slice(0, 2).join("^") || "no message type"}.`,
+    );
+  }
+
+  const results: LabResult[] = [];
+  const unmapped = new Map<string, UnmappedCode>();
+  const patients = segments.filter((s) => s[0] === "PID");
+  let collectedAt: string | undefined; // OBR-7 of the current panel
+  let reportedAt: string | undefined; // OBR-22
+  for (const segment of segments) {
+    if (segment[0] === "OBR") {
+      collectedAt = timeOf(segment[7]);
+      reportedAt = timeOf(segment[22]) ?? reportedAt;
+      continue;
+    }
+    if (segment[0] !== "OBX") continue;
+    if (VOID_STATUSES.includes(segment[11])) continue;
+
+    // OBX-3: code^text^system, then an alternate code^text^system
+    const identifier = components(segment[3]);
+    const at = identifier[2] !== "LN" && identifier[5] === "LN" ? 3 : 0;
+    const [code, text, system] = identifier.slice(at, at + 3);
+    const marker = system === "LN" ? LOINC_MARKERS[code] : undefined;
+    if (!marker) {
+      addUnmapped(unmapped, {
+        system: system === "LN" ? LOINC_SYSTEM : system || undefined,
+        code: code || "uncoded",
+        display: text ? unescape(text, delimiters) : undefined,
+      });
+      continue;
+    }
+
+    // No value, e.g. a result still pending: nothing to read
+    if (!segment[5]) continue;
+    const value = Number(segment[5]);
+    if (!Number.isFinite(value)) {
+      throw new Error(
+        `OBX ${segment[1] ?? ""} (LOINC ${code}) value "${segment[5]}" is not a number.`,
+      );
+    }
+    // OBX-6: the unit's identifier, or its text
+    const [unitId, unitText] = components(segment[6]);
+    const unit = unitId || unitText;
+    if (!unit) {
+      throw new Error(
+        `OBX ${segment[1] ?? ""} (LOINC ${code}) does not state its unit.`,
+      );
+    }
+    results.push({
+      marker,
+      value: toMarkerUnit(marker, { value, unit }),
+      takenAt: timeOf(segment[14]) ?? collectedAt,
+    });
+  }
+
+  if (results.length === 0) {
+    throw new Error(
+      `The HL7 message has no OBX result with a supported LOINC code${foundCodes(unmapped)}.`,
+    );
+  }
+  const ids = new Set(patients.map((pid) => components(pid[3])[0]));
+  if (ids.size > 1) {
+    throw new Error("The HL7 message holds results of more than one patient.");
+  }
+
+  const data = toReport(results, unmapped);
+  const issued = reportedAt ?? timeOf(msh[7]);
+  if (issued) data.timestamp = issued;
+  const lab = components(msh[4])[0];
+  if (lab) data.labName = unescape(lab, delimiters);
+
+  const [pid] = patients;
+  if (pid) {
+    const [id] = [...ids];
+    if (id) data.patientId = id;
+    if (pid[8] === "F") data.sex = "female";
+    if (pid[8] === "M") data.sex = "male";
+    const birth = timeOf(pid[7]);
+    if (birth) {
+      data.age = ageAt(
+        birth,
+        data.timestamp ? new Date(data.timestamp) : new Date(),
+      );
+    }
+  }
+  return data;
+}
@@ -0,0 +1,150 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Lab Results — coded results from lab systems to a report
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * FHIR bundles, HL7 v2 messages and CSV exports all list one
+ * coded result per row, not one report. Their importers read the
+ * rows into LabResults and toReport folds them into MedicalData:
+ *
+ *   - a marker measured more than once gives its most recent
+ *     result as the report's value
+ *   - the dated results of the first such marker (sugar first,
+ *     in BIOMARKERS order) become the report's `series`
+ *   - blood pressure needs both systolic and diastolic
+ *
+ * Codes the importers cannot map are counted as UnmappedCodes and
+ * listed on the report, so the lab can see what was left out.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import type { MedicalData } from "@/hooks/use-zkp";
+import type { LabReading } from "@/lib/lab-signer";
+import { BIOMARKERS, type ReportMarker } from "@/lib/claim-rules";
+
+/* ── Types ────────────────────────────────────────────────── */
+
+/** One result, already in its marker's unit. */
+export interface LabResult {
+  marker: ReportMarker;
+  value: number;
+  takenAt?: string; // ISO 8601
+}
+
+/** A result code the import does not map to a biomarker. */
+export interface UnmappedCode {
+  system?: string;
+  code: string;
+  display?: string;
+  count: number; // results with this code
+}
+
+/* ── Codes ────────────────────────────────────────────────── */
+
+export const LOINC_SYSTEM = "http://loinc.org";
+
+/** LOINC codes read as report values, mass and molar variants. */
+export const LOINC_MARKERS: Record<string, ReportMarker> = {
+  "2345-7": "sugar", // Glucose [Mass/volume] in Serum or Plasma
+  "2339-0": "sugar", // Glucose [Mass/volume] in Blood
+  "14749-6": "sugar", // Glucose [Moles/volume] in Serum or Plasma
+  "2093-3": "cholesterol", // Cholesterol [Mass/volume] in Serum or Plasma
+  "14647-2": "cholesterol", // Cholesterol [Moles/volume]
+  "8480-6": "bpSystolic", // Systolic blood pressure
+  "8462-4": "bpDiastolic", // Diastolic blood pressure
+  "718-7": "hemoglobin", // Hemoglobin [Mass/volume] in Blood
+  "2160-0": "creatinine", // Creatinine [Mass/volume] in Serum or Plasma
+  "14682-9": "creatinine", // Creatinine [Moles/volume]
+  "4548-4": "hba1c", // Hemoglobin A1c/Hemoglobin.total in Blood
+  "59261-8": "hba1c", // Hemoglobin A1c/Hemoglobin.total (IFCC)
+  "2085-9": "hdl", // HDL Cholesterol [Mass/volume]
+  "14646-4": "hdl", // HDL Cholesterol [Moles/volume]
+};
+
+const SINGLE_VALUES = [
+  "sugar",
+  "cholesterol",
+  "hemoglobin",
+  "creatinine",
+  "hba1c",
+  "hdl",
+] as const;
+
+/* ── Report ───────────────────────────────────────────────── */
+
+/** Count one more result with a code no marker is read from. */
+export function addUnmapped(
+  unmapped: Map<string, UnmappedCode>,
+  coding: Omit<UnmappedCode, "count">,
+) {
+  const key = `${coding.system}|${coding.code}`;
+  const entry = unmapped.get(key) ?? { ...coding, count: 0 };
+  entry.count++;
+  unmapped.set(key, entry);
+}
+
+/** The codes of unmapped results, for "nothing to import" errors. */
+export function foundCodes(unmapped: Map<string, UnmappedCode>): string {
+  const found = [...unmapped.values()].map((u) => u.code).join(", ");
+  return found ? ` (found: ${found})` : "";
+}
+
+/** Age in whole years on the given date. */
+export function ageAt(birthDate: string, date: Date): number {
+  const birth = new Date(birthDate);
+  const age = date.getUTCFullYear() - birth.getUTCFullYear();
+  const beforeBirthday =
+    date.getUTCMonth() < birth.getUTCMonth() ||
+    (date.getUTCMonth() === birth.getUTCMonth() &&
+      date.getUTCDate() < birth.getUTCDate());
+  return beforeBirthday ? age - 1 : age;
+}
+
+function timeOf(takenAt: string | undefined): number {
+  return takenAt ? Date.parse(takenAt) : -Infinity;
+}
+
+/**
+ * The report the results make, timestamped with the latest of
+ * them. Patient and lab details are left to the importer.
+ */
+export function toReport(
+  results: LabResult[],
+  unmapped: Map<string, UnmappedCode>,
+): MedicalData {
+  // Oldest first, so the last result of a marker is its latest
+  const sorted = [...results].sort(
+    (a, b) => timeOf(a.takenAt) - timeOf(b.takenAt),
+  );
+  const latest: Partial<Record<ReportMarker, number>> = {};
+  for (const result of sorted) latest[result.marker] = result.value;
+
+  const data: MedicalData = {};
+  for (const marker of SINGLE_VALUES) {
+    if (latest[marker] !== undefined) data[marker] = latest[marker];
+  }
+  if (latest.bpSystolic !== undefined && latest.bpDiastolic !== undefined) {
+    data.bloodPressure = {
+      systolic: latest.bpSystolic,
+      diastolic: latest.bpDiastolic,
+    };
+  }
+  const timestamp = sorted[sorted.length - 1]?.takenAt;
+  if (timestamp) data.timestamp = timestamp;
+
+  const dated = (marker: ReportMarker): LabReading[] =>
+    sorted.flatMap((r) =>
+      r.marker === marker && r.takenAt
+        ? [{ value: r.value, takenAt: r.takenAt }]
+        : [],
+    );
+  const seriesMarker = (Object.keys(BIOMARKERS) as ReportMarker[]).find(
+    (marker) => dated(marker).length > 1,
+  );
+  if (seriesMarker) {
+    data.series = { marker: seriesMarker, readings: dated(seriesMarker) };
+  }
+
+  if (unmapped.size) data.unmapped = [...unmapped.values()];
+  return data;
+}
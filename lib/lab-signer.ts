@@ -1,109 +1,383 @@
 /**
  * ═══════════════════════════════════════════════════════════════
- * Lab Signer — Simulates a medical lab signing patient data
+ * Lab Signer — EdDSA signatures over medical data commitments
  * ═══════════════════════════════════════════════════════════════
  *
- * In production, each lab would have their own signing key pair.
- * The lab signs the medical data before giving it to the patient.
- * The ZK circuit verifies this signature INSIDE the proof.
+ * Each lab holds a Baby Jubjub key pair. It signs the Pedersen
+ * commitment to the report (data_hash) with EdDSA-Poseidon — the
+ * scheme circomlib and Noir's `eddsa` library verify — and hands
+ * the patient the signature, never the key.
  *
  * Flow:
- *   Lab generates report → Signs with lab_secret → Patient receives
- *   Patient generates ZK proof (includes signature verification)
- *   Insurer verifies proof on-chain (lab identity is public input)
+ *   Lab generates report → Signs data_hash → Patient receives (R8, S)
+ *   Patient generates ZK proof (signature verified inside the proof)
+ *   Insurer verifies proof on-chain (lab_pub_hash is a public input)
+ *
+ * The lab's public key stays a private input; only its Pedersen
+ * hash (lab_pub_hash) is public and registered on-chain. Each
+ * commitment includes a fresh random salt, which the patient
+ * receives with the report and never publishes.
  * ═══════════════════════════════════════════════════════════════
  */
 
-// ── NOTE: In the real Noir circuit, we use Pedersen hash ──
-// This module simulates the same hashing for the frontend.
-// When you compile the Noir circuit, the actual hashing
-// happens inside the circuit. This is just for preparing inputs.
+import { getBytes, hexlify, randomBytes } from "ethers";
+import {
+  derivePublicKey,
+  signMessage,
+  verifySignature,
+} from "@zk-kit/eddsa-poseidon";
+import {
+  computeLabPubHash,
+  computeReadingsHash,
+  fieldToHex,
+  toField,
+} from "@/lib/pedersen";
+import { computeReportHash } from "@/lib/circuits";
+import {
+  BIOMARKERS,
+  toDayNumber,
+  type BiomarkerValues,
+  type ReportMarker,
+} from "@/lib/claim-rules";
+import type { PatientDetails, Sex } from "@/lib/derived-markers";
+import { toMarkerUnit, type Quantity } from "@/lib/report-units";
+
+/** A Baby Jubjub point, coordinates as 0x-prefixed field hex. */
+export interface LabPublicKey {
+  x: string;
+  y: string;
+}
+
+export interface LabKeyPair {
+  privateKey: string; // 32 random bytes, 0x-hex — never leaves the lab
+  publicKey: LabPublicKey;
+}
 
 export interface LabIdentity {
   labName: string;
   labId: string;
-  labSecret: string; // Private — only the lab knows this
+  publicKey: LabPublicKey;
   labPubHash: string; // Public — registered on-chain
 }
 
-export interface SignedMedicalData {
-  sugar: number;
-  cholesterol: number;
-  bloodPressureSystolic: number;
-  bloodPressureDiastolic: number;
-  dataHash: string; // Pedersen hash of [sugar, cholesterol, bp]
+/** EdDSA-Poseidon signature (R8, S) over a data commitment. */
+export interface LabSignature {
+  r8: LabPublicKey;
+  s: string;
+}
+
+/**
+ * The measurements and patient details of a report, as a lab
+ * states them. Every one of them is covered by the signature.
+ */
+export interface ReportContents {
+  sugar?: number; // mg/dL
+  cholesterol?: number; // mg/dL, total
+  bloodPressure?: { systolic: number; diastolic: number }; // mmHg
+  hemoglobin?: number; // g/dL
+  creatinine?: number; // mg/dL
+  hba1c?: number; // %
+  hdl?: number; // mg/dL
+  age?: number;
+  sex?: Sex;
+}
+
+const SINGLE_VALUES = [
+  "sugar",
+  "cholesterol",
+  "hemoglobin",
+  "creatinine",
+  "hba1c",
+  "hdl",
+] as const;
+
+/** Report contents in the upload format, each value with its unit. */
+export interface StatedContents {
+  sugar?: Quantity;
+  cholesterol?: Quantity;
+  bloodPressure?: { systolic: number; diastolic: number; unit: string };
+  hemoglobin?: Quantity;
+  creatinine?: Quantity;
+  hba1c?: Quantity;
+  hdl?: Quantity;
+  age?: number;
+  sex?: Sex;
+}
+
+/**
+ * A signed report in the upload format. Values state their
+ * marker's unit, so normalizeReport reads back the very values
+ * the lab committed to (see lib/report-units).
+ */
+export interface SignedMedicalData extends StatedContents {
+  salt: string; // Random field committed with the contents
+  dataHash: string; // computeReportHash of the contents and salt
   labPubHash: string; // Lab's public identity
-  labSecret: string; // Lab's secret (patient needs this for ZK proof)
+  labPublicKey: LabPublicKey; // Opens labPubHash inside the proof
+  signature: LabSignature; // Lab's signature over dataHash
   timestamp: string;
   labName: string;
   labId: string;
 }
 
+/** One dated reading, e.g. a fasting glucose result. */
+export interface LabReading {
+  value: number;
+  takenAt: string; // ISO 8601
+}
+
+/**
+ * Dated readings of one biomarker, signed as one commitment so a
+ * series circuit can count them without revealing values or dates.
+ */
+export interface SignedReadingSeries {
+  marker: ReportMarker;
+  unit: string; // The marker's unit in BIOMARKERS
+  readings: LabReading[]; // Oldest first — the committed order
+  salt: string; // Random field committed with the readings
+  dataHash: string; // computeReadingsHash of the readings and salt
+  signature: LabSignature; // Lab's signature over dataHash
+}
+
+// ── Contents ─────────────────────────────────────────────
+
+/** The report's measured values, by biomarker. */
+export function reportValues(report: ReportContents): BiomarkerValues {
+  const values: BiomarkerValues = {
+    sugar: report.sugar,
+    cholesterol: report.cholesterol,
+    bpSystolic: report.bloodPressure?.systolic,
+    bpDiastolic: report.bloodPressure?.diastolic,
+    hemoglobin: report.hemoglobin,
+    creatinine: report.creatinine,
+    hba1c: report.hba1c,
+    hdl: report.hdl,
+  };
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => typeof value === "number"),
+  );
+}
+
+export function patientDetails(report: ReportContents): PatientDetails {
+  return { age: report.age, sex: report.sex };
+}
+
+/** A value in its marker's unit, rounded to its circuit units. */
+function inMarkerUnit(marker: ReportMarker, value: number): number {
+  return toMarkerUnit(marker, { value, unit: BIOMARKERS[marker].unit });
+}
+
+/** The report's values as a circuit reads them. */
+function toSignedValues(report: ReportContents): ReportContents {
+  const signed: ReportContents = { age: report.age, sex: report.sex };
+  for (const marker of SINGLE_VALUES) {
+    const value = report[marker];
+    if (value !== undefined) signed[marker] = inMarkerUnit(marker, value);
+  }
+  if (report.bloodPressure) {
+    signed.bloodPressure = {
+      systolic: inMarkerUnit("bpSystolic", report.bloodPressure.systolic),
+      diastolic: inMarkerUnit("bpDiastolic", report.bloodPressure.diastolic),
+    };
+  }
+  return signed;
+}
+
+/** The values with their units, as a report states them. */
+function withUnits(report: ReportContents): StatedContents {
+  const stated: StatedContents = {};
+  for (const marker of SINGLE_VALUES) {
+    const value = report[marker];
+    if (value !== undefined) {
+      stated[marker] = { value, unit: BIOMARKERS[marker].unit };
+    }
+  }
+  if (report.bloodPressure) {
+    stated.bloodPressure = {
+      ...report.bloodPressure,
+      unit: BIOMARKERS.bpSystolic.unit,
+    };
+  }
+  return { ...stated, age: report.age, sex: report.sex };
+}
+
+// ── Keys ─────────────────────────────────────────────────
+
+export function deriveLabPublicKey(privateKey: string): LabPublicKey {
+  const [x, y] = derivePublicKey(getBytes(privateKey));
+  return { x: fieldToHex(x), y: fieldToHex(y) };
+}
+
+export function generateLabKeyPair(): LabKeyPair {
+  const privateKey = hexlify(randomBytes(32));
+  return { privateKey, publicKey: deriveLabPublicKey(privateKey) };
+}
+
+/**
+ * A random field element to commit with a report. 31 bytes stay
+ * below the field modulus and are far too many to guess.
+ */
+export function generateSalt(): string {
+  return fieldToHex(toField(hexlify(randomBytes(31))));
+}
+
+/** The identity a lab registers on-chain for a given key. */
+export async function createLabIdentity(
+  labName: string,
+  labId: string,
+  publicKey: LabPublicKey,
+): Promise<LabIdentity> {
+  return {
+    labName,
+    labId,
+    publicKey,
+    labPubHash: await computeLabPubHash(publicKey.x, publicKey.y),
+  };
+}
+
+// ── Signatures ───────────────────────────────────────────
+
+export function signDataHash(
+  privateKey: string,
+  dataHash: string,
+): LabSignature {
+  const { R8, S } = signMessage(getBytes(privateKey), toField(dataHash));
+  return {
+    r8: { x: fieldToHex(R8[0]), y: fieldToHex(R8[1]) },
+    s: fieldToHex(S),
+  };
+}
+
+/** Same check as `verify_lab` in the circuit, minus the identity hash. */
+export function verifyLabSignature(
+  publicKey: LabPublicKey,
+  dataHash: string,
+  signature: LabSignature,
+): boolean {
+  try {
+    return verifySignature(
+      toField(dataHash),
+      {
+        R8: [toField(signature.r8.x), toField(signature.r8.y)],
+        S: toField(signature.s),
+      },
+      [toField(publicKey.x), toField(publicKey.y)],
+    );
+  } catch {
+    return false;
+  }
+}
+
 // ── Demo Labs ────────────────────────────────────────────
 
 export const DEMO_LABS: LabIdentity[] = [
   {
     labName: "Metro Diagnostics Lab",
     labId: "LAB-001",
-    labSecret: "12345",
-    labPubHash: "", // Computed at runtime
+    publicKey: {
+      x: "0x1bcbf4d90dddd3f8654365b72a658cd58f61c5db417215d22bea08bd60e4e35f",
+      y: "0x29c12d503e0d4cc508f40323b43ec76128b4b78ecf9183f8c739da74c474c698",
+    },
+    // pedersen_hash([x, y]) — see computeLabPubHash
+    labPubHash:
+      "0x18e80e5c898cfe869da7c8cbfe64c4c90033e8b7a8e1af3c01a39f4920b2e964",
   },
   {
     labName: "Shanghai Medical College Lab",
     labId: "LAB-002",
-    labSecret: "67890",
-    labPubHash: "",
+    publicKey: {
+      x: "0x1968a0f89aef91eea53d42786ea037ff4be0a1daee153897509d6d7c91bb2af0",
+      y: "0x130755023b6e25ddc13aceac5596f38df14ccbb4f3cf276b465812741cdf1ec4",
+    },
+    labPubHash:
+      "0x066be94496281a1e3893fb714e624d59a732793600fe6c08bc502e969eb30a21",
   },
   {
     labName: "City General Hospital Lab",
     labId: "LAB-003",
-    labSecret: "11111",
-    labPubHash: "",
+    publicKey: {
+      x: "0x19a0049052b2ff1e6e278126b535b6743abce5e9a644898964dbe61ea415a1cd",
+      y: "0x044ea35481b79db76851fa3b892c72f1afb2838357372922db85e93e8bd8979b",
+    },
+    labPubHash:
+      "0x005bebe0518677c8a6b2eb3067215cabcd9cbd74c56c1bd802d399200fc139c8",
   },
 ];
 
 /**
- * Simulate a lab signing medical data.
- *
- * In production, this happens at the lab's system.
- * The patient receives the signed data (including lab_secret
- * which they need to generate the ZK proof, but which stays
- * private inside the proof).
- *
- * NOTE: The lab_secret being given to the patient might seem
- * odd — in a real system, the lab would use EdDSA and give
- * the patient a signature (r, s) instead. For this hackathon
- * demo with Pedersen-hash-based "signatures", the patient
- * needs the secret to prove inside the circuit.
+ * Stands in for the lab on unsigned uploads, which prove only in
+ * simulated mode. The key is public (sha256("zkhealth-demo-
+ * untrusted")), so its identity is registered nowhere and
+ * verifiers refuse its proofs like those of any unknown lab. The
+ * demo labs' own keys stay with the lab side, in
+ * scripts/sample-report.ts.
+ */
+export const UNTRUSTED_DEMO_KEY =
+  "0xb188484555f906ace8441246b20c543c009d6c878a9d9c909f784da253ce1e5a";
+
+/**
+ * A lab signing medical data.
  *
- * Upgrade path: Use std::eddsa in Noir for real signatures.
+ * In production, this happens at the lab's system. The patient
+ * receives the values, the commitment and the signature; the
+ * private key never leaves the lab, so a report cannot be used
+ * to forge another one. Values are committed as the circuits read
+ * them, rounded to their circuit units, with a fresh salt.
  */
-export function labSignData(
+export async function labSignData(
   lab: LabIdentity,
-  sugar: number,
-  cholesterol: number,
-  bpSystolic: number,
-  bpDiastolic: number,
-): SignedMedicalData {
+  privateKey: string,
+  contents: ReportContents,
+): Promise<SignedMedicalData> {
+  const signed = toSignedValues(contents);
+  const salt = generateSalt();
+  const dataHash = await computeReportHash(
+    reportValues(signed),
+    patientDetails(signed),
+    salt,
+  );
   return {
-    sugar,
-    cholesterol,
-    bloodPressureSystolic: bpSystolic,
-    bloodPressureDiastolic: bpDiastolic,
-    dataHash: "", // Will be computed by the circuit
+    ...withUnits(signed),
+    salt,
+    dataHash,
     labPubHash: lab.labPubHash,
-    labSecret: lab.labSecret,
+    labPublicKey: lab.publicKey,
+    signature: signDataHash(privateKey, dataHash),
     timestamp: new Date().toISOString(),
     labName: lab.labName,
     labId: lab.labId,
   };
 }
 
+/** Readings in committed order, with dates as day numbers. */
+export function toDatedReadings(readings: LabReading[]) {
+  return readings.map((r) => ({
+    value: r.value,
+    day: toDayNumber(r.takenAt),
+  }));
+}
+
 /**
- * Generate a sample signed medical report.
- * This is what the "Download Sample" button creates.
+ * A lab signing a series of dated readings, e.g. the fasting
+ * glucose results behind a diabetes diagnosis. Readings are
+ * committed oldest first, as the series circuit requires.
  */
-export function generateSampleSignedReport(): SignedMedicalData {
-  const lab = DEMO_LABS[0];
-  return labSignData(lab, 142, 185, 128, 82);
+export async function labSignReadings(
+  privateKey: string,
+  marker: ReportMarker,
+  readings: LabReading[],
+): Promise<SignedReadingSeries> {
+  const ordered = readings
+    .map((r) => ({ ...r, value: inMarkerUnit(marker, r.value) }))
+    .sort((a, b) => toDayNumber(a.takenAt) - toDayNumber(b.takenAt));
+  const salt = generateSalt();
+  const dataHash = await computeReadingsHash(toDatedReadings(ordered), salt);
+  return {
+    marker,
+    unit: BIOMARKERS[marker].unit,
+    readings: ordered,
+    salt,
+    dataHash,
+    signature: signDataHash(privateKey, dataHash),
+  };
 }
@@ -0,0 +1,142 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Network Registry — every chain the app can talk to
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Built from CHAINLINK_CONFIG and DEPLOYED_CONTRACTS, plus a local
+ * devnet (anvil / hardhat node) so the whole flow runs offline.
+ * One entry drives everything chain-specific: read-only RPC,
+ * MetaMask switch/add params, explorer links and contract
+ * addresses.
+ *
+ * The active network is picked at build time with
+ * NEXT_PUBLIC_NETWORK = "sepolia" (default) | "fuji" | "local".
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import {
+  CHAINLINK_CONFIG,
+  DEPLOYED_CONTRACTS,
+  type ChainlinkNetwork,
+} from "@/lib/chainlink-config";
+
+/* ── Types ────────────────────────────────────────────────── */
+
+export type NetworkId = ChainlinkNetwork | "local";
+
+export interface NetworkConfig {
+  id: NetworkId;
+  name: string;
+  chainId: number;
+  rpcUrl: string;
+  explorerUrl: string | null; // local devnets have no explorer
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  contracts: {
+    verifier: string;
+    claimManager: string;
+    thresholdOracle: string;
+  };
+  chainlink: (typeof CHAINLINK_CONFIG)[ChainlinkNetwork] | null;
+}
+
+/* ── Registry ─────────────────────────────────────────────── */
+
+export const NETWORKS: Record<NetworkId, NetworkConfig> = {
+  sepolia: {
+    id: "sepolia",
+    name: "Sepolia",
+    chainId: CHAINLINK_CONFIG.sepolia.chainId,
+    rpcUrl:
+      process.env.NEXT_PUBLIC_SEPOLIA_RPC_URL ??
+      CHAINLINK_CONFIG.sepolia.rpcUrl,
+    explorerUrl: CHAINLINK_CONFIG.sepolia.explorerUrl,
+    nativeCurrency: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
+    contracts: DEPLOYED_CONTRACTS.sepolia,
+    chainlink: CHAINLINK_CONFIG.sepolia,
+  },
+  fuji: {
+    id: "fuji",
+    name: "Avalanche Fuji",
+    chainId: CHAINLINK_CONFIG.fuji.chainId,
+    rpcUrl: process.env.NEXT_PUBLIC_FUJI_RPC_URL ?? CHAINLINK_CONFIG.fuji.rpcUrl,
+    explorerUrl: CHAINLINK_CONFIG.fuji.explorerUrl,
+    nativeCurrency: { name: "Avalanche", symbol: "AVAX", decimals: 18 },
+    contracts: DEPLOYED_CONTRACTS.fuji,
+    chainlink: CHAINLINK_CONFIG.fuji,
+  },
+  local: {
+    id: "local",
+    name: "Local Devnet",
+    chainId: 31337,
+    rpcUrl: process.env.NEXT_PUBLIC_LOCAL_RPC_URL ?? "http://127.0.0.1:8545",
+    explorerUrl: null,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    contracts: DEPLOYED_CONTRACTS.local,
+    chainlink: null,
+  },
+};
+
+export function isNetworkId(value: string): value is NetworkId {
+  return value in NETWORKS;
+}
+
+const configured = process.env.NEXT_PUBLIC_NETWORK ?? "sepolia";
+
+export const ACTIVE_NETWORK: NetworkConfig =
+  NETWORKS[isNetworkId(configured) ? configured : "sepolia"];
+
+export function getNetworkByChainId(chainId: number): NetworkConfig | null {
+  return (
+    Object.values(NETWORKS).find((network) => network.chainId === chainId) ??
+    null
+  );
+}
+
+/* ── Wallet Params ────────────────────────────────────────── */
+
+export function toHexChainId(chainId: number): string {
+  return "0x" + chainId.toString(16);
+}
+
+/** Params for `wallet_switchEthereumChain`. */
+export function getSwitchChainParams(network: NetworkConfig) {
+  return [{ chainId: toHexChainId(network.chainId) }];
+}
+
+/** Params for `wallet_addEthereumChain` (EIP-3085). */
+export function getAddChainParams(network: NetworkConfig) {
+  return [
+    {
+      chainId: toHexChainId(network.chainId),
+      chainName: network.name,
+      nativeCurrency: network.nativeCurrency,
+      rpcUrls: [network.rpcUrl],
+      ...(network.explorerUrl
+        ? { blockExplorerUrls: [network.explorerUrl] }
+        : {}),
+    },
+  ];
+}
+
+/* ── Explorer Links ───────────────────────────────────────── */
+
+function explorerFor(chainId?: number): string | null {
+  const network =
+    chainId === undefined ? ACTIVE_NETWORK : getNetworkByChainId(chainId);
+  return network?.explorerUrl ?? null;
+}
+
+/** Explorer link for a transaction, or null on chains without one. */
+export function getTxUrl(txHash: string, chainId?: number): string | null {
+  const explorer = explorerFor(chainId);
+  return explorer ? `${explorer}/tx/${txHash}` : null;
+}
+
+/** Explorer link for an address, or null on chains without one. */
+export function getAddressUrl(
+  address: string,
+  chainId?: number,
+): string | null {
+  const explorer = explorerFor(chainId);
+  return explorer ? `${explorer}/address/${address}` : null;
+}
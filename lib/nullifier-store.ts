@@ -0,0 +1,74 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Nullifier Store — reports this insurer has already accepted
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Every proof publishes a nullifier: one per signed report and
+ * claim scope (see nullifierScope in claim-engine). The insurer
+ * portal records the nullifier of each claim it approves, and the
+ * verifier refuses a second bundle that carries the same one.
+ *
+ * DEMO MODE:  localStorage, one key per nullifier (same browser)
+ * PRODUCTION: A table shared by every reviewer of the insurer
+ *
+ * Claims submitted on-chain are also tracked by ClaimManager's
+ * `nullifierClaims` (see getNullifierClaim in lib/chain).
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+/* ── Types ────────────────────────────────────────────────── */
+
+export interface NullifierRecord {
+  nullifier: string;
+  claimId: string;
+  recordedAt: number;
+}
+
+export interface NullifierStore {
+  /** The claim that used a nullifier, or null if none did. */
+  lookup(nullifier: string): NullifierRecord | null;
+  record(nullifier: string, claimId: string): void;
+}
+
+/* ── Constants ────────────────────────────────────────────── */
+
+const STORAGE_PREFIX = "zkHealth_nullifier_";
+
+/* ── Storage helpers ──────────────────────────────────────── */
+
+function getStorageKey(nullifier: string): string {
+  return `${STORAGE_PREFIX}${nullifier.toLowerCase()}`;
+}
+
+/* ── Public API ───────────────────────────────────────────── */
+
+/**
+ * Nullifiers kept in this browser's localStorage. Outside the
+ * browser (the CLI, tests) nothing is recorded and every lookup
+ * misses.
+ */
+export const localNullifierStore: NullifierStore = {
+  lookup(nullifier) {
+    if (typeof window === "undefined") return null;
+    try {
+      const raw = localStorage.getItem(getStorageKey(nullifier));
+      return raw ? (JSON.parse(raw) as NullifierRecord) : null;
+    } catch {
+      return null;
+    }
+  },
+
+  record(nullifier, claimId) {
+    if (typeof window === "undefined") return;
+    const entry: NullifierRecord = {
+      nullifier,
+      claimId,
+      recordedAt: Date.now(),
+    };
+    try {
+      localStorage.setItem(getStorageKey(nullifier), JSON.stringify(entry));
+    } catch {
+      console.warn("[NullifierStore] localStorage write failed");
+    }
+  },
+};
@@ -0,0 +1,165 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Pedersen Commitments — the circuit's hashes, computed in TS
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * The circuits check two commitments with Noir's
+ * `std::hash::pedersen_hash` (see circuits/zkhealth/src/lib.nr):
+ *
+ *   lab_pub_hash = pedersen_hash([pub_key_x, pub_key_y])
+ *   data_hash    = pedersen_hash([sugar, cholesterol, …, age, sex, salt])
+ *
+ * and publish a nullifier per report and claim scope:
+ *
+ *   nullifier    = pedersen_hash([lab_pub_hash, data_hash, salt, scope])
+ *
+ * The report's values follow the Report struct, each a whole
+ * number in circuit units (toReportInput in lib/circuits).
+ * Series circuits commit to dated readings instead, padded with
+ * zeros to MAX_READINGS:
+ *
+ *   data_hash    = pedersen_hash([count, value_0, day_0, …, salt])
+ *
+ * The salt is a random field the lab picks when it signs (see
+ * generateSalt in lib/lab-signer). Without it, the few plausible
+ * values of a report could be hashed until one matched data_hash.
+ *
+ * Barretenberg implements the same hash (Grumpkin generators,
+ * default domain separator = hash index 0), so values computed
+ * here are exactly the public inputs the circuit expects.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { getBytes, hexlify } from "ethers";
+import type { BarretenbergSync } from "@aztec/bb.js";
+
+/** Noir's `pedersen_hash` uses generator index 0. */
+const DEFAULT_HASH_INDEX = 0;
+
+/** BN254 scalar field modulus — every Field value is below it. */
+const FIELD_MODULUS = BigInt(
+  "0x30644e72e131a029b85045b68181585d2833e84879b9709143e1f593f0000001",
+);
+
+export type FieldInput = number | bigint | string;
+
+/** Readings a series circuit takes — `MAX_READINGS` in lib.nr. */
+export const MAX_READINGS = 8;
+
+/* ── Backend ──────────────────────────────────────────────── */
+
+let barretenberg: Promise<BarretenbergSync> | null = null;
+
+/** The WASM module is loaded once, on first use. */
+function getBarretenberg(): Promise<BarretenbergSync> {
+  if (!barretenberg) {
+    barretenberg = import("@aztec/bb.js")
+      .then(({ BarretenbergSync }) => BarretenbergSync.initSingleton())
+      .catch((err) => {
+        barretenberg = null;
+        throw err;
+      });
+  }
+  return barretenberg;
+}
+
+/* ── Field Encoding ───────────────────────────────────────── */
+
+/**
+ * Convert a value to a field element the way Noir reads it from
+ * Prover.toml: decimal or 0x-hex strings, non-negative integers.
+ */
+export function toField(value: FieldInput): bigint {
+  let n: bigint;
+  if (typeof value === "number") {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(
+        `Cannot encode ${value} as a field element — integers only.`,
+      );
+    }
+    n = BigInt(value);
+  } else if (typeof value === "string") {
+    try {
+      n = BigInt(value.trim());
+    } catch {
+      throw new Error(`Cannot encode "${value}" as a field element.`);
+    }
+  } else {
+    n = value;
+  }
+
+  if (n < BigInt(0) || n >= FIELD_MODULUS) {
+    throw new Error(`Value ${n} is outside the BN254 scalar field.`);
+  }
+  return n;
+}
+
+/** 0x-prefixed, 32-byte hex — the format of Field public inputs. */
+export function fieldToHex(value: bigint): string {
+  return "0x" + value.toString(16).padStart(64, "0");
+}
+
+/* ── Hashing ──────────────────────────────────────────────── */
+
+/** Equivalent of Noir's `std::hash::pedersen_hash(inputs)`. */
+export async function pedersenHash(inputs: FieldInput[]): Promise<string> {
+  const bb = await getBarretenberg();
+  const { hash } = bb.pedersenHash({
+    // Barretenberg takes fields as 32 big-endian bytes
+    inputs: inputs.map((v) => getBytes(fieldToHex(toField(v)))),
+    hashIndex: DEFAULT_HASH_INDEX,
+  });
+  return fieldToHex(toField(hexlify(hash)));
+}
+
+/** Public identity of a lab — mirrors `lab_identity` in the circuit. */
+export function computeLabPubHash(
+  pubKeyX: FieldInput,
+  pubKeyY: FieldInput,
+): Promise<string> {
+  return pedersenHash([pubKeyX, pubKeyY]);
+}
+
+/**
+ * Commitment to the signed values, given in Report field order —
+ * mirrors `data_commitment`. See computeReportHash for reports.
+ */
+export function computeDataHash(fields: FieldInput[]): Promise<string> {
+  return pedersenHash(fields);
+}
+
+/**
+ * Commitment to dated readings — mirrors `readings_commitment`.
+ * The order is part of the commitment: pass readings oldest first.
+ */
+export function computeReadingsHash(
+  readings: { value: FieldInput; day: FieldInput }[],
+  salt: FieldInput,
+): Promise<string> {
+  if (readings.length > MAX_READINGS) {
+    throw new Error(
+      `A series holds at most ${MAX_READINGS} readings, got ${readings.length}.`,
+    );
+  }
+  const inputs: FieldInput[] = [readings.length];
+  for (let i = 0; i < MAX_READINGS; i++) {
+    inputs.push(readings[i]?.value ?? 0, readings[i]?.day ?? 0);
+  }
+  inputs.push(salt);
+  return pedersenHash(inputs);
+}
+
+/** One claim per report and scope — mirrors `claim_nullifier`. */
+export function computeNullifier(
+  labPubHash: FieldInput,
+  dataHash: FieldInput,
+  salt: FieldInput,
+  scope: FieldInput,
+): Promise<string> {
+  return pedersenHash([labPubHash, dataHash, salt, scope]);
+}
+
+/** Compare two field values regardless of hex padding or case. */
+export function fieldsEqual(a: FieldInput, b: FieldInput): boolean {
+  return toField(a) === toField(b);
+}
@@ -0,0 +1,102 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Proof Codec — one text encoding for proof bytes
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * A proof travels from the prover, through the bundle, to the
+ * verifier and the ClaimManager contract. Every hop reads it with
+ * decodeProof, so the bytes that are verified are the bytes that
+ * were proved. The encoding is 0x-prefixed hex of a framed proof:
+ *
+ *   ┌─────────┬─────────┬──────────────┬───────────────┐
+ *   │ "zp"    │ version │ length (u32) │ proof bytes   │
+ *   │ 2 bytes │ 1 byte  │ big-endian   │ length bytes  │
+ *   └─────────┴─────────┴──────────────┴───────────────┘
+ *
+ * The frame makes truncation and stray prefixes an error instead
+ * of a shorter proof. v1.0.0 bundles hold bare hex (see
+ * decodeLegacyProof). Share links carry whole bundles as base64url.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { decodeBase64, encodeBase64, getBytes, hexlify } from "ethers";
+
+export const PROOF_ENCODING_VERSION = 1;
+
+const MAGIC = [0x7a, 0x70]; // "zp"
+const HEADER_BYTES = MAGIC.length + 1 + 4;
+const STRICT_HEX = /^0x(?:[0-9a-fA-F]{2})*$/;
+
+/* ── Proofs ───────────────────────────────────────────────── */
+
+export function encodeProof(proof: Uint8Array): string {
+  const framed = new Uint8Array(HEADER_BYTES + proof.length);
+  framed.set(MAGIC, 0);
+  framed[MAGIC.length] = PROOF_ENCODING_VERSION;
+  new DataView(framed.buffer).setUint32(MAGIC.length + 1, proof.length);
+  framed.set(proof, HEADER_BYTES);
+  return hexlify(framed);
+}
+
+/** Proof bytes from encodeProof output; throws on any damage. */
+export function decodeProof(encoded: string): Uint8Array {
+  const framed = strictHexToBytes(encoded);
+  if (
+    framed.length < HEADER_BYTES ||
+    framed[0] !== MAGIC[0] ||
+    framed[1] !== MAGIC[1]
+  ) {
+    throw new Error("Proof is not in the framed proof encoding.");
+  }
+
+  const version = framed[MAGIC.length];
+  if (version !== PROOF_ENCODING_VERSION) {
+    throw new Error(`Unsupported proof encoding version ${version}.`);
+  }
+
+  const length = new DataView(
+    framed.buffer,
+    framed.byteOffset,
+    framed.byteLength,
+  ).getUint32(MAGIC.length + 1);
+  const actual = framed.length - HEADER_BYTES;
+  if (actual !== length) {
+    throw new Error(
+      `Proof header declares ${length} bytes, but ${actual} follow.`,
+    );
+  }
+  return framed.slice(HEADER_BYTES);
+}
+
+/** Proof bytes from a v1.0.0 bundle, which stored bare hex. */
+export function decodeLegacyProof(encoded: string): Uint8Array {
+  return strictHexToBytes(encoded);
+}
+
+function strictHexToBytes(encoded: string): Uint8Array {
+  if (!STRICT_HEX.test(encoded)) {
+    throw new Error(
+      "Proof must be 0x-prefixed hex with an even number of digits.",
+    );
+  }
+  return getBytes(encoded);
+}
+
+/* ── Base64url ────────────────────────────────────────────── */
+
+/** RFC 4648 §5 base64url, unpadded — safe in URLs and QR codes. */
+export function toBase64Url(bytes: Uint8Array): string {
+  return encodeBase64(bytes)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/** Also accepts standard base64, which older share links used. */
+export function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.trim().replace(/-/g, "+").replace(/_/g, "/");
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64) || base64.length % 4 === 1) {
+    throw new Error("Not a base64url string.");
+  }
+  return decodeBase64(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+}
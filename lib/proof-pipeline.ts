@@ -0,0 +1,125 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Proof Pipeline — medical report → witness input → ZK proof
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * The steps between a lab's report and the proof that goes into a
+ * claim bundle, shared by the lab portal (hooks/use-zkp) and
+ * `zkhealth prove` (scripts/zkhealth). Both read the report, apply
+ * the oracle's thresholds and record the proof the same way, so a
+ * report proves identically in either.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import type { MedicalData, ZKProof } from "@/hooks/use-zkp";
+import type { ProveResult, WitnessInput } from "@/lib/zkp-engine";
+import { encodeProof } from "@/lib/proof-codec";
+import {
+  CLAIM_TYPES,
+  getClaimRule,
+  nullifierScope,
+  type ClaimScope,
+  type ClaimType,
+} from "@/lib/claim-engine";
+import { CIRCUITS } from "@/lib/circuits";
+import {
+  toDayNumber,
+  withThresholds,
+  type Biomarker,
+  type ClaimRule,
+} from "@/lib/claim-rules";
+import {
+  patientDetails,
+  reportValues,
+  toDatedReadings,
+} from "@/lib/lab-signer";
+import { getReportParser } from "@/lib/report-parsers";
+import { toOracleSnapshot, type OracleReading } from "@/lib/threshold-oracle";
+
+/**
+ * A medical report as uploaded, read by the parser registered for
+ * its format (see lib/report-parsers) with its values converted
+ * to the markers' units; throws when it is not usable.
+ */
+export function parseMedicalReport(text: string, format = "json"): MedicalData {
+  const data = getReportParser(format).parse(text);
+  if (Object.keys(reportValues(data)).length === 0 && !data.series) {
+    throw new Error(
+      'Medical report must contain at least one biomarker value (e.g. "sugar", "bloodPressure", "hba1c") or a "series".',
+    );
+  }
+  if (data.sex !== undefined && data.sex !== "female" && data.sex !== "male") {
+    throw new Error('Medical report "sex" must be "female" or "male".');
+  }
+  data.series?.readings.forEach((r) => toDayNumber(r.takenAt));
+  return data;
+}
+
+/** The claim type's rule, with live oracle thresholds when available. */
+export function ruleFor(
+  claimType: ClaimType,
+  oracle: OracleReading | null,
+): ClaimRule {
+  const rule = getClaimRule(claimType);
+  return oracle ? withThresholds(rule, oracle.thresholds) : rule;
+}
+
+/**
+ * Map a medical report onto the inputs of the circuit bound to
+ * the claim's type, scoped to its policy. Series circuits prove
+ * from the report's signed readings, so their commitment and
+ * signature come from it. `disclose` names the report values to
+ * reveal alongside the proof.
+ */
+export function toWitnessInput(
+  data: MedicalData,
+  claim: ClaimScope,
+  oracle: OracleReading | null,
+  disclose: Biomarker[] = [],
+): WitnessInput {
+  const { claimType } = claim;
+  const { circuit } = CLAIM_TYPES[claimType];
+  const signed = CIRCUITS[circuit].readings ? data.series : data;
+  return {
+    values: reportValues(data),
+    patient: patientDetails(data),
+    series: data.series && {
+      [data.series.marker]: toDatedReadings(data.series.readings),
+    },
+    circuit,
+    rule: ruleFor(claimType, oracle),
+    labPublicKey: data.labPublicKey,
+    signature: signed?.signature,
+    labPubHash: data.labPubHash,
+    salt: signed?.salt,
+    dataHash: signed?.dataHash,
+    oracle,
+    scope: nullifierScope(claim),
+    disclose,
+  };
+}
+
+/** The proof as recorded for a claim, from the prover's result. */
+export function toZKProof(
+  generated: ProveResult,
+  claim: ClaimScope,
+  oracle: OracleReading | null,
+): ZKProof {
+  const { claimType, insurerName, policyNumber } = claim;
+  return {
+    proofHash: encodeProof(generated.proof),
+    publicInputs: generated.publicSignals,
+    verificationKey: generated.verificationKey,
+    mode: generated.mode,
+    timestamp: Date.now(),
+    circuit: CLAIM_TYPES[claimType].circuit,
+    circuitVersion: generated.circuitVersion,
+    circuitMetrics: generated.circuitMetrics,
+    provingTimeMs: generated.provingTimeMs,
+    claimType,
+    insurerName,
+    policyNumber,
+    rule: ruleFor(claimType, oracle),
+    oracle: oracle ? toOracleSnapshot(oracle) : null,
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Prover Client — proving jobs with phases, cancellation, timeout
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Proofs take seconds of solid CPU work, so they run in a dedicated
+ * worker (lib/prover.worker) and the UI stays responsive. One
+ * worker is shared by all jobs and keeps compiled circuits loaded.
+ *
+ * Aborting a job or hitting its timeout terminates the worker —
+ * Barretenberg cannot be interrupted mid-proof — and the next job
+ * starts a fresh one. Without Worker support (SSR, old browsers)
+ * jobs run in-thread with the same phases.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import {
+  initializeCircuit,
+  proveWitness,
+  verifyProof,
+  type GeneratedProof,
+  type ProvePhase,
+  type ProveResult,
+} from "@/lib/zkp-engine";
+import type { CircuitId } from "@/lib/circuits";
+import type {
+  ProverJob,
+  ProverRequest,
+  ProverResponse,
+} from "@/lib/prover-protocol";
+
+/** Upper bound for one job, including loading the circuit. */
+export const PROVE_TIMEOUT_MS = 120_000;
+
+export interface ProverJobOptions {
+  onPhase?: (phase: ProvePhase) => void;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+interface PendingJob {
+  resolve: (value: unknown) => void;
+  reject: (err: Error) => void;
+  onPhase?: (phase: ProvePhase) => void;
+}
+
+/* ── Worker ───────────────────────────────────────────────── */
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, PendingJob>();
+
+function handleResponse(response: ProverResponse) {
+  const job = pending.get(response.id);
+  if (!job) return; // Job was cancelled or timed out
+
+  switch (response.type) {
+    case "phase":
+      job.onPhase?.(response.phase);
+      return;
+    case "proved":
+      job.resolve(response.result);
+      break;
+    case "verified":
+      job.resolve(response.valid);
+      break;
+    case "error":
+      job.reject(new Error(response.message));
+      break;
+  }
+  pending.delete(response.id);
+}
+
+/** Stop the worker and fail every job it was running. */
+function terminateWorker(reason: Error) {
+  worker?.terminate();
+  worker = null;
+  for (const job of pending.values()) job.reject(reason);
+  pending.clear();
+}
+
+function getWorker(): Worker | null {
+  if (typeof Worker === "undefined") return null;
+  if (!worker) {
+    worker = new Worker(new URL("./prover.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.onmessage = (event: MessageEvent<ProverResponse>) =>
+      handleResponse(event.data);
+    worker.onerror = (event) =>
+      terminateWorker(new Error(`Prover worker crashed: ${event.message}`));
+  }
+  return worker;
+}
+
+/* ── Jobs ─────────────────────────────────────────────────── */
+
+function runJob<T>(
+  request: ProverJob,
+  label: string,
+  inThread: (signal: AbortSignal) => Promise<T>,
+  { onPhase, signal, timeoutMs = PROVE_TIMEOUT_MS }: ProverJobOptions,
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error(`${label} cancelled`));
+      return;
+    }
+
+    const id = ++nextId;
+    const local = new AbortController();
+    const settle = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const job: PendingJob = {
+      resolve: (value) => {
+        settle();
+        resolve(value as T);
+      },
+      reject: (err) => {
+        settle();
+        reject(err);
+      },
+      onPhase,
+    };
+
+    const fail = (err: Error) => {
+      local.abort();
+      if (pending.has(id)) terminateWorker(err);
+      else job.reject(err);
+    };
+    const onAbort = () => fail(new Error(`${label} cancelled`));
+    const timer = setTimeout(
+      () =>
+        fail(new Error(`${label} timed out after ${timeoutMs / 1000} s`)),
+      timeoutMs,
+    );
+    signal?.addEventListener("abort", onAbort);
+
+    const target = getWorker();
+    if (target) {
+      pending.set(id, job);
+      const message: ProverRequest = { ...request, id };
+      target.postMessage(message);
+    } else {
+      // The promise settles as soon as the job is aborted; the
+      // in-thread work itself stops at the next phase boundary
+      inThread(local.signal).then(job.resolve, job.reject);
+    }
+  });
+}
+
+/**
+ * Prove a witness from generateWitness. Phases are reported as
+ * they start; the promise rejects when cancelled or timed out.
+ */
+export function proveInWorker(
+  witness: Record<string, unknown>,
+  options: ProverJobOptions = {},
+): Promise<ProveResult> {
+  return runJob<ProveResult>(
+    { type: "prove", witness },
+    "Proof generation",
+    (signal) => proveWitness(witness, { onPhase: options.onPhase, signal }),
+    options,
+  );
+}
+
+/** Verify a proof, optionally against a VK fingerprint. */
+export function verifyInWorker(
+  proof: GeneratedProof,
+  circuit: CircuitId,
+  verificationKey?: string,
+  options: ProverJobOptions = {},
+): Promise<boolean> {
+  return runJob<boolean>(
+    { type: "verify", proof, circuit, verificationKey },
+    "Proof verification",
+    async () => {
+      await initializeCircuit(circuit);
+      return verifyProof(proof, circuit, verificationKey);
+    },
+    options,
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Prover Protocol — messages between the app and the prover worker
+ * ═══════════════════════════════════════════════════════════════
+ *
+ *   app ──prove/verify──► worker
+ *   app ◄──phase──────── worker   (0..n times, prove only)
+ *   app ◄──proved/verified/error── worker
+ *
+ * Every request carries an id that its responses echo, so replies
+ * can never be matched to the wrong job. Cancellation is not a
+ * message: the app terminates the worker, which is the only way to
+ * stop a proof that is already inside Barretenberg.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import type { CircuitId } from "@/lib/circuits";
+import type {
+  GeneratedProof,
+  ProvePhase,
+  ProveResult,
+} from "@/lib/zkp-engine";
+
+export type ProverJob =
+  | { type: "prove"; witness: Record<string, unknown> }
+  | {
+      type: "verify";
+      proof: GeneratedProof;
+      circuit: CircuitId;
+      verificationKey?: string;
+    };
+
+export type ProverRequest = ProverJob & { id: number };
+
+export type ProverResponse =
+  | { type: "phase"; id: number; phase: ProvePhase }
+  | { type: "proved"; id: number; result: ProveResult }
+  | { type: "verified"; id: number; valid: boolean }
+  | { type: "error"; id: number; message: string };
+
+/** What the UI shows for each phase; progress is % at phase start. */
+export const PROVE_PHASES: Record<
+  ProvePhase,
+  { label: string; progress: number }
+> = {
+  artifact: { label: "Loading circuit", progress: 5 },
+  witness: { label: "Solving witness", progress: 20 },
+  proving: { label: "Generating proof", progress: 40 },
+  vk: { label: "Extracting verification key", progress: 90 },
+};
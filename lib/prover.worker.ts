@@ -0,0 +1,55 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Prover Worker — Noir + Barretenberg off the main thread
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Loaded by lib/prover-client. Runs the engine's proving job and
+ * proof verification, reporting phases as it goes. Circuits stay
+ * loaded for the lifetime of the worker.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import {
+  initializeCircuit,
+  proveWitness,
+  verifyProof,
+} from "@/lib/zkp-engine";
+import type { ProverRequest, ProverResponse } from "@/lib/prover-protocol";
+
+function reply(response: ProverResponse) {
+  self.postMessage(response);
+}
+
+self.addEventListener(
+  "message",
+  async (event: MessageEvent<ProverRequest>) => {
+    const request = event.data;
+    try {
+      switch (request.type) {
+        case "prove": {
+          const result = await proveWitness(request.witness, {
+            onPhase: (phase) => reply({ type: "phase", id: request.id, phase }),
+          });
+          reply({ type: "proved", id: request.id, result });
+          break;
+        }
+        case "verify": {
+          await initializeCircuit(request.circuit);
+          const valid = await verifyProof(
+            request.proof,
+            request.circuit,
+            request.verificationKey,
+          );
+          reply({ type: "verified", id: request.id, valid });
+          break;
+        }
+      }
+    } catch (err) {
+      reply({
+        type: "error",
+        id: request.id,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  },
+);
@@ -0,0 +1,132 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Report Parsers — one registry for every upload format
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Labs send results in whatever their system exports. Each
+ * format has a ReportParser that turns the uploaded text into
+ * MedicalData; parseMedicalReport then checks the result the same
+ * way for all of them.
+ *
+ *   json   zkhealth JSON with units, or a FHIR R4 Bundle
+ *   hl7v2  HL7 v2 ORU^R01 message
+ *   csv    CSV export, columns as in DEFAULT_CSV_MAPPING
+ *
+ * registerReportParser adds a format or replaces one, e.g. CSV
+ * with a lab's own columns: csvReportParser(mapping).
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import type { MedicalData } from "@/hooks/use-zkp";
+import { normalizeReport } from "@/lib/report-units";
+import { fromFhirBundle } from "@/lib/fhir-import";
+import { fromHl7Message } from "@/lib/hl7-import";
+import {
+  DEFAULT_CSV_MAPPING,
+  fromCsvExport,
+  type CsvMapping,
+} from "@/lib/csv-import";
+
+/* ── Types ────────────────────────────────────────────────── */
+
+export interface ReportParser {
+  id: string;
+  label: string;
+  description: string;
+  extensions: string[]; // e.g. ".hl7", matched against file names
+  mimeTypes: string[];
+  parse: (text: string) => MedicalData;
+}
+
+/* ── Parsers ──────────────────────────────────────────────── */
+
+/** zkhealth JSON, or a FHIR R4 Bundle when it has a resourceType. */
+export const JSON_PARSER: ReportParser = {
+  id: "json",
+  label: "JSON / FHIR",
+  description: "zkhealth JSON report or FHIR R4 Bundle",
+  extensions: [".json"],
+  mimeTypes: ["application/json", "application/fhir+json"],
+  parse: (text) => {
+    let report: unknown;
+    try {
+      report = JSON.parse(text);
+    } catch {
+      throw new Error(
+        "Invalid JSON file. Please upload a valid medical report.",
+      );
+    }
+    if (
+      typeof report !== "object" ||
+      report === null ||
+      Array.isArray(report)
+    ) {
+      throw new Error("Medical report must be a JSON object.");
+    }
+    return "resourceType" in report
+      ? fromFhirBundle(report as Record<string, unknown>)
+      : normalizeReport(report as Record<string, unknown>);
+  },
+};
+
+export const HL7_PARSER: ReportParser = {
+  id: "hl7v2",
+  label: "HL7 v2",
+  description: "ORU^R01 result message, LOINC-coded OBX segments",
+  extensions: [".hl7", ".oru"],
+  mimeTypes: ["application/hl7-v2", "x-application/hl7-v2+er7"],
+  parse: fromHl7Message,
+};
+
+/** A CSV parser for exports laid out as the mapping says. */
+export function csvReportParser(
+  mapping: CsvMapping = DEFAULT_CSV_MAPPING,
+): ReportParser {
+  return {
+    id: "csv",
+    label: "CSV",
+    description: `One result per row: ${Object.values(mapping.columns).join(", ")}`,
+    extensions: [".csv"],
+    mimeTypes: ["text/csv"],
+    parse: (text) => fromCsvExport(text, mapping),
+  };
+}
+
+/* ── Registry ─────────────────────────────────────────────── */
+
+const parsers = new Map<string, ReportParser>(
+  [JSON_PARSER, HL7_PARSER, csvReportParser()].map((p) => [p.id, p]),
+);
+
+/** Add a format, or replace the parser registered under its id. */
+export function registerReportParser(parser: ReportParser) {
+  parsers.set(parser.id, parser);
+}
+
+/** Every registered parser, in registration order. */
+export function reportParsers(): ReportParser[] {
+  return [...parsers.values()];
+}
+
+export function getReportParser(id: string): ReportParser {
+  const parser = parsers.get(id);
+  if (!parser) {
+    throw new Error(
+      `Unknown report format "${id}" (formats: ${[...parsers.keys()].join(", ")}).`,
+    );
+  }
+  return parser;
+}
+
+/** The parser for a file, by its extension or MIME type. */
+export function detectReportParser(
+  fileName: string,
+  mimeType = "",
+): ReportParser | undefined {
+  const name = fileName.toLowerCase();
+  return reportParsers().find(
+    (parser) =>
+      parser.extensions.some((ext) => name.endsWith(ext)) ||
+      parser.mimeTypes.includes(mimeType),
+  );
+}
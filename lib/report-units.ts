@@ -0,0 +1,203 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Report Units — declared units to the circuits' units
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Labs do not agree on units: glucose is mg/dL in the US and
+ * mmol/L in most other countries, so a bare 7.8 means nothing.
+ * An uploaded report states the unit of every value,
+ *
+ *   "sugar":         { "value": 7.8, "unit": "mmol/L" }
+ *   "bloodPressure": { "systolic": 128, "diastolic": 82, "unit": "mmHg" }
+ *   "series":        { "marker": "sugar", "unit": "mg/dL", "readings": [...] }
+ *
+ * and normalizeReport converts each one to its marker's unit in
+ * BIOMARKERS. The result is rounded to the nearest step of the
+ * marker's circuit units — 1 mg/dL for glucose, 0.1 g/dL for
+ * hemoglobin — with halves rounded up. A value without a unit,
+ * or with one not listed here, is rejected rather than guessed.
+ * Lab-signed reports state their values in the markers' own units
+ * (see labSignData), so normalizing them keeps the signed values.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import type { MedicalData } from "@/hooks/use-zkp";
+import {
+  BIOMARKERS,
+  fromCircuitUnits,
+  type ReportMarker,
+} from "@/lib/claim-rules";
+
+/* ── Types ────────────────────────────────────────────────── */
+
+/** A value as a report states it. */
+export interface Quantity {
+  value: number;
+  unit: string;
+}
+
+type Conversion = (value: number) => number;
+
+/* ── Conversions ──────────────────────────────────────────── */
+
+const MMHG = { mmHg: (v: number) => v, kPa: (v: number) => v * 7.50062 };
+// Total and HDL cholesterol share a molar mass
+const CHOLESTEROL = {
+  "mg/dL": (v: number) => v,
+  "mmol/L": (v: number) => v * 38.67,
+};
+
+/**
+ * Accepted units of each marker, to the unit in BIOMARKERS. Unit
+ * names are matched ignoring case, and µmol/L may be written
+ * umol/L.
+ */
+export const UNIT_CONVERSIONS: Record<
+  ReportMarker,
+  Record<string, Conversion>
+> = {
+  sugar: { "mg/dL": (v) => v, "mmol/L": (v) => v * 18.016 },
+  cholesterol: CHOLESTEROL,
+  bpSystolic: MMHG,
+  bpDiastolic: MMHG,
+  hemoglobin: {
+    "g/dL": (v) => v,
+    "g/L": (v) => v / 10,
+    "mmol/L": (v) => v * 1.6114,
+  },
+  creatinine: { "mg/dL": (v) => v, "µmol/L": (v) => v / 88.42 },
+  // NGSP % from IFCC mmol/mol by the NGSP/IFCC master equation
+  hba1c: { "%": (v) => v, "mmol/mol": (v) => v * 0.09148 + 2.152 },
+  hdl: CHOLESTEROL,
+};
+
+// Case, micro sign and UCUM brackets (mm[Hg]) do not matter
+function unitKey(unit: string): string {
+  return unit
+    .trim()
+    .toLowerCase()
+    .replace(/[µμ]/g, "u")
+    .replace(/[[\]]/g, "");
+}
+
+/**
+ * A stated value in its marker's unit, rounded to the marker's
+ * circuit units. Throws on a unit the marker does not accept.
+ */
+export function toMarkerUnit(
+  marker: ReportMarker,
+  quantity: Quantity,
+): number {
+  const { label, scale } = BIOMARKERS[marker];
+  const accepted = UNIT_CONVERSIONS[marker];
+  const unit = Object.keys(accepted).find(
+    (name) => unitKey(name) === unitKey(quantity.unit),
+  );
+  if (!unit) {
+    throw new Error(
+      `Unknown unit "${quantity.unit}" for ${label} (accepted: ${Object.keys(accepted).join(", ")}).`,
+    );
+  }
+  const value = accepted[unit](quantity.value);
+  return fromCircuitUnits(marker, Math.round(value * scale));
+}
+
+/* ── Reports ──────────────────────────────────────────────── */
+
+const SINGLE_VALUES = [
+  "sugar",
+  "cholesterol",
+  "hemoglobin",
+  "creatinine",
+  "hba1c",
+  "hdl",
+] as const;
+
+function readValue(field: string, value: unknown): number {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new Error(
+      `Medical report "${field}" must be a non-negative number, got ${JSON.stringify(value)}.`,
+    );
+  }
+  return value;
+}
+
+function readUnit(field: string, unit: unknown): string {
+  if (typeof unit !== "string" || !unit.trim()) {
+    throw new Error(
+      `Medical report "${field}" must state its unit, e.g. { "value": 7.8, "unit": "mmol/L" }.`,
+    );
+  }
+  return unit;
+}
+
+function readQuantity(field: string, input: unknown): Quantity {
+  // A bare number is the old format, which had no units
+  if (typeof input === "number") readUnit(field, undefined);
+  const { value, unit } = (input ?? {}) as Partial<Quantity>;
+  return {
+    value: readValue(`${field}.value`, value),
+    unit: readUnit(field, unit),
+  };
+}
+
+/**
+ * The report with every value in its marker's unit. Fields
+ * other than values, such as the lab's signature, are kept.
+ */
+export function normalizeReport(
+  report: Record<string, unknown>,
+): MedicalData {
+  const data = { ...report } as MedicalData;
+
+  for (const marker of SINGLE_VALUES) {
+    if (report[marker] === undefined) continue;
+    data[marker] = toMarkerUnit(marker, readQuantity(marker, report[marker]));
+  }
+
+  if (report.bloodPressure !== undefined) {
+    const { systolic, diastolic, unit } = report.bloodPressure as Record<
+      string,
+      unknown
+    >;
+    const stated = readUnit("bloodPressure", unit);
+    data.bloodPressure = {
+      systolic: toMarkerUnit("bpSystolic", {
+        value: readValue("bloodPressure.systolic", systolic),
+        unit: stated,
+      }),
+      diastolic: toMarkerUnit("bpDiastolic", {
+        value: readValue("bloodPressure.diastolic", diastolic),
+        unit: stated,
+      }),
+    };
+  }
+
+  if (report.series !== undefined) {
+    const { unit, ...series } = report.series as Record<string, unknown>;
+    const { marker, readings } = series;
+    if (
+      typeof marker !== "string" ||
+      !(marker in UNIT_CONVERSIONS) ||
+      !Array.isArray(readings)
+    ) {
+      throw new Error(
+        'Medical report "series" must name a biomarker and list its "readings".',
+      );
+    }
+    const stated = readUnit("series", unit);
+    data.series = {
+      ...(series as NonNullable<MedicalData["series"]>),
+      marker: marker as ReportMarker,
+      readings: readings.map((reading, i) => ({
+        ...reading,
+        value: toMarkerUnit(marker as ReportMarker, {
+          value: readValue(`series.readings[${i}].value`, reading?.value),
+          unit: stated,
+        }),
+      })),
+    };
+  }
+
+  return data;
+}
@@ -0,0 +1,190 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Threshold Oracle — live diagnostic thresholds from the chain
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * ChainlinkThresholdOracle keeps the current medical thresholds
+ * (refreshed by Chainlink Functions) and the set they replaced.
+ * Proofs are generated against the current values, and the bundle
+ * records which oracle update it used so the insurer can check the
+ * public thresholds against the chain.
+ *
+ * Networks without a deployed oracle fall back to the thresholds
+ * built into each circuit's claim rule.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { ethers } from "ethers";
+import { THRESHOLD_ORACLE_ABI } from "./abi";
+import { getReadProvider } from "@/lib/chain";
+import {
+  ACTIVE_NETWORK,
+  getNetworkByChainId,
+  type NetworkConfig,
+} from "@/lib/networks";
+
+/* ── Types ────────────────────────────────────────────────── */
+
+/**
+ * Markers the oracle publishes a threshold for. Thresholds of
+ * other markers are fixed by the circuit's defaults.
+ */
+export const ORACLE_MARKERS = ["sugar", "cholesterol", "bpSystolic"] as const;
+
+export type OracleMarker = (typeof ORACLE_MARKERS)[number];
+
+export function isOracleMarker(marker: string): marker is OracleMarker {
+  return (ORACLE_MARKERS as readonly string[]).includes(marker);
+}
+
+/** One oracle update, as recorded in a claim bundle. */
+export interface OracleSnapshot {
+  chainId: number;
+  address: string;
+  thresholds: Record<OracleMarker, number>;
+  updatedAt: number; // ms epoch — the oracle's lastUpdated
+  sourceHash: string;
+}
+
+export interface OracleReading extends OracleSnapshot {
+  stale: boolean; // not refreshed within the oracle's 7-day window
+}
+
+/** The part of a reading that goes into a claim bundle. */
+export function toOracleSnapshot(reading: OracleReading): OracleSnapshot {
+  return {
+    chainId: reading.chainId,
+    address: reading.address,
+    thresholds: reading.thresholds,
+    updatedAt: reading.updatedAt,
+    sourceHash: reading.sourceHash,
+  };
+}
+
+/* ── Address ──────────────────────────────────────────────── */
+
+const ACTIVE_ORACLE_ADDRESS =
+  process.env.NEXT_PUBLIC_THRESHOLD_ORACLE_ADDRESS ??
+  ACTIVE_NETWORK.contracts.thresholdOracle;
+
+export function getOracleAddress(
+  network: NetworkConfig = ACTIVE_NETWORK,
+): string {
+  return network === ACTIVE_NETWORK
+    ? ACTIVE_ORACLE_ADDRESS
+    : network.contracts.thresholdOracle;
+}
+
+function getOracle(network: NetworkConfig, address: string) {
+  return new ethers.Contract(
+    address,
+    THRESHOLD_ORACLE_ABI,
+    getReadProvider(network),
+  );
+}
+
+/* ── Reads ────────────────────────────────────────────────── */
+
+function toSnapshot(
+  network: NetworkConfig,
+  address: string,
+  sugar: bigint,
+  cholesterol: bigint,
+  bloodPressure: bigint,
+  lastUpdated: bigint,
+  sourceHash: string,
+): OracleSnapshot {
+  return {
+    chainId: network.chainId,
+    address,
+    thresholds: {
+      sugar: Number(sugar),
+      cholesterol: Number(cholesterol),
+      bpSystolic: Number(bloodPressure),
+    },
+    updatedAt: Number(lastUpdated) * 1000,
+    sourceHash,
+  };
+}
+
+/**
+ * Current thresholds from the network's oracle, or null when no
+ * oracle is deployed there. Read errors are thrown — a configured
+ * oracle that cannot be reached must not silently fall back.
+ */
+export async function fetchOracleThresholds(
+  network: NetworkConfig = ACTIVE_NETWORK,
+): Promise<OracleReading | null> {
+  const address = getOracleAddress(network);
+  if (!address) return null;
+
+  const oracle = getOracle(network, address);
+  try {
+    const [current, stale] = await Promise.all([
+      oracle.getThresholds(),
+      oracle.areThresholdsStale(),
+    ]);
+    return {
+      ...toSnapshot(
+        network,
+        address,
+        current.sugar,
+        current.cholesterol,
+        current.bloodPressure,
+        current.lastUpdated,
+        current.sourceHash,
+      ),
+      stale,
+    };
+  } catch (err) {
+    throw new Error(
+      `Could not read thresholds from the oracle on ${network.name}: ${
+        err instanceof Error ? err.message : String(err)
+      }`,
+    );
+  }
+}
+
+/**
+ * The thresholds that were in effect at `timestamp` (ms epoch).
+ * The oracle only remembers the current and previous update, so
+ * older points in time resolve to null.
+ */
+export async function fetchThresholdsAt(
+  chainId: number,
+  address: string,
+  timestamp: number,
+): Promise<OracleSnapshot | null> {
+  const network = getNetworkByChainId(chainId);
+  if (!network) return null;
+
+  const oracle = getOracle(network, address);
+  const [current, previous] = await Promise.all([
+    oracle.getThresholds(),
+    oracle.previousThresholds(),
+  ]);
+
+  if (Number(current.lastUpdated) * 1000 <= timestamp) {
+    return toSnapshot(
+      network,
+      address,
+      current.sugar,
+      current.cholesterol,
+      current.bloodPressure,
+      current.lastUpdated,
+      current.sourceHash,
+    );
+  }
+  if (previous.isSet && Number(previous.lastUpdated) * 1000 <= timestamp) {
+    return toSnapshot(
+      network,
+      address,
+      previous.sugarThreshold,
+      previous.cholesterolThreshold,
+      previous.bloodPressureThreshold,
+      previous.lastUpdated,
+      previous.sourceHash,
+    );
+  }
+  return null;
+}
@@ -0,0 +1,22 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Pinned Verification Keys — GENERATED, do not edit
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Keccak-256 of each circuit's verification key, per circuit
+ * version. Regenerate with `npm run pin:vk` after compiling the
+ * circuits; it adds the keys of the current versions and leaves
+ * pins of other versions in place.
+ *
+ * Nothing is pinned yet: extracting a key needs Barretenberg's
+ * CRS. Without a pinned key no real proof could be verified, so
+ * the engine proves those circuits in simulation and verifiers
+ * are not strict by default (lib/bundle-verifier).
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import type { CircuitId } from "@/lib/circuits";
+
+export const PINNED_VK_HASHES: Partial<
+  Record<CircuitId, Record<string, string>>
+> = {};
@@ -19,21 +19,91 @@
  
  */
 
-import { Noir, type InputMap } from "@noir-lang/noir_js";
-import { BarretenbergBackend } from "@noir-lang/backend_barretenberg";
+import { decodeBase64, keccak256 } from "ethers";
+import {
+  Noir,
+  type CompiledCircuit,
+  type InputMap,
+} from "@noir-lang/noir_js";
+import type { UltraHonkBackend } from "@aztec/bb.js";
+import {
+  BIOMARKERS,
+  evaluateRule,
+  collectThresholdPredicates,
+  collectThresholds,
+  describeThresholdKey,
+  toCircuitUnits,
+  type Biomarker,
+  type BiomarkerSeries,
+  type BiomarkerValues,
+  type ClaimRule,
+  type DatedReading,
+  type PredicateOutcome,
+} from "@/lib/claim-rules";
+import {
+  MAX_READINGS,
+  computeLabPubHash,
+  computeNullifier,
+  computeReadingsHash,
+  fieldsEqual,
+} from "@/lib/pedersen";
+import {
+  UNTRUSTED_DEMO_KEY,
+  deriveLabPublicKey,
+  generateSalt,
+  signDataHash,
+  verifyLabSignature,
+  type LabPublicKey,
+  type LabSignature,
+} from "@/lib/lab-signer";
+import type { OracleReading } from "@/lib/threshold-oracle";
+import { loadCircuitArtifact } from "@/lib/artifact-cache";
+import {
+  CIRCUITS,
+  REPORT_FIELDS,
+  computeReportHash,
+  encodeThreshold,
+  getPinnedVkHash,
+  ruleMatchesCircuit,
+  thresholdKey,
+  toReportInput,
+  type CircuitId,
+} from "@/lib/circuits";
+import {
+  withDerivedMarkers,
+  type PatientDetails,
+} from "@/lib/derived-markers";
+import { isOracleMarker } from "@/lib/threshold-oracle";
 
 /* ── Public Types ─────────────────────────────────────────── */
 
 export interface WitnessInput {
-  sugar: number;
-  cholesterol: number;
-  bloodPressureSystolic: number;
-  bloodPressureDiastolic: number;
-  hemoglobin: number;
-  thresholdSugar: number;
-  thresholdCholesterol: number;
-  labSecret?: string;
+  /** Measured values of the signed report, in BIOMARKERS units. */
+  values: BiomarkerValues;
+  /** Age and sex, also signed; derived markers need them. */
+  patient: PatientDetails;
+  /** Dated readings, in the order the lab committed to them. */
+  series?: BiomarkerSeries;
+  circuit: CircuitId;
+  rule: ClaimRule;
+  /**
+   * Lab key and signature from a signed report (see lab-signer).
+   * For series circuits, the signature over the readings.
+   */
+  labPublicKey?: LabPublicKey;
+  signature?: LabSignature;
+  /** Lab identity the report claims; checked against `labPublicKey`. */
   labPubHash?: string;
+  /** Salt the lab committed with the values; see generateSalt. */
+  salt?: string;
+  /** Commitment from the signed report; checked against the values. */
+  dataHash?: string;
+  /** Live oracle thresholds the rule was parameterized with. */
+  oracle?: OracleReading | null;
+  /** What the report is claimed for — see nullifierScope. */
+  scope: string;
+  /** Report values to reveal as public inputs; none by default. */
+  disclose?: Biomarker[];
 }
 
 export interface GeneratedProof {
@@ -41,72 +111,164 @@ export interface GeneratedProof {
   publicSignals: string[];
 }
 
-export interface CircuitArtifacts {
-  wasmPath?: string;
-  zkeyPath?: string;
-  acirPath?: string;
-  vkeyPath?: string;
+/** Stages of a proving job, in order. */
+export type ProvePhase = "artifact" | "witness" | "proving" | "vk";
+
+export interface ProveOptions {
+  onPhase?: (phase: ProvePhase) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * "real" proofs come from the Noir backend. "simulated" ones are
+ * random bytes from the stand-in prover, used when a circuit's
+ * artifact is missing — they prove nothing and are labelled so.
+ */
+export type ProofMode = "real" | "simulated";
+
+/** Read from the compiled artifact; unknown for simulated proofs. */
+export interface CircuitMetrics {
+  noirVersion: string;
+  acirHash: string; // keccak256 of the artifact's bytecode
+  gateCount: number; // Barretenberg's exact circuit size
+}
+
+export interface ProveResult extends GeneratedProof {
+  verificationKey: string;
+  mode: ProofMode;
+  circuitVersion: string;
+  circuitMetrics: CircuitMetrics | null;
+  provingTimeMs: number; // witness solve + proof, excluding loading
 }
 
 /**
- * Detailed simulation result — tells the UI exactly which
- * conditions the patient qualifies for.
+ * Detailed eligibility result — tells the UI exactly which
+ * conditions the patient qualifies for under the claim rule.
  */
 export interface ClaimEligibility {
-  sugarQualifies: boolean;
-  cholesterolQualifies: boolean;
-  bpQualifies: boolean;
+  ruleId: string;
   overallQualifies: boolean;
-  sugarValue: number;
-  cholesterolValue: number;
-  bpSystolicValue: number;
-  sugarThreshold: number;
-  cholesterolThreshold: number;
-  bpThreshold: number;
+  outcomes: PredicateOutcome[];
+  thresholds: Record<string, number>;
   qualifiedConditions: string[];
   failedConditions: string[];
 }
 
 /* ── Module-level Singletons ──────────────────────────────── */
 
-let noir: Noir | null = null;
-let backend: BarretenbergBackend | null = null;
-let isInitialized = false;
-let useRealCircuit = false;
+interface LoadedCircuit {
+  noir: Noir | null;
+  backend: UltraHonkBackend | null;
+  useRealCircuit: boolean;
+  metrics: CircuitMetrics | null;
+}
+
+const loadedCircuits = new Map<CircuitId, LoadedCircuit>();
+
+const SIMULATED: LoadedCircuit = {
+  noir: null,
+  backend: null,
+  useRealCircuit: false,
+  metrics: null,
+};
+
+function getLoaded(circuitId: CircuitId): LoadedCircuit {
+  return loadedCircuits.get(circuitId) ?? SIMULATED;
+}
+
+/** How proofs for a circuit are produced once it is initialized. */
+export function getProofMode(circuitId: CircuitId): ProofMode {
+  return getLoaded(circuitId).useRealCircuit ? "real" : "simulated";
+}
 
 /* ── 1. Initialize ────────────────────────────────────────── */
 
+/**
+ * Load a compiled circuit. Each claim type has its own circuit,
+ * so artifacts are loaded (and cached) per circuit id. Callers
+ * without fetch access to the app (the CLI) pass the artifact in.
+ *
+ * A circuit version without a pinned verification key proves in
+ * simulation: no verifier could check its real proofs.
+ */
 export async function initializeCircuit(
-  _artifacts?: CircuitArtifacts,
+  circuitId: CircuitId = "medical_proof",
+  artifact?: CompiledCircuit,
 ): Promise<void> {
-  if (isInitialized) return;
+  if (loadedCircuits.has(circuitId)) return;
 
-  try {
-    const { Noir } = await import("@noir-lang/noir_js");
-    const { BarretenbergBackend } = await import(
-      "@noir-lang/backend_barretenberg"
-    );
-
-    const circuitModule = await fetch("/circuits/medical_proof.json").then(
-      (r) => r.json(),
+  const { version } = CIRCUITS[circuitId];
+  if (!getPinnedVkHash(circuitId, version)) {
+    console.warn(
+      `[ZKP Engine] No verification key is pinned for ${circuitId} v${version} — its proofs will be SIMULATED.`,
     );
+    loadedCircuits.set(circuitId, SIMULATED);
+    return;
+  }
 
-    backend = new BarretenbergBackend(circuitModule);
-    noir = new Noir(circuitModule);
-
-    useRealCircuit = true;
-    isInitialized = true;
+  try {
+    const { Noir } = await import("@noir-lang/noir_js");
+    const { Barretenberg, UltraHonkBackend } = await import("@aztec/bb.js");
+
+    const circuitModule =
+      artifact ?? (await loadCircuitArtifact(circuitId));
+
+    loadedCircuits.set(circuitId, {
+      backend: new UltraHonkBackend(
+        circuitModule.bytecode,
+        await Barretenberg.initSingleton(),
+      ),
+      noir: new Noir(circuitModule),
+      useRealCircuit: true,
+      metrics: await readCircuitMetrics(circuitModule),
+    });
   } catch (err) {
     console.warn(
-      "[ZKP Engine] Noir packages not found or circuit missing, using simulation.",
+      `[ZKP Engine] Noir packages not found or circuit "${circuitId}" missing — proofs for it will be SIMULATED.`,
       err,
     );
-    useRealCircuit = false;
-    isInitialized = true;
+    loadedCircuits.set(circuitId, SIMULATED);
     await new Promise((r) => setTimeout(r, 800));
   }
 }
 
+/**
+ * Metrics of a `nargo compile` artifact. The gate count comes from
+ * Barretenberg itself, so it is what proving actually costs.
+ */
+export async function readCircuitMetrics(
+  artifact: CompiledCircuit & { noir_version?: string },
+): Promise<CircuitMetrics> {
+  const bytecode = decodeBase64(artifact.bytecode);
+  const acir = await gunzip(bytecode);
+
+  // The async API: bb.js's native sync backend aborts on messages
+  // the size of a real circuit.
+  const { Barretenberg } = await import("@aztec/bb.js");
+  const bb = await Barretenberg.initSingleton();
+  const { numGates: gateCount } = await bb.circuitStats({
+    circuit: {
+      name: "",
+      bytecode: acir,
+      verificationKey: new Uint8Array(0),
+    },
+    includeGatesPerOpcode: false,
+    // UltraHonkBackend's defaults, so this is the circuit it proves
+    settings: {
+      ipaAccumulation: false,
+      oracleHashType: "poseidon2",
+      disableZk: false,
+      optimizedSolidityVerifier: false,
+    },
+  });
+
+  return {
+    noirVersion: artifact.noir_version ?? "unknown",
+    acirHash: keccak256(bytecode),
+    gateCount,
+  };
+}
+
 /* ── 2. Generate Witness ──────────────────────────────────── */
 
 /**
@@ -119,123 +281,265 @@ export async function initializeCircuit(
 export async function generateWitness(
   inputs: WitnessInput,
 ): Promise<Record<string, any>> {
-  const BP_THRESHOLD = 140;
-
-  const circuitInputs = {
-    sugar: inputs.sugar.toString(),
-    cholesterol: inputs.cholesterol.toString(),
-    bp_systolic: inputs.bloodPressureSystolic.toString(),
-    lab_secret: inputs.labSecret || "12345",
-    threshold_sugar: inputs.thresholdSugar.toString(),
-    threshold_cholesterol: inputs.thresholdCholesterol.toString(),
-    threshold_bp: BP_THRESHOLD.toString(),
-    lab_pub_hash:
-      inputs.labPubHash ||
-      "0x0000000000000000000000000000000000000000000000000000000000000000",
-    data_hash:
-      "0x0000000000000000000000000000000000000000000000000000000000000000",
-    result: "1",
-  };
+  const circuit = CIRCUITS[inputs.circuit];
 
-  if (useRealCircuit && noir) {
-    return { ...circuitInputs, _isReal: true };
+  if (!ruleMatchesCircuit(inputs.rule, inputs.circuit)) {
+    throw new Error(
+      `Claim rule "${inputs.rule.id}" does not match the predicate enforced by circuit "${circuit.id}".`,
+    );
   }
 
-  // ── Simulation fallback ──
-  await new Promise((r) => setTimeout(r, 1000));
-
-  /**
-   * INSURANCE CLAIM LOGIC:
-   * Patient qualifies if ANY condition exceeds threshold.
-   *
-   *   sugar ≥ 126       → Diabetic range         → qualifies
-   *   cholesterol ≥ 200 → High cholesterol        → qualifies
-   *   bp_systolic ≥ 140 → Hypertension            → qualifies
-   *
-   * At least ONE must be met for a valid claim.
-   */
-  const sugarQualifies = inputs.sugar >= inputs.thresholdSugar;
-  const cholesterolQualifies =
-    inputs.cholesterol >= inputs.thresholdCholesterol;
-  const bpQualifies = inputs.bloodPressureSystolic >= BP_THRESHOLD;
-
-  // Patient qualifies if AT LEAST ONE condition is met
-  const overallQualifies =
-    sugarQualifies || cholesterolQualifies || bpQualifies;
-
-  const qualifiedConditions: string[] = [];
-  const failedConditions: string[] = [];
+  // Thresholds are public inputs the insurer checks against the
+  // oracle, so a stale or mismatched oracle reading blocks the proof
+  if (inputs.oracle) {
+    if (inputs.oracle.stale) {
+      throw new Error(
+        `Oracle thresholds were last updated ${new Date(
+          inputs.oracle.updatedAt,
+        ).toISOString()} and are stale. Proof generation is blocked until the oracle is refreshed.`,
+      );
+    }
+    for (const p of collectThresholdPredicates(inputs.rule.root)) {
+      if (!isOracleMarker(p.marker)) continue;
+      const live = inputs.oracle.thresholds[p.marker];
+      if (p.threshold !== live) {
+        throw new Error(
+          `Claim rule "${inputs.rule.id}" uses ${p.marker} threshold ${p.threshold}, but the oracle reports ${live}.`,
+        );
+      }
+    }
+  }
 
-  if (sugarQualifies) {
-    qualifiedConditions.push(
-      `Blood Sugar: ${inputs.sugar} mg/dL ≥ ${inputs.thresholdSugar} mg/dL (Diabetic)`,
+  // Only a lab can vouch for a report: a real proof needs its
+  // signature. Simulated demos sign with a key nobody trusts, and
+  // salt the report as a lab would.
+  const unsigned = !inputs.labPublicKey || !inputs.signature;
+  if (unsigned && getProofMode(inputs.circuit) === "real") {
+    throw new Error(
+      "The report is not signed by a lab. Upload the report as the lab signed it.",
     );
-  } else {
-    failedConditions.push(
-      `Blood Sugar: ${inputs.sugar} mg/dL < ${inputs.thresholdSugar} mg/dL (Normal)`,
+  }
+  const salt = inputs.salt ?? (unsigned ? generateSalt() : undefined);
+  if (salt === undefined) {
+    throw new Error(
+      "The signed report has no salt. Upload the report as the lab signed it.",
     );
   }
 
-  if (cholesterolQualifies) {
-    qualifiedConditions.push(
-      `Cholesterol: ${inputs.cholesterol} mg/dL ≥ ${inputs.thresholdCholesterol} mg/dL (High)`,
-    );
-  } else {
-    failedConditions.push(
-      `Cholesterol: ${inputs.cholesterol} mg/dL < ${inputs.thresholdCholesterol} mg/dL (Normal)`,
-    );
+  // Private inputs are the full lab-signed report, or for series
+  // circuits its signed readings, with the lab's salt. Public
+  // inputs follow the circuit's schema.
+  const readings = circuit.readings
+    ? (inputs.series?.[circuit.readings] ?? [])
+    : null;
+  const circuitInputs: Record<
+    string,
+    string | string[] | Record<string, string>
+  > = readings
+    ? { ...seriesInputs(readings), salt }
+    : { report: toReportInput(inputs.values, inputs.patient, salt) };
+  // The rule may test derived markers, which the circuit computes
+  const values = withDerivedMarkers(inputs.values, inputs.patient);
+
+  const thresholds = collectThresholds(inputs.rule);
+  for (const spec of circuit.publicInputs) {
+    if (spec.kind === "threshold") {
+      const threshold = thresholds[thresholdKey(spec)];
+      if (threshold === undefined) {
+        throw new Error(
+          `Claim rule "${inputs.rule.id}" does not define the ${describeThresholdKey(
+            thresholdKey(spec),
+          )} threshold required by circuit "${circuit.id}".`,
+        );
+      }
+      circuitInputs[spec.name] = String(encodeThreshold(spec, threshold));
+    } else if (spec.kind === "result") {
+      circuitInputs[spec.name] = "1";
+    }
   }
 
-  if (bpQualifies) {
-    qualifiedConditions.push(
-      `BP Systolic: ${inputs.bloodPressureSystolic} mmHg ≥ ${BP_THRESHOLD} mmHg (Hypertension)`,
+  // Report circuits publish a flag and a value for every field of
+  // the report; values not flagged are published as zero
+  const disclose = inputs.disclose ?? [];
+  if (readings && disclose.length) {
+    throw new Error(`Circuit "${circuit.id}" cannot disclose values.`);
+  }
+  for (const marker of disclose) {
+    if (!(REPORT_FIELDS as Biomarker[]).includes(marker)) {
+      throw new Error(`${marker} is not a value of the signed report.`);
+    }
+    if (inputs.values[marker] === undefined) {
+      throw new Error(
+        `The report has no ${BIOMARKERS[marker].label} to disclose.`,
+      );
+    }
+  }
+  if (!readings) {
+    circuitInputs.disclose = REPORT_FIELDS.map((marker) =>
+      disclose.includes(marker) ? "1" : "0",
     );
-  } else {
-    failedConditions.push(
-      `BP Systolic: ${inputs.bloodPressureSystolic} mmHg < ${BP_THRESHOLD} mmHg (Normal)`,
+    circuitInputs.disclosed = REPORT_FIELDS.map((marker) => {
+      const value = inputs.values[marker];
+      return disclose.includes(marker) && value !== undefined
+        ? String(toCircuitUnits(marker, value))
+        : "0";
+    });
+  }
+
+  /**
+   * The same checks the circuit runs on the report: the values
+   * open data_hash, and the lab behind lab_pub_hash signed it.
+   * A witness the circuit would reject fails here first, with
+   * the circuit's own messages.
+   */
+  const dataHash = readings
+    ? await computeReadingsHash(readings, salt)
+    : await computeReportHash(inputs.values, inputs.patient, salt);
+  if (inputs.dataHash && !fieldsEqual(inputs.dataHash, dataHash)) {
+    throw new Error("Data integrity check failed");
+  }
+
+  let { labPublicKey, signature } = inputs;
+  if (!labPublicKey || !signature) {
+    console.warn(
+      "[ZKP Engine] Report is unsigned, signing with the untrusted demo key.",
     );
+    labPublicKey = deriveLabPublicKey(UNTRUSTED_DEMO_KEY);
+    signature = signDataHash(UNTRUSTED_DEMO_KEY, dataHash);
+  }
+
+  const labPubHash = await computeLabPubHash(labPublicKey.x, labPublicKey.y);
+  if (inputs.labPubHash && !fieldsEqual(inputs.labPubHash, labPubHash)) {
+    throw new Error("Lab public key does not match lab_pub_hash");
   }
+  if (!verifyLabSignature(labPublicKey, dataHash, signature)) {
+    throw new Error("Lab signature verification failed");
+  }
+
+  circuitInputs.lab_signature = {
+    pub_key_x: labPublicKey.x,
+    pub_key_y: labPublicKey.y,
+    s: signature.s,
+    r8_x: signature.r8.x,
+    r8_y: signature.r8.y,
+  };
+  circuitInputs.lab_pub_hash = labPubHash;
+  circuitInputs.data_hash = dataHash;
+  circuitInputs.scope = inputs.scope;
+  circuitInputs.nullifier = await computeNullifier(
+    labPubHash,
+    dataHash,
+    salt,
+    inputs.scope,
+  );
+
+  /**
+   * INSURANCE CLAIM LOGIC:
+   * The circuit's claim rule decides which combination of biomarker
+   * predicates must hold (see lib/claim-rules.ts). It is evaluated
+   * in BOTH modes, so simulation and the real backend agree on
+   * eligibility for every report.
+   */
+  const evaluation = evaluateRule(inputs.rule, values, inputs.series);
 
   const eligibility: ClaimEligibility = {
-    sugarQualifies,
-    cholesterolQualifies,
-    bpQualifies,
-    overallQualifies,
-    sugarValue: inputs.sugar,
-    cholesterolValue: inputs.cholesterol,
-    bpSystolicValue: inputs.bloodPressureSystolic,
-    sugarThreshold: inputs.thresholdSugar,
-    cholesterolThreshold: inputs.thresholdCholesterol,
-    bpThreshold: BP_THRESHOLD,
-    qualifiedConditions,
-    failedConditions,
+    ruleId: inputs.rule.id,
+    overallQualifies: evaluation.passed,
+    outcomes: evaluation.outcomes,
+    thresholds,
+    qualifiedConditions: evaluation.outcomes
+      .filter((o) => o.passed)
+      .map((o) => o.description),
+    failedConditions: evaluation.outcomes
+      .filter((o) => !o.passed)
+      .map((o) => o.description),
   };
 
   return {
     ...circuitInputs,
-    _isReal: false,
-    _constraintsSatisfied: overallQualifies,
+    _circuit: inputs.circuit,
+    _constraintsSatisfied: evaluation.passed,
     _eligibility: eligibility,
   };
 }
 
+/**
+ * Private inputs of a series circuit: values and day numbers
+ * padded with zeros to MAX_READINGS, and how many are in use.
+ * The circuit counts readings in the committed order, so they
+ * must already be oldest first.
+ */
+function seriesInputs(
+  readings: DatedReading[],
+): Record<string, string | string[]> {
+  if (readings.length > MAX_READINGS) {
+    throw new Error(
+      `A series holds at most ${MAX_READINGS} readings, got ${readings.length}.`,
+    );
+  }
+  if (readings.some((r, i) => i > 0 && r.day < readings[i - 1].day)) {
+    throw new Error("Readings must be in date order");
+  }
+  const pad = (values: number[]) =>
+    Array.from({ length: MAX_READINGS }, (_, i) => String(values[i] ?? 0));
+  return {
+    readings: pad(readings.map((r) => r.value)),
+    reading_days: pad(readings.map((r) => r.day)),
+    reading_count: String(readings.length),
+  };
+}
+
 /* ── 3. Generate Proof ────────────────────────────────────── */
 
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new Error("Proof generation cancelled");
+}
+
 /**
  * Generate ZK proof that the patient qualifies for insurance claim.
  *
  * The proof proves the medical values exceed thresholds WITHOUT
  * revealing the actual values. Only the thresholds (public inputs)
  * are visible to the verifier (insurance company).
+ *
+ * The circuit must already be initialized; reports the `witness`
+ * and `proving` phases.
  */
 export async function generateProof(
   witness: Record<string, any>,
+  { onPhase, signal }: ProveOptions = {},
 ): Promise<GeneratedProof> {
-  if (useRealCircuit && noir && backend) {
+  // Same rule, same outcome: refuse before touching either backend
+  if (witness._constraintsSatisfied === false) {
+    const elig = witness._eligibility as ClaimEligibility | undefined;
+
+    let errorMsg =
+      "Patient does not qualify for insurance claim — the medical values do not satisfy the claim rule.";
+
+    if (elig && elig.failedConditions.length > 0) {
+      errorMsg += `\n\nConditions not met under rule "${elig.ruleId}":`;
+      elig.failedConditions.forEach((cond) => {
+        errorMsg += `\n  • ${cond}`;
+      });
+      errorMsg +=
+        "\n\nThe patient must satisfy the claim rule to generate a valid claim proof.";
+    }
+
+    throw new Error(errorMsg);
+  }
+
+  const { noir, backend } = getLoaded(witness._circuit as CircuitId);
+
+  if (noir && backend) {
     try {
+      throwIfAborted(signal);
+      onPhase?.("witness");
       const { witness: solvedWitness } = await noir.execute(
-        witness as InputMap,
+        toInputMap(witness),
       );
+
+      throwIfAborted(signal);
+      onPhase?.("proving");
       const proofData = await backend.generateProof(solvedWitness);
 
       return {
@@ -252,24 +556,12 @@ export async function generateProof(
 
   // ── Simulation fallback ──
 
-  if (witness._constraintsSatisfied === false) {
-    const elig = witness._eligibility as ClaimEligibility | undefined;
-
-    let errorMsg =
-      "Patient does not qualify for insurance claim — no medical condition exceeds the required thresholds.";
-
-    if (elig && elig.failedConditions.length > 0) {
-      errorMsg += "\n\nAll values are in NORMAL range:";
-      elig.failedConditions.forEach((cond) => {
-        errorMsg += `\n  • ${cond}`;
-      });
-      errorMsg +=
-        "\n\nThe patient must have at least one condition above the threshold to generate a valid claim proof.";
-    }
-
-    throw new Error(errorMsg);
-  }
+  throwIfAborted(signal);
+  onPhase?.("witness");
+  await new Promise((r) => setTimeout(r, 1000));
 
+  throwIfAborted(signal);
+  onPhase?.("proving");
   await new Promise((r) => setTimeout(r, 2500));
 
   // Generate a realistic-looking simulated proof
@@ -282,45 +574,83 @@ export async function generateProof(
     }
   }
 
+  // Same order as the real backend: the circuit's public ABI
+  const circuit = CIRCUITS[witness._circuit as CircuitId];
+
   return {
     proof: simulatedProof,
-    publicSignals: [
-      witness.threshold_sugar,
-      witness.threshold_cholesterol,
-      witness.threshold_bp,
-      "1", // result = patient qualifies
-    ],
+    publicSignals: circuit.publicInputs.map((spec) =>
+      spec.kind === "disclosure"
+        ? witness[spec.name][REPORT_FIELDS.indexOf(spec.marker)]
+        : witness[spec.name],
+    ),
+  };
+}
+
+/**
+ * The whole proving job for a witness: load the circuit, solve,
+ * prove and extract the verification key. This is what the prover
+ * worker runs (see lib/prover-client).
+ */
+export async function proveWitness(
+  witness: Record<string, any>,
+  { onPhase, signal }: ProveOptions = {},
+): Promise<ProveResult> {
+  const circuitId = witness._circuit as CircuitId;
+
+  throwIfAborted(signal);
+  onPhase?.("artifact");
+  await initializeCircuit(circuitId);
+
+  const t0 = performance.now();
+  const generated = await generateProof(witness, { onPhase, signal });
+  const provingTimeMs = Math.round(performance.now() - t0);
+
+  throwIfAborted(signal);
+  onPhase?.("vk");
+  const verificationKey = await generateVerificationKey(circuitId);
+
+  return {
+    ...generated,
+    verificationKey,
+    mode: getProofMode(circuitId),
+    circuitVersion: CIRCUITS[circuitId].version,
+    circuitMetrics: getLoaded(circuitId).metrics,
+    provingTimeMs,
   };
 }
 
-/* ── 4. Generate Verification Key ─────────────────────────── */
+/* ── 4. Verification Key ──────────────────────────────────── */
+
+/** Marks a "key" from a simulated proof — there is no real VK. */
+export const SIMULATED_VK_PREFIX = "vk_sim_";
+
+export function isSimulatedVerificationKey(verificationKey: string): boolean {
+  return verificationKey.startsWith(SIMULATED_VK_PREFIX);
+}
+
+/** Keccak-256 of a circuit's raw verification key. */
+export function hashVerificationKey(vk: Uint8Array): string {
+  return keccak256(vk);
+}
 
 /**
- * Generate / extract a verification key.
- *
- * The insurance company uses this to verify the proof
- * WITHOUT seeing any medical data.
+ * The circuit's verification key, as the fingerprint carried in the
+ * bundle. The insurer pins the same fingerprint per circuit version
+ * (see lib/vk-hashes), so the bundle states which key it needs and
+ * the insurer decides whether that key is trusted.
  */
-export async function generateVerificationKey(): Promise<string> {
-  if (useRealCircuit && backend) {
-    try {
-      const vkBytes = await backend.getVerificationKey();
-      const snippet = Array.from(vkBytes.slice(0, 32))
-        .map((b) => b.toString(16).padStart(2, "0"))
-        .join("");
+export async function generateVerificationKey(
+  circuitId: CircuitId,
+): Promise<string> {
+  const { backend } = getLoaded(circuitId);
 
-      return `vk_noir_${snippet}`;
-    } catch (err) {
-      console.warn(
-        "[ZKP Engine] Could not extract VK from backend, using hash fallback.",
-        err,
-      );
-      return `vk_noir_${generateRandomHex(32).slice(2)}`;
-    }
+  if (backend) {
+    return hashVerificationKey(await backend.getVerificationKey());
   }
 
   // Simulation mode
-  return `vk_sim_${generateRandomHex(32).slice(2)}`;
+  return `${SIMULATED_VK_PREFIX}${circuitId}`;
 }
 
 /* ── 5. Verify Proof ──────────────────────────────────────── */
@@ -331,13 +661,30 @@ export async function generateVerificationKey(): Promise<string> {
  * This ONLY checks that the proof is mathematically valid.
  * It does NOT reveal what the actual sugar/cholesterol values are.
  * It only confirms: "yes, the values exceed the thresholds."
+ *
+ * With `verificationKey`, the proof is also rejected unless the
+ * loaded circuit's key has that fingerprint.
+ *
+ * Without a backend only simulated proofs "verify", and only when
+ * their simulated key is given: a real proof is never accepted by
+ * a verifier that cannot check it.
  */
 export async function verifyProof(
   proof: GeneratedProof,
-  _verificationKey?: string,
+  circuitId: CircuitId,
+  verificationKey?: string,
 ): Promise<boolean> {
-  if (useRealCircuit && backend) {
+  const { backend } = getLoaded(circuitId);
+
+  if (backend) {
     try {
+      if (verificationKey !== undefined) {
+        const loaded = hashVerificationKey(await backend.getVerificationKey());
+        if (loaded.toLowerCase() !== verificationKey.toLowerCase()) {
+          return false;
+        }
+      }
+
       const isValid = await backend.verifyProof({
         proof: proof.proof,
         publicInputs: proof.publicSignals,
@@ -352,29 +699,25 @@ export async function verifyProof(
 
   // Simulation mode
   await new Promise((r) => setTimeout(r, 1000));
-  return true;
+  return (
+    verificationKey !== undefined &&
+    verificationKey === `${SIMULATED_VK_PREFIX}${circuitId}`
+  );
 }
 
 /* ── Helpers ──────────────────────────────────────────────── */
 
-function generateRandomHex(bytes: number): string {
-  const chars = "0123456789abcdef";
-  let hex = "0x";
-  for (let i = 0; i < bytes * 2; i++) {
-    hex += chars[Math.floor(Math.random() * 16)];
-  }
-  return hex;
+/** Strip engine bookkeeping (`_circuit`, `_eligibility`, ...) before execution. */
+function toInputMap(witness: Record<string, any>): InputMap {
+  return Object.fromEntries(
+    Object.entries(witness).filter(([key]) => !key.startsWith("_")),
+  ) as InputMap;
 }
 
-/**
- * Convert a Uint8Array proof to a hex string.
- * This is the "proof code" that the patient gives to the insurance company.
- */
-export function uint8ArrayToHex(arr: Uint8Array): string {
-  return (
-    "0x" +
-    Array.from(arr)
-      .map((b) => b.toString(16).padStart(2, "0"))
-      .join("")
-  );
+/** Artifacts store ACIR gzipped; Barretenberg wants it raw. */
+async function gunzip(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
 }
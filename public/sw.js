@@ -0,0 +1,110 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Service Worker — offline app shell for labs and insurers
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Registered by components/service-worker-registration in
+ * production builds. On install it caches `/` and `/verify` along
+ * with every script and stylesheet those pages load, and every
+ * build asset in /precache-manifest.json: the prover worker and
+ * the Noir and Barretenberg WASM load only once a proof starts,
+ * so the pages' HTML does not name them. `npm run build` writes
+ * the manifest (scripts/precache-manifest.mjs).
+ *
+ *   pages          network first, cached copy when offline
+ *   /_next/static  cache first (file names are content hashed)
+ *   /circuits      left to lib/artifact-cache, which checks hashes
+ *
+ * Bump SHELL_VERSION to drop everything cached by older builds.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+const SHELL_VERSION = "v1";
+const SHELL_CACHE = `zkhealth-shell-${SHELL_VERSION}`;
+const PAGES = ["/", "/verify"];
+const MANIFEST = "/precache-manifest.json";
+
+/** Script and stylesheet URLs referenced by a page's HTML. */
+function assetsOf(html) {
+  const urls = html.match(/\/_next\/static\/[^"'\s)]+/g) ?? [];
+  return [...new Set(urls)];
+}
+
+/** Build assets no page loads up front, listed at build time. */
+async function lazyAssets() {
+  const response = await fetch(MANIFEST, { cache: "no-cache" });
+  if (!response.ok) throw new Error(`Could not load ${MANIFEST}`);
+  return (await response.json()).assets;
+}
+
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const assets = new Set(await lazyAssets());
+  for (const page of PAGES) {
+    const response = await fetch(page, { cache: "no-cache" });
+    if (!response.ok) throw new Error(`Could not cache ${page}`);
+    await cache.put(page, response.clone());
+    for (const url of assetsOf(await response.text())) assets.add(url);
+  }
+  await cache.addAll([...assets]);
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      for (const name of await caches.keys()) {
+        if (name.startsWith("zkhealth-shell-") && name !== SHELL_CACHE) {
+          await caches.delete(name);
+        }
+      }
+      await self.clients.claim();
+    })(),
+  );
+});
+
+/* ── Strategies ───────────────────────────────────────────── */
+
+async function networkFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      // Pages are stored without their query, e.g. /verify?data=…
+      const url = new URL(request.url);
+      await cache.put(url.pathname, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request));
+  }
+});
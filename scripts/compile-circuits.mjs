@@ -0,0 +1,27 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Compile circuits/<id> with noir_wasm
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * The same compiler noir_js runs in, so the integration tests can
+ * build the artifact they prove with instead of depending on a
+ * `nargo compile` someone ran earlier. Every dependency is a path
+ * in the repo — ../zkhealth and the eddsa and poseidon libraries
+ * vendored under circuits/vendor — so compiling needs no network.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { join } from "node:path";
+import { compile, createFileManager } from "@noir-lang/noir_wasm";
+import { ROOT } from "./paths.mjs";
+
+/**
+ * @param {string} circuitId directory under circuits/
+ * @returns {Promise<import("@noir-lang/noir_js").CompiledCircuit>}
+ *          the artifact `nargo compile` writes to target/
+ */
+export async function compileCircuit(circuitId) {
+  const files = createFileManager(join(ROOT, "circuits", circuitId));
+  const { program } = await compile(files);
+  return program;
+}
@@ -0,0 +1,76 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Compile contracts/*.sol with solc-js
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Shared by `generate-abi.mjs` (ABIs for the frontend) and the
+ * local-node integration test (bytecode to deploy). Imports such
+ * as `@chainlink/contracts/...` resolve from node_modules.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { readFileSync, readdirSync } from "node:fs";
+import { createRequire } from "node:module";
+import { join } from "node:path";
+import { ROOT } from "./paths.mjs";
+
+const require = createRequire(import.meta.url);
+const solc = require("solc");
+
+const CONTRACTS_DIR = join(ROOT, "contracts");
+
+function findImport(path) {
+  try {
+    return { contents: readFileSync(require.resolve(path), "utf8") };
+  } catch {
+    return { error: `File not found: ${path}` };
+  }
+}
+
+/**
+ * @returns {Record<string, { abi: unknown[]; bytecode: string; source: string }>}
+ *          keyed by contract name
+ */
+export function compileContracts() {
+  const sources = Object.fromEntries(
+    readdirSync(CONTRACTS_DIR)
+      .filter((f) => f.endsWith(".sol"))
+      .map((f) => [
+        `contracts/${f}`,
+        { content: readFileSync(join(CONTRACTS_DIR, f), "utf8") },
+      ]),
+  );
+
+  const input = {
+    language: "Solidity",
+    sources,
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      outputSelection: { "*": { "*": ["abi", "evm.bytecode.object"] } },
+    },
+  };
+
+  const output = JSON.parse(
+    solc.compile(JSON.stringify(input), { import: findImport }),
+  );
+
+  const errors = (output.errors ?? []).filter((e) => e.severity === "error");
+  if (errors.length > 0) {
+    throw new Error(errors.map((e) => e.formattedMessage).join("\n"));
+  }
+
+  const contracts = {};
+  for (const [source, byName] of Object.entries(output.contracts)) {
+    if (!source.startsWith("contracts/")) continue;
+    for (const [name, artifact] of Object.entries(byName)) {
+      // Interfaces have no bytecode and are re-declared per file
+      if (!artifact.evm.bytecode.object) continue;
+      contracts[name] = {
+        abi: artifact.abi,
+        bytecode: "0x" + artifact.evm.bytecode.object,
+        source,
+      };
+    }
+  }
+  return contracts;
+}
@@ -0,0 +1,82 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Deploy the contracts to a local devnet
+ * ═══════════════════════════════════════════════════════════════
+ *
+ *   anvil                      # or: npx hardhat node
+ *   npm run deploy:local
+ *
+ * Deploys the mock verifier, ClaimManager and the threshold oracle
+ * from the node's first account and registers the demo labs. The
+ * oracle starts with its default thresholds; there is no Chainlink
+ * router locally, so update them with setThresholdsManual.
+ *
+ * On a fresh node the addresses match DEPLOYED_CONTRACTS.local, so
+ * running the app with NEXT_PUBLIC_NETWORK=local needs no further
+ * configuration.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { ethers } from "ethers";
+import { compileContracts } from "./compile-contracts.mjs";
+import { NETWORKS } from "@/lib/networks";
+import { DEMO_LABS } from "@/lib/lab-signer";
+
+const network = NETWORKS.local;
+
+async function main() {
+  const provider = new ethers.JsonRpcProvider(network.rpcUrl);
+  const signer = await provider.getSigner(0);
+  const artifacts = compileContracts();
+
+  async function deploy(name: string, ...args: unknown[]) {
+    const { abi, bytecode } = artifacts[name];
+    const factory = new ethers.ContractFactory(
+      abi as ethers.InterfaceAbi,
+      bytecode,
+      signer,
+    );
+    const contract = await factory.deploy(...args);
+    await contract.waitForDeployment();
+    return contract;
+  }
+
+  const verifier = await deploy("MockzkHealthVerifier");
+  const claimManager = await deploy(
+    "ClaimManager",
+    await verifier.getAddress(),
+  );
+  const thresholdOracle = await deploy(
+    "ChainlinkThresholdOracle",
+    await signer.getAddress(), // stand-in Functions router
+    ethers.ZeroHash,
+    0,
+    300_000,
+  );
+
+  for (const lab of DEMO_LABS) {
+    await (await claimManager.getFunction("registerLab")(lab.labPubHash)).wait();
+    console.log(`Registered ${lab.labId} (${lab.labPubHash})`);
+  }
+
+  const addresses = {
+    verifier: await verifier.getAddress(),
+    claimManager: await claimManager.getAddress(),
+    thresholdOracle: await thresholdOracle.getAddress(),
+  };
+  console.log(`\nDeployed on ${network.name} (${network.rpcUrl}):`);
+  console.log(addresses);
+
+  if (addresses.claimManager !== network.contracts.claimManager) {
+    console.log(
+      `\nNot a fresh node — run the app with\n  NEXT_PUBLIC_CLAIM_MANAGER_ADDRESS=${addresses.claimManager}\n  NEXT_PUBLIC_THRESHOLD_ORACLE_ADDRESS=${addresses.thresholdOracle}`,
+    );
+  }
+
+  provider.destroy();
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
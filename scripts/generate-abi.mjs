@@ -0,0 +1,49 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Generate lib/abi.ts from the Solidity sources
+ * ═══════════════════════════════════════════════════════════════
+ *
+ *   npm run generate:abi
+ *
+ * The frontend talks to the contracts only through these ABIs,
+ * so any change to contracts/*.sol must be followed by a rerun.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { compileContracts } from "./compile-contracts.mjs";
+import { ROOT } from "./paths.mjs";
+
+/** Exported constant name for each deployed contract. */
+const EXPORTS = {
+  ClaimManager: "CLAIM_MANAGER_ABI",
+  ChainlinkThresholdOracle: "THRESHOLD_ORACLE_ABI",
+  MockzkHealthVerifier: "VERIFIER_ABI",
+};
+
+function toTs(value) {
+  return JSON.stringify(value, null, 2).replace(/"(\w+)":/g, "$1:");
+}
+
+const contracts = compileContracts();
+
+let out = `/**
+ * ═══════════════════════════════════════════════════════════════
+ * Contract ABIs — GENERATED from contracts/*.sol, do not edit
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Regenerate with \`npm run generate:abi\` after changing a contract.
+ * ═══════════════════════════════════════════════════════════════
+ */
+`;
+
+for (const [name, exportName] of Object.entries(EXPORTS)) {
+  const contract = contracts[name];
+  if (!contract) throw new Error(`Contract ${name} not found in contracts/`);
+  out += `\n/** ${name} — ${contract.source} */\n`;
+  out += `export const ${exportName} = ${toTs(contract.abi)} as const;\n`;
+}
+
+writeFileSync(join(ROOT, "lib/abi.ts"), out);
+console.log(`Wrote lib/abi.ts (${Object.keys(EXPORTS).join(", ")})`);
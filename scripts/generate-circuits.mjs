@@ -0,0 +1,47 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Generate public/circuits/ from the Noir sources
+ * ═══════════════════════════════════════════════════════════════
+ *
+ *   npm run generate:circuits
+ *   npm run pin:vk
+ *
+ * Compiles every binary crate of the circuits/ workspace with
+ * noir_wasm and writes the artifact the app serves. Only what
+ * noir_js needs is kept: debug symbols and the file map name paths
+ * of this checkout, and the pinned hashes must not depend on where
+ * the repository was cloned. Any change to circuits/ must be
+ * followed by a rerun, a version bump in lib/circuits.ts and
+ * new pins.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { compileCircuit } from "./compile-circuits.mjs";
+import { ROOT } from "./paths.mjs";
+
+/** Workspace members whose Nargo.toml declares a binary. */
+function binaryCrates() {
+  const workspace = readFileSync(join(ROOT, "circuits/Nargo.toml"), "utf8");
+  const members = workspace.match(/members\s*=\s*\[([^\]]*)\]/);
+  if (!members) throw new Error("circuits/Nargo.toml lists no members");
+  return [...members[1].matchAll(/"([^"]+)"/g)]
+    .map(([, name]) => name)
+    .filter((name) => {
+      const manifest = join(ROOT, "circuits", name, "Nargo.toml");
+      return /^type\s*=\s*"bin"/m.test(readFileSync(manifest, "utf8"));
+    });
+}
+
+const outDir = join(ROOT, "public/circuits");
+mkdirSync(outDir, { recursive: true });
+
+for (const id of binaryCrates()) {
+  const { noir_version, hash, abi, bytecode } = await compileCircuit(id);
+  writeFileSync(
+    join(outDir, `${id}.json`),
+    JSON.stringify({ noir_version, hash, abi, bytecode }),
+  );
+  console.log(`Wrote public/circuits/${id}.json`);
+}
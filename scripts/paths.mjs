@@ -0,0 +1,14 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Repository paths for scripts and tests
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Kept apart from compile-contracts.mjs, which loads solc: the
+ * CLI and pin-vk only need to know where the repository is.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+export const ROOT = join(dirname(fileURLToPath(import.meta.url)), "..");
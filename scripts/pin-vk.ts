@@ -0,0 +1,89 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Pin the verification keys and artifacts of the compiled circuits
+ * ═══════════════════════════════════════════════════════════════
+ *
+ *   npm run generate:circuits
+ *   npm run pin:vk                # or: npm run pin:vk -- --artifacts
+ *
+ * Reads every circuit artifact from public/circuits/, extracts its
+ * verification key with Barretenberg and records the hash under
+ * the circuit's current version in lib/vk-hashes.ts. The SHA-256
+ * of the artifact itself goes to lib/artifact-hashes.ts, which the
+ * app checks every download against. Pins for other versions are
+ * left as they are.
+ *
+ * Extracting a key needs Barretenberg's CRS, which bb.js downloads
+ * from Aztec's CDN. With --artifacts only the artifacts are pinned,
+ * so they can be where that CDN cannot be reached.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { Barretenberg, UltraHonkBackend } from "@aztec/bb.js";
+import { ROOT } from "./paths.mjs";
+import { artifactIntegrity } from "@/lib/artifact-cache";
+import { PINNED_ARTIFACT_HASHES } from "@/lib/artifact-hashes";
+import { CIRCUITS, type CircuitDefinition } from "@/lib/circuits";
+import { hashVerificationKey } from "@/lib/zkp-engine";
+import { PINNED_VK_HASHES } from "@/lib/vk-hashes";
+
+type Pins = typeof PINNED_VK_HASHES;
+
+/** Record `hash` for the circuit's current version in `pins`. */
+function pin(pins: Pins, circuit: CircuitDefinition, hash: string) {
+  const previous = pins[circuit.id]?.[circuit.version];
+  if (previous && previous !== hash) {
+    throw new Error(
+      `${circuit.id} v${circuit.version} is already pinned to a different build — bump the circuit version in lib/circuits.ts.`,
+    );
+  }
+  pins[circuit.id] = { ...pins[circuit.id], [circuit.version]: hash };
+}
+
+/** Rewrite the pins object of a generated lib/ file. */
+function writePins(file: string, pins: Pins) {
+  const body = JSON.stringify(pins, null, 2).replace(/"(\w+)":/g, "$1:");
+  const source = readFileSync(join(ROOT, file), "utf8");
+  writeFileSync(
+    join(ROOT, file),
+    source.replace(/= \{[\s\S]*\};\n$/, `= ${body};\n`),
+  );
+}
+
+async function main() {
+  const artifactsOnly = process.argv.includes("--artifacts");
+  const vkPins = structuredClone(PINNED_VK_HASHES);
+  const artifactPins = structuredClone(PINNED_ARTIFACT_HASHES);
+  const api = artifactsOnly ? null : await Barretenberg.new();
+
+  for (const circuit of Object.values(CIRCUITS)) {
+    const path = join(ROOT, "public", circuit.artifactPath);
+    if (!existsSync(path)) {
+      console.log(`skip ${circuit.id}: ${path} not found`);
+      continue;
+    }
+
+    const bytes = readFileSync(path);
+    const integrity = await artifactIntegrity(bytes);
+    pin(artifactPins, circuit, integrity);
+    console.log(`${circuit.id} v${circuit.version}: ${integrity}`);
+    if (!api) continue;
+
+    const { bytecode } = JSON.parse(bytes.toString());
+    const backend = new UltraHonkBackend(bytecode, api);
+    const hash = hashVerificationKey(await backend.getVerificationKey());
+    pin(vkPins, circuit, hash);
+    console.log(`${circuit.id} v${circuit.version}: ${hash}`);
+  }
+  await api?.destroy();
+
+  writePins("lib/vk-hashes.ts", vkPins);
+  writePins("lib/artifact-hashes.ts", artifactPins);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,38 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * List the build's static assets for the service worker
+ * ═══════════════════════════════════════════════════════════════
+ *
+ *   npm run build   # runs this afterwards, as postbuild
+ *
+ * The prover worker and the Noir and Barretenberg WASM are chunks
+ * no page loads up front, so public/sw.js cannot find them in the
+ * HTML it caches. This writes every file under .next/static to
+ * public/precache-manifest.json, which the worker caches on
+ * install along with the pages.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { readdirSync, writeFileSync } from "node:fs";
+import { join, relative, sep } from "node:path";
+import { ROOT } from "./paths.mjs";
+
+const STATIC_DIR = join(ROOT, ".next/static");
+
+function filesUnder(dir) {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    return entry.isDirectory() ? filesUnder(path) : [path];
+  });
+}
+
+const assets = filesUnder(STATIC_DIR)
+  .map((file) => relative(STATIC_DIR, file).split(sep).join("/"))
+  .map((path) => `/_next/static/${path}`)
+  .sort();
+
+writeFileSync(
+  join(ROOT, "public/precache-manifest.json"),
+  JSON.stringify({ assets }, null, 2) + "\n",
+);
+console.log(`precache-manifest.json: ${assets.length} assets`);
@@ -0,0 +1,67 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Sign the sample report as a demo lab
+ * ═══════════════════════════════════════════════════════════════
+ *
+ *   npm run -s sample-report > report.json             # LAB-001
+ *   npm run -s sample-report -- LAB-002 > report.json
+ *
+ * Signs public/sample-medical-report.json, its series included,
+ * the way a lab's system would, and prints the signed report. It
+ * uploads in the lab portal and to `zkhealth prove`, and proves
+ * in real mode.
+ *
+ * The keys below belong to the demo labs that deploy-local
+ * registers. They are lab-side secrets: nothing the app ships
+ * imports this file, so the browser never sees them.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { ROOT } from "./paths.mjs";
+import { parseMedicalReport } from "@/lib/proof-pipeline";
+import { DEMO_LABS, labSignData, labSignReadings } from "@/lib/lab-signer";
+import type { ReportMarker } from "@/lib/claim-rules";
+
+/** sha256("zkhealth-demo-<labId>") */
+const DEMO_LAB_PRIVATE_KEYS: Record<string, string> = {
+  "LAB-001":
+    "0x28ce6a732aff8cfc0d883345f5a6336f4983027bb2b412fc2491279ef8ced26b",
+  "LAB-002":
+    "0x3952a7e625d6aec84aa5a8a6ba56e395661493fe121559d645e0da00f5b28894",
+  "LAB-003":
+    "0x968eca4d637d54d44ac2fe8a7641763683979155e32ffa9932bc9e4b8db6685c",
+};
+
+async function main() {
+  const labId = process.argv[2] ?? "LAB-001";
+  const lab = DEMO_LABS.find((l) => l.labId === labId);
+  if (!lab) {
+    throw new Error(
+      `Unknown demo lab "${labId}" (labs: ${DEMO_LABS.map((l) => l.labId).join(", ")}).`,
+    );
+  }
+  const key = DEMO_LAB_PRIVATE_KEYS[lab.labId];
+
+  const sample = parseMedicalReport(
+    readFileSync(join(ROOT, "public/sample-medical-report.json"), "utf8"),
+  );
+  const signed = await labSignData(lab, key, sample);
+  const series =
+    sample.series &&
+    (await labSignReadings(
+      key,
+      sample.series.marker as ReportMarker,
+      sample.series.readings,
+    ));
+
+  console.log(
+    JSON.stringify({ patientId: sample.patientId, ...signed, series }, null, 2),
+  );
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
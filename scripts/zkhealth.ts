@@ -0,0 +1,345 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * zkhealth — the lab and insurer flows without a browser
+ * ═══════════════════════════════════════════════════════════════
+ *
+ *   npm run zkhealth -- prove report.json --type diabetes_diagnosis \
+ *     --policy POL-1 --insurer Acme
+ *   npm run zkhealth -- bundle proof.json
+ *   npm run zkhealth -- sign claim.json --key keystore.json
+ *   npm run zkhealth -- verify claim.json
+ *
+ * Each command reads the file it is given, or stdin without one,
+ * and writes JSON to stdout, so the steps chain with pipes. They
+ * run the same lib modules as the portals: a bundle made here
+ * verifies in the insurer portal and the other way round. Circuits
+ * are read from public/circuits/; those without a pinned
+ * verification key prove SIMULATED. A proof is made for one policy
+ * (see nullifierScope), so the policy is named when proving and
+ * the bundle takes it from the proof.
+ *
+ * Exit codes: 0 done (or bundle valid), 1 bundle invalid or
+ * report not eligible for the claim, 2 bad usage or any other
+ * error.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { ethers } from "ethers";
+import { ROOT } from "./paths.mjs";
+import { CIRCUITS, REPORT_FIELDS, type CircuitId } from "@/lib/circuits";
+import type { Biomarker } from "@/lib/claim-rules";
+import { initializeCircuit, generateWitness } from "@/lib/zkp-engine";
+import { proveInWorker } from "@/lib/prover-client";
+import {
+  parseMedicalReport,
+  toWitnessInput,
+  toZKProof,
+} from "@/lib/proof-pipeline";
+import {
+  buildClaimBundle,
+  deserializeBundle,
+  serializeBundle,
+  CLAIM_TYPES,
+  type ClaimScope,
+  type ClaimType,
+} from "@/lib/claim-engine";
+import { fetchOracleThresholds } from "@/lib/threshold-oracle";
+import {
+  csvReportParser,
+  detectReportParser,
+  registerReportParser,
+  reportParsers,
+} from "@/lib/report-parsers";
+import { DEFAULT_CSV_MAPPING, type CsvMapping } from "@/lib/csv-import";
+import { signBundleAsLab } from "@/lib/chain";
+import {
+  DEFAULT_STRICT_MODE,
+  parseBundle,
+  verifyBundle,
+} from "@/lib/bundle-verifier";
+import type { ZKProof } from "@/hooks/use-zkp";
+
+const USAGE = `Usage: zkhealth <command> [file] [options]
+
+  prove  [report.json]  --type <claim type> --policy <number> --insurer <name>
+                        [--disclose <marker,…>] [--format <format>]
+                        [--csv-mapping <mapping.json>]
+  bundle [proof.json]   [--type <claim type>] [--policy <number>]
+                        [--insurer <name>] [--lab <name>] [--notes <text>]
+  sign   [bundle.json]  --key <keystore.json> [--password-file <file>]
+  verify [bundle.json]  [--no-strict]
+
+  --out <file>  write the result to a file instead of stdout
+
+Claim types: ${Object.keys(CLAIM_TYPES).join(", ")}
+Disclosable values: ${REPORT_FIELDS.join(", ")}
+Report formats: ${reportParsers()
+  .map((parser) => parser.id)
+  .join(", ")} (by file extension, json for stdin)
+The keystore password is read from --password-file or
+ZKHEALTH_KEYSTORE_PASSWORD.`;
+
+/** Wrong invocation: print the usage and exit with code 2. */
+class UsageError extends Error {}
+
+function isUsageError(err: unknown): boolean {
+  const code = (err as { code?: unknown } | null)?.code;
+  return (
+    err instanceof UsageError ||
+    (typeof code === "string" && code.startsWith("ERR_PARSE_ARGS"))
+  );
+}
+
+/* ── I/O ──────────────────────────────────────────────────── */
+
+function readInput(path: string | undefined): string {
+  return readFileSync(path ?? 0, "utf8");
+}
+
+function writeOutput(text: string, path: string | undefined) {
+  if (path) writeFileSync(path, `${text}\n`);
+  else process.stdout.write(`${text}\n`);
+}
+
+function claimTypeOf(value: string | undefined): ClaimType | undefined {
+  if (value === undefined) return undefined;
+  if (!(value in CLAIM_TYPES)) {
+    throw new UsageError(`Unknown claim type "${value}"`);
+  }
+  return value as ClaimType;
+}
+
+/** `--disclose sugar,bpSystolic`: report values to reveal. */
+function disclosureOf(value: string | undefined): Biomarker[] {
+  if (!value) return [];
+  return value.split(",").map((marker) => {
+    if (!(REPORT_FIELDS as string[]).includes(marker.trim())) {
+      throw new UsageError(
+        `Cannot disclose "${marker}" (report values: ${REPORT_FIELDS.join(", ")})`,
+      );
+    }
+    return marker.trim() as Biomarker;
+  });
+}
+
+/**
+ * `--format hl7v2`, or the format of the file's extension. A
+ * `--csv-mapping` file replaces the CSV columns it names.
+ */
+function reportFormatOf(options: Options, file: string | undefined): string {
+  if (options["csv-mapping"]) {
+    const custom = JSON.parse(
+      readFileSync(options["csv-mapping"] as string, "utf8"),
+    ) as Partial<CsvMapping>;
+    registerReportParser(
+      csvReportParser({
+        ...DEFAULT_CSV_MAPPING,
+        ...custom,
+        columns: { ...DEFAULT_CSV_MAPPING.columns, ...custom.columns },
+      }),
+    );
+  }
+  const format = options.format as string | undefined;
+  if (format) {
+    if (!reportParsers().some((parser) => parser.id === format)) {
+      throw new UsageError(`Unknown report format "${format}"`);
+    }
+    return format;
+  }
+  return (file && detectReportParser(file)?.id) ?? "json";
+}
+
+function required(value: string | undefined, flag: string): string {
+  if (!value?.trim()) throw new UsageError(`${flag} is required`);
+  return value.trim();
+}
+
+/**
+ * Load every compiled circuit from public/circuits/. The browser
+ * fetches them; here they are passed to the engine directly.
+ */
+async function loadCircuits() {
+  for (const [id, circuit] of Object.entries(CIRCUITS)) {
+    const path = join(ROOT, "public", circuit.artifactPath);
+    if (!existsSync(path)) continue;
+    await initializeCircuit(
+      id as CircuitId,
+      JSON.parse(readFileSync(path, "utf8")),
+    );
+  }
+}
+
+/* ── Commands ─────────────────────────────────────────────── */
+
+type Options = Record<string, string | boolean | undefined>;
+
+async function prove(file: string | undefined, options: Options) {
+  const claim: ClaimScope = {
+    claimType:
+      claimTypeOf(options.type as string | undefined) ?? "general_health",
+    insurerName: required(options.insurer as string, "--insurer"),
+    policyNumber: required(options.policy as string, "--policy"),
+  };
+  const data = parseMedicalReport(
+    readInput(file),
+    reportFormatOf(options, file),
+  );
+
+  await loadCircuits();
+  const oracle = await fetchOracleThresholds();
+  const witness = await generateWitness(
+    toWitnessInput(
+      data,
+      claim,
+      oracle,
+      disclosureOf(options.disclose as string | undefined),
+    ),
+  );
+  // No proof exists for a claim the report does not meet
+  const { failedConditions } = witness._eligibility;
+  if (failedConditions.length) {
+    console.error(`Not eligible: ${failedConditions.join("; ")}`);
+    return 1;
+  }
+
+  const generated = await proveInWorker(witness);
+  if (generated.mode === "simulated") {
+    console.error(
+      `Circuit ${CLAIM_TYPES[claim.claimType].circuit} is not compiled or has no pinned verification key — the proof is SIMULATED.`,
+    );
+  }
+  const proof = toZKProof(generated, claim, oracle);
+  writeOutput(JSON.stringify(proof, null, 2), options.out as string);
+  return 0;
+}
+
+async function bundle(file: string | undefined, options: Options) {
+  const proof = JSON.parse(readInput(file)) as ZKProof;
+  const claimType = claimTypeOf(options.type as string | undefined);
+  if (claimType && claimType !== proof.claimType) {
+    throw new Error(
+      `The proof was generated for ${proof.claimType}, not ${claimType}.`,
+    );
+  }
+
+  // The proof is scoped to its policy; naming another one fails
+  const claim = buildClaimBundle(
+    proof,
+    {
+      policyNumber:
+        (options.policy as string | undefined)?.trim() ?? proof.policyNumber,
+      claimType: proof.claimType,
+      insurerName:
+        (options.insurer as string | undefined)?.trim() ?? proof.insurerName,
+      notes: ((options.notes as string) ?? "").trim(),
+    },
+    (options.lab as string) ?? "Unknown Lab",
+  );
+  writeOutput(serializeBundle(claim), options.out as string);
+  return 0;
+}
+
+async function sign(file: string | undefined, options: Options) {
+  const draft = deserializeBundle(readInput(file));
+  if (!draft) {
+    throw new Error(
+      "Invalid claim bundle format. Expected a zkHealth claim JSON.",
+    );
+  }
+
+  const keystore = readFileSync(required(options.key as string, "--key"));
+  const password = options["password-file"]
+    ? readFileSync(options["password-file"] as string, "utf8").trim()
+    : process.env.ZKHEALTH_KEYSTORE_PASSWORD;
+  if (password === undefined) {
+    throw new UsageError(
+      "Set ZKHEALTH_KEYSTORE_PASSWORD or pass --password-file",
+    );
+  }
+
+  const wallet = await ethers.Wallet.fromEncryptedJson(
+    keystore.toString("utf8"),
+    password,
+  );
+  const issuer = await signBundleAsLab(draft, wallet);
+  writeOutput(serializeBundle({ ...draft, issuer }), options.out as string);
+  return 0;
+}
+
+/**
+ * The verdict is the insurer portal's: a bundle edited after the
+ * lab signed it is invalid. Unsigned bundles pass and say so.
+ */
+async function verify(file: string | undefined, options: Options) {
+  const claim = parseBundle(readInput(file));
+  const strict = options["no-strict"] ? false : DEFAULT_STRICT_MODE;
+
+  await loadCircuits();
+  const result = await verifyBundle(claim, { strict });
+
+  const verdict = {
+    claimId: claim.claimId,
+    valid: result.isValid,
+    mode: result.mode,
+    strict: result.strict,
+    checks: result.checks,
+    issuer: result.issuer,
+    verifiedAt: new Date(result.timestamp).toISOString(),
+  };
+  writeOutput(JSON.stringify(verdict, null, 2), options.out as string);
+  return result.isValid ? 0 : 1;
+}
+
+const COMMANDS: Record<
+  string,
+  (file: string | undefined, options: Options) => Promise<number>
+> = { prove, bundle, sign, verify };
+
+/* ── Main ─────────────────────────────────────────────────── */
+
+async function main(): Promise<number> {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      type: { type: "string" },
+      disclose: { type: "string" },
+      format: { type: "string" },
+      "csv-mapping": { type: "string" },
+      policy: { type: "string" },
+      insurer: { type: "string" },
+      lab: { type: "string" },
+      notes: { type: "string" },
+      key: { type: "string" },
+      "password-file": { type: "string" },
+      "no-strict": { type: "boolean" },
+      out: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [command, file, ...rest] = positionals;
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!command || !COMMANDS[command] || rest.length) {
+    throw new UsageError(
+      command && !COMMANDS[command]
+        ? `Unknown command "${command}"`
+        : "Expected a command and at most one file",
+    );
+  }
+  return COMMANDS[command](file, values);
+}
+
+main().then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err instanceof Error ? err.message : err);
+    if (isUsageError(err)) console.error(`\n${USAGE}`);
+    process.exit(2);
+  },
+);
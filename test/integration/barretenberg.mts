@@ -0,0 +1,26 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Barretenberg — telling a missing CRS from a failed proof
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * bb.js downloads its reference string from Aztec's CDN on the
+ * first proof. Where that host cannot be reached, nothing can be
+ * proven, so the suites that prove skip those tests with this
+ * reason instead of failing them; everything else still runs.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+const CRS_HOSTS = /crs\.aztec-(labs\.com|cdn\.foundation)/;
+
+/**
+ * The skip reason when `err` is bb.js failing to download the CRS,
+ * null for any other error.
+ */
+export function missingCrs(err: unknown): string | null {
+  const cause = (err as { cause?: unknown } | null)?.cause;
+  if (!CRS_HOSTS.test(`${err} ${cause ?? ""}`)) return null;
+  return (
+    "Barretenberg's CRS could not be downloaded from Aztec's CDN, " +
+    "so nothing can be proven here"
+  );
+}
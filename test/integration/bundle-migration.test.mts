@@ -0,0 +1,84 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Bundle Migration — v1.0.0 bundles load as v2
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * test/fixtures/claim-bundle-v1.json was written by the v1.0.0
+ * release: a simulated diabetes_diagnosis proof of the sample
+ * report, bundled by its buildClaimBundle and signed over its
+ * hashBundle with the second local-node account.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  deserializeBundle,
+  getProofBytes,
+  validateBundle,
+  type ClaimBundle,
+} from "@/lib/claim-engine";
+import { verifyBundleSignatureLocal } from "@/lib/chain";
+import { collectThresholds } from "@/lib/claim-rules";
+import { ROOT } from "../../scripts/paths.mjs";
+
+const V1_JSON = readFileSync(
+  join(ROOT, "test/fixtures/claim-bundle-v1.json"),
+  "utf8",
+);
+const V1 = JSON.parse(V1_JSON);
+
+describe("v1.0.0 bundle migration", () => {
+  let bundle: ClaimBundle;
+
+  before(() => {
+    // The fixture expires 30 days after it was written
+    mock.timers.enable({ apis: ["Date"], now: V1.createdAt });
+    const migrated = deserializeBundle(V1_JSON);
+    assert.ok(migrated);
+    bundle = migrated;
+  });
+
+  after(() => mock.timers.reset());
+
+  it("validates after migration", () => {
+    assert.deepEqual(validateBundle(bundle), { valid: true, errors: [] });
+    assert.equal(bundle.version, "2.0.0");
+    assert.equal(bundle.migratedFrom, "1.0.0");
+  });
+
+  it("names the circuit and rule the v1 proof was made with", () => {
+    assert.equal(bundle.proof.circuit, "medical_proof");
+    assert.equal(bundle.proof.circuitVersion, "1.0.0");
+    assert.equal(bundle.proof.mode, "simulated");
+    assert.equal(bundle.publicParams.rule.id, "general_any_marker");
+    assert.deepEqual(collectThresholds(bundle.publicParams.rule), {
+      sugar: 126,
+      cholesterol: 200,
+      bpSystolic: 140,
+    });
+  });
+
+  it("keeps the v1 issuer signature valid", async () => {
+    assert.deepEqual(await verifyBundleSignatureLocal(bundle), {
+      valid: true,
+      recoveredAddress: V1.issuer.labAddress,
+    });
+  });
+
+  it("fails the v1 signature when the migrated bundle is edited", async () => {
+    const edited = {
+      ...bundle,
+      policy: { ...bundle.policy, number: "POL-2024-9999" },
+    };
+    assert.equal((await verifyBundleSignatureLocal(edited)).valid, false);
+  });
+
+  it("reads the bare-hex v1 proof", () => {
+    const proof = getProofBytes(bundle);
+    assert.equal(proof.length, 64);
+    assert.equal("0x" + Buffer.from(proof).toString("hex"), V1.proof.hash);
+  });
+});
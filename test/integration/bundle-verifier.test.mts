@@ -0,0 +1,194 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Bundle Verifier — the insurer portal's verdict, in process
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Builds and signs a bundle with the lib modules the lab portal
+ * uses, then verifies it the way hooks/use-verifier does: one
+ * verifyBundle call, no CLI on top. Without pinned verification
+ * keys the proof is simulated, so strict mode is off. Nullifiers
+ * are scoped to the claim's policy: a report backs one claim per
+ * policy and claim type.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { ethers } from "ethers";
+import { ROOT } from "../../scripts/paths.mjs";
+import {
+  buildClaimBundle,
+  type ClaimBundle,
+  type ClaimDetails,
+} from "@/lib/claim-engine";
+import { signBundleAsLab } from "@/lib/chain";
+import { generateWitness } from "@/lib/zkp-engine";
+import { proveInWorker } from "@/lib/prover-client";
+import {
+  parseMedicalReport,
+  toWitnessInput,
+  toZKProof,
+} from "@/lib/proof-pipeline";
+import {
+  getBundleNullifier,
+  verifyBundle,
+  type VerificationCheck,
+  type VerificationResult,
+} from "@/lib/bundle-verifier";
+import type { NullifierRecord, NullifierStore } from "@/lib/nullifier-store";
+
+const REPORT = parseMedicalReport(
+  readFileSync(join(ROOT, "test/fixtures/signed-report.json"), "utf8"),
+);
+
+const CLAIM: ClaimDetails = {
+  policyNumber: "POL-1",
+  claimType: "diabetes_diagnosis",
+  insurerName: "Test Insurer",
+  notes: "",
+};
+
+/** Prove the report for a claim and bundle it, as the lab portal does. */
+async function bundleFor(claim: ClaimDetails): Promise<ClaimBundle> {
+  const witness = await generateWitness(toWitnessInput(REPORT, claim, null));
+  const proof = toZKProof(await proveInWorker(witness), claim, null);
+  return buildClaimBundle(proof, claim, "Metro Diagnostics Lab");
+}
+
+/** An insurer's record of approved claims, in memory. */
+function memoryStore(): NullifierStore {
+  const records = new Map<string, NullifierRecord>();
+  return {
+    lookup: (nullifier) => records.get(nullifier.toLowerCase()) ?? null,
+    record(nullifier, claimId) {
+      records.set(nullifier.toLowerCase(), {
+        nullifier,
+        claimId,
+        recordedAt: Date.now(),
+      });
+    },
+  };
+}
+
+function findCheck(
+  result: VerificationResult,
+  label: string,
+): VerificationCheck {
+  const check = result.checks.find((c) => c.label === label);
+  assert.ok(check, `no ${label} check`);
+  return check;
+}
+
+function issuerCheck(result: VerificationResult): VerificationCheck {
+  return findCheck(result, "Issuer signature");
+}
+
+describe("insurer portal verification", () => {
+  const wallet = ethers.Wallet.createRandom();
+  let signed: ClaimBundle;
+
+  before(async () => {
+    const draft = await bundleFor(CLAIM);
+    signed = { ...draft, issuer: await signBundleAsLab(draft, wallet) };
+  });
+
+  it("accepts the bundle as the lab signed it", async () => {
+    const result = await verifyBundle(signed, { strict: false });
+    assert.equal(result.isValid, true);
+    assert.equal(result.issuer.state, "signed_unregistered");
+    assert.equal(issuerCheck(result).passed, true);
+  });
+
+  it("fails a bundle whose policy was edited after signing", async () => {
+    const tampered = structuredClone(signed);
+    tampered.policy.number = "POL-2";
+
+    const result = await verifyBundle(tampered, { strict: false });
+    assert.equal(result.isValid, false);
+    assert.equal(result.issuer.state, "invalid");
+    assert.deepEqual(issuerCheck(result), {
+      label: "Issuer signature",
+      passed: false,
+      detail: "The signature does not match the bundle",
+    });
+  });
+
+  it("passes unsigned bundles and says so", async () => {
+    const unsigned = { ...signed, issuer: undefined };
+    const result = await verifyBundle(unsigned, { strict: false });
+    assert.equal(result.issuer.state, "unsigned");
+    assert.equal(issuerCheck(result).passed, true);
+  });
+});
+
+describe("one claim per report and policy", () => {
+  const nullifiers = memoryStore();
+  let first: ClaimBundle;
+
+  before(async () => {
+    first = await bundleFor(CLAIM);
+    const result = await verifyBundle(first, { strict: false, nullifiers });
+    assert.equal(result.isValid, true);
+    nullifiers.record(getBundleNullifier(first), first.claimId);
+  });
+
+  it("refuses a second claim on the same policy", async () => {
+    const second = await bundleFor({ ...CLAIM, notes: "Again" });
+    assert.equal(getBundleNullifier(second), getBundleNullifier(first));
+
+    const result = await verifyBundle(second, { strict: false, nullifiers });
+    assert.equal(result.isValid, false);
+    const check = findCheck(result, "Not previously claimed");
+    assert.equal(check.passed, false);
+    assert.match(check.detail, /^Report already claimed as CLM-/);
+  });
+
+  it("accepts the report under another policy", async () => {
+    const other = await bundleFor({ ...CLAIM, policyNumber: "POL-2" });
+    assert.notEqual(getBundleNullifier(other), getBundleNullifier(first));
+
+    const result = await verifyBundle(other, { strict: false, nullifiers });
+    assert.equal(result.isValid, true);
+    assert.equal(findCheck(result, "Not previously claimed").passed, true);
+  });
+
+  it("shares the scope between spellings of one policy", async () => {
+    const respelled = await bundleFor({
+      ...CLAIM,
+      insurerName: "  test   INSURER ",
+      policyNumber: "pol-1",
+    });
+    assert.equal(getBundleNullifier(respelled), getBundleNullifier(first));
+  });
+
+  it("does not bundle a proof under another policy", async () => {
+    const witness = await generateWitness(toWitnessInput(REPORT, CLAIM, null));
+    const proof = toZKProof(await proveInWorker(witness), CLAIM, null);
+    assert.throws(
+      () =>
+        buildClaimBundle(
+          proof,
+          { ...CLAIM, policyNumber: "POL-2" },
+          "Metro Diagnostics Lab",
+        ),
+      /not generated for a diabetes_diagnosis claim on policy "POL-2"/,
+    );
+  });
+
+  it("fails a bundle moved to another insurer", async () => {
+    const moved = structuredClone(first);
+    moved.policy.insurerName = "Other Insurer";
+    const result = await verifyBundle(moved, {
+      strict: false,
+      nullifiers: memoryStore(),
+    });
+    assert.deepEqual(findCheck(result, "Not previously claimed"), {
+      label: "Not previously claimed",
+      passed: false,
+      detail:
+        "Nullifier is not scoped to a diabetes_diagnosis claim on policy POL-1 at Other Insurer",
+    });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Circuit Artifacts — what public/circuits/ serves is pinned
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * lib/artifact-cache refuses an artifact without a pin, so a
+ * circuit missing here would silently prove in simulation. Each
+ * circuit of CIRCUITS must have a pin for its current version,
+ * the served artifact must match it, and the artifact must be
+ * what circuits/ compiles to today (npm run generate:circuits).
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { compileCircuit } from "../../scripts/compile-circuits.mjs";
+import { ROOT } from "../../scripts/paths.mjs";
+import { artifactIntegrity } from "@/lib/artifact-cache";
+import { PINNED_ARTIFACT_HASHES } from "@/lib/artifact-hashes";
+import { CIRCUITS } from "@/lib/circuits";
+
+describe("circuit artifacts", () => {
+  for (const circuit of Object.values(CIRCUITS)) {
+    const path = join(ROOT, "public", circuit.artifactPath);
+
+    it(`pins ${circuit.id} v${circuit.version}`, async () => {
+      const pinned = PINNED_ARTIFACT_HASHES[circuit.id]?.[circuit.version];
+      assert.ok(pinned, "no pin — run npm run pin:vk");
+      assert.equal(await artifactIntegrity(readFileSync(path)), pinned);
+    });
+
+    it(`serves ${circuit.id} as circuits/ compiles it`, async () => {
+      const served = JSON.parse(readFileSync(path, "utf8"));
+      const compiled = await compileCircuit(circuit.id);
+      assert.deepEqual(served.abi, compiled.abi);
+      assert.equal(
+        served.bytecode,
+        compiled.bytecode,
+        "stale — run npm run generate:circuits",
+      );
+    });
+  }
+});
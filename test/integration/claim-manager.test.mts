@@ -0,0 +1,250 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * ClaimManager — local-node integration test
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Deploys the contracts from contracts/ to a local dev node and
+ * drives them through lib/chain.ts: submit, process, status, and
+ * the nullifier registry that keeps a report to one claim. Claims
+ * are verified on submission, against the lab the proof names.
+ *
+ * The node is a Ganache chain the suite starts in-process, so
+ * nothing needs to run beforehand.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import ganache, { type EthereumProvider } from "ganache";
+import { compileContracts } from "../../scripts/compile-contracts.mjs";
+import {
+  getClaimManager,
+  getLabPubHash,
+  readClaimStatus,
+  readNullifierClaim,
+  submitClaim,
+} from "@/lib/chain";
+import { DEMO_LABS } from "@/lib/lab-signer";
+import { DEFAULT_CLAIM_RULE } from "@/lib/claim-rules";
+import {
+  getProofBytes,
+  nullifierScope,
+  type ClaimBundle,
+} from "@/lib/claim-engine";
+import { encodeProof } from "@/lib/proof-codec";
+
+const LAB = DEMO_LABS[0];
+
+function nullifierOf(report: number): string {
+  return ethers.toBeHex(report, 32);
+}
+
+/** Bundles for different reports differ in their nullifier. */
+function makeBundle(nullifier: string): ClaimBundle {
+  return {
+    version: "2.0.0",
+    claimId: "CLM-INTEGRATION",
+    policy: {
+      number: "POL-1",
+      claimType: "general_health",
+      claimTypeLabel: "General Health",
+      insurerName: "Test Insurer",
+      notes: "",
+    },
+    proof: {
+      hash: encodeProof(new Uint8Array(64).fill(0xab)),
+      publicInputs: [
+        LAB.labPubHash,
+        "126",
+        "200",
+        "140",
+        "0x17461c1365111786cee684f86fccc2aeaa77eb5c8e02a280607f190cda8a75ca",
+        ...Array(16).fill("0"), // Nothing disclosed
+        "1",
+        nullifierScope({
+          claimType: "general_health",
+          insurerName: "Test Insurer",
+          policyNumber: "POL-1",
+        }),
+        nullifier,
+      ],
+      verificationKey: "vk",
+      mode: "real",
+      circuit: "medical_proof",
+      circuitVersion: "1.4.0",
+      provingTimeMs: 0,
+    },
+    publicParams: {
+      thresholds: { sugar: 126, cholesterol: 200, bpSystolic: 140 },
+      rule: DEFAULT_CLAIM_RULE,
+      labIdentifier: LAB.labName,
+      nullifier,
+    },
+    createdAt: Date.now(),
+    expiresAt: Date.now() + 86_400_000,
+    submitterId: "integration-test",
+  };
+}
+
+/**
+ * The contract derives claim ids from sender and block timestamp,
+ * so consecutive submissions must land in different seconds.
+ */
+async function nextTimestamp() {
+  await provider.send("evm_increaseTime", [1]);
+  await provider.send("evm_mine", []);
+}
+
+let node: EthereumProvider;
+let provider: ethers.BrowserProvider;
+
+describe("ClaimManager on a local node", () => {
+  let claimManager: ethers.Contract;
+
+  before(async () => {
+    node = ganache.provider({
+      chain: { chainId: 31337 },
+      logging: { quiet: true },
+    });
+    provider = new ethers.BrowserProvider(node);
+    const signer = await provider.getSigner(0);
+    const artifacts = compileContracts();
+
+    async function deploy(name: string, ...args: unknown[]) {
+      const { abi, bytecode } = artifacts[name];
+      const factory = new ethers.ContractFactory(
+        abi as ethers.InterfaceAbi,
+        bytecode,
+        signer,
+      );
+      const contract = await factory.deploy(...args);
+      await contract.waitForDeployment();
+      return contract.getAddress();
+    }
+
+    const verifier = await deploy("MockzkHealthVerifier");
+    claimManager = getClaimManager(
+      signer,
+      await deploy("ClaimManager", verifier),
+    );
+  });
+
+  after(async () => {
+    provider.destroy();
+    await node.disconnect();
+  });
+
+  it("reads the claim id from the ClaimSubmitted event", async () => {
+    const bundle = makeBundle(nullifierOf(1));
+    const { claimId, txHash } = await submitClaim(claimManager, bundle);
+
+    const receipt = await provider.getTransactionReceipt(txHash);
+    assert.ok(receipt);
+    const claim = await claimManager.claims(claimId);
+    assert.equal(claim.exists, true);
+    assert.equal(claim.labPubHash, getLabPubHash(bundle));
+    assert.equal(await readClaimStatus(claimManager, claimId), "Submitted");
+  });
+
+  it("rejects claims from a lab that is not registered", async () => {
+    await nextTimestamp();
+    const { claimId } = await submitClaim(
+      claimManager,
+      makeBundle(nullifierOf(2)),
+    );
+
+    await (await claimManager.processManually(claimId)).wait();
+
+    assert.equal(await readClaimStatus(claimManager, claimId), "Rejected");
+    const claim = await claimManager.claims(claimId);
+    assert.equal(claim.rejectionReason, "Untrusted lab");
+  });
+
+  it("approves claims from a registered lab", async () => {
+    await (await claimManager.registerLab(LAB.labPubHash)).wait();
+    assert.equal(await claimManager.trustedLabs(LAB.labPubHash), true);
+
+    await nextTimestamp();
+    const { claimId } = await submitClaim(
+      claimManager,
+      makeBundle(nullifierOf(3)),
+    );
+    assert.equal(await readClaimStatus(claimManager, claimId), "Submitted");
+
+    await (await claimManager.processManually(claimId)).wait();
+
+    assert.equal(await readClaimStatus(claimManager, claimId), "Approved");
+    assert.equal(await claimManager.getPendingCount(), BigInt(1));
+  });
+
+  it("refuses a second claim on the same report", async () => {
+    await nextTimestamp();
+    const { claimId } = await submitClaim(
+      claimManager,
+      makeBundle(nullifierOf(4)),
+    );
+    assert.equal(
+      await readNullifierClaim(claimManager, nullifierOf(4)),
+      claimId,
+    );
+    await nextTimestamp();
+    await assert.rejects(
+      submitClaim(claimManager, makeBundle(nullifierOf(4))),
+    );
+    assert.equal(
+      await readNullifierClaim(claimManager, nullifierOf(4)),
+      claimId,
+    );
+  });
+
+  it("refuses an invalid proof without reserving its report", async () => {
+    await nextTimestamp();
+    const bundle = makeBundle(nullifierOf(6));
+    const { publicInputs } = bundle.proof;
+    publicInputs[publicInputs.length - 3] = "0"; // Result flag
+    await assert.rejects(submitClaim(claimManager, bundle));
+    assert.equal(
+      await readNullifierClaim(claimManager, nullifierOf(6)),
+      null,
+    );
+  });
+
+  it("refuses a lab the proof was not made for", async () => {
+    await nextTimestamp();
+    const bundle = makeBundle(nullifierOf(7));
+    const other = DEMO_LABS[1].labPubHash; // Trusted, but not the signer
+    await (await claimManager.registerLab(other)).wait();
+    await assert.rejects(
+      claimManager.submitClaim(
+        getProofBytes(bundle),
+        bundle.proof.publicInputs.map((v) => ethers.toBeHex(v, 32)),
+        other,
+      ),
+    );
+    await submitClaim(claimManager, bundle); // Under the proof's own lab
+  });
+
+  it("frees the report when its claim is rejected", async () => {
+    await nextTimestamp();
+    const bundle = makeBundle(nullifierOf(5));
+    bundle.proof.publicInputs[0] = ethers.ZeroHash; // Unregistered lab
+    const { claimId } = await submitClaim(claimManager, bundle);
+    await (await claimManager.processManually(claimId)).wait();
+    assert.equal(await readClaimStatus(claimManager, claimId), "Rejected");
+
+    assert.equal(
+      await readNullifierClaim(claimManager, nullifierOf(5)),
+      null,
+    );
+    await nextTimestamp();
+    await submitClaim(claimManager, makeBundle(nullifierOf(5)));
+  });
+
+  it("reports unknown claim ids as Unknown", async () => {
+    assert.equal(
+      await readClaimStatus(claimManager, ethers.ZeroHash),
+      "Unknown",
+    );
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * CSV Import — lab result exports to a report
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * test/fixtures/lab-results.csv is the FHIR and HL7 fixtures'
+ * results in DEFAULT_CSV_MAPPING's columns, with a pending HbA1c
+ * row. Exports laid out differently are read through a mapping,
+ * in code or with the CLI's --csv-mapping.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fromCsvExport, type CsvMapping } from "@/lib/csv-import";
+import { ROOT } from "../../scripts/paths.mjs";
+
+/** The policy the proofs here are claimed under. */
+const POLICY = ["--policy", "POL-1", "--insurer", "Test Insurer"];
+
+const FIXTURE = join(ROOT, "test/fixtures/lab-results.csv");
+const EXPORT = readFileSync(FIXTURE, "utf8");
+
+// A lab's own layout: semicolons and local test codes
+const LOCAL_EXPORT = [
+  "PatientID;TestCode;Value;Units;Date",
+  "P-1;GLU;7.8;mmol/L;2024-01-15",
+  "P-1;CHOL;185;mg/dL;2024-01-15",
+  "P-1;FERR;96;ng/mL;2024-01-15",
+].join("\n");
+const LOCAL_MAPPING: CsvMapping = {
+  delimiter: ";",
+  columns: {
+    patientId: "PatientID",
+    code: "TestCode",
+    value: "Value",
+    unit: "Units",
+    takenAt: "Date",
+  },
+  codes: { GLU: "sugar", CHOL: "cholesterol" },
+};
+
+function prove(args: string[]) {
+  const run = spawnSync(
+    join(ROOT, "node_modules/.bin/tsx"),
+    ["scripts/zkhealth.ts", "prove", ...args, ...POLICY],
+    { cwd: ROOT, encoding: "utf8" },
+  );
+  return { code: run.status, stdout: run.stdout, stderr: run.stderr };
+}
+
+describe("CSV import", () => {
+  it("maps result rows onto the report", () => {
+    const data = fromCsvExport(EXPORT);
+    assert.equal(data.sugar, 142); // 7.9 mmol/L, the later of two
+    assert.equal(data.cholesterol, 185);
+    assert.deepEqual(data.bloodPressure, { systolic: 128, diastolic: 82 });
+    assert.equal(data.creatinine, 0.9);
+    assert.equal(data.hba1c, undefined); // pending, no value yet
+    assert.equal(data.series?.readings.length, 2);
+  });
+
+  it("reads the patient, lab and report time", () => {
+    const data = fromCsvExport(EXPORT);
+    assert.equal(data.patientId, "MED-2024-7829");
+    assert.equal(data.sex, "male");
+    assert.equal(data.age, 54);
+    assert.equal(data.labName, "Metro Diagnostics Lab");
+    assert.equal(data.timestamp, "2024-01-15T08:20:00Z");
+    assert.deepEqual(data.unmapped, [
+      {
+        system: "http://loinc.org",
+        code: "2276-4",
+        display: "Ferritin",
+        count: 2,
+      },
+    ]);
+  });
+
+  it("reads exports through a column mapping", () => {
+    const data = fromCsvExport(LOCAL_EXPORT, LOCAL_MAPPING);
+    assert.equal(data.sugar, 141);
+    assert.equal(data.cholesterol, 185);
+    assert.equal(data.patientId, "P-1");
+    assert.deepEqual(data.unmapped, [
+      { system: undefined, code: "FERR", display: undefined, count: 1 },
+    ]);
+  });
+
+  it("rejects exports it cannot read", () => {
+    assert.throws(
+      () => fromCsvExport(LOCAL_EXPORT),
+      /no "loinc" column for the code \(columns: PatientID;TestCode;Value;Units;Date\)/,
+    );
+    assert.throws(
+      () => fromCsvExport("loinc,result,unit\n2345-7,7.8,mg/L"),
+      /Unknown unit "mg\/L" for Blood Sugar/,
+    );
+    assert.throws(
+      () => fromCsvExport("loinc,result,unit\n2345-7,high,mg/dL"),
+      /CSV line 2 \(2345-7\) value "high" is not a number/,
+    );
+  });
+
+  it("rejects exports of more than one patient", () => {
+    // Another patient's row, in a unit no import reads
+    const mixed = `${EXPORT.trimEnd()}\nMED-2024-1204,2345-7,Glucose,99,mg/L,2024-01-15T09:00:00Z,F,61,Metro Diagnostics Lab\n`;
+    assert.throws(
+      () => fromCsvExport(mixed),
+      /CSV line 11 is for patient "MED-2024-1204", not "MED-2024-7829": the CSV export holds results of more than one patient/,
+    );
+
+    const dir = mkdtempSync(join(tmpdir(), "zkhealth-csv-"));
+    writeFileSync(join(dir, "mixed.csv"), mixed);
+    const { code, stdout, stderr } = prove([
+      join(dir, "mixed.csv"),
+      "--type",
+      "diabetes_diagnosis",
+    ]);
+    assert.equal(code, 2);
+    assert.equal(stdout, "");
+    assert.match(stderr, /more than one patient/);
+  });
+
+  it("proves a claim from an export file", () => {
+    const { code, stdout, stderr } = prove([
+      FIXTURE,
+      "--type",
+      "diabetes_diagnosis",
+      "--disclose",
+      "sugar",
+    ]);
+    assert.equal(code, 0, stderr);
+    // Disclosed sugar follows the threshold, two hashes and 8 flags
+    assert.equal(JSON.parse(stdout).publicInputs[3 + 8], "142");
+  });
+
+  it("proves from a lab's layout with --csv-mapping", () => {
+    const dir = mkdtempSync(join(tmpdir(), "zkhealth-csv-"));
+    writeFileSync(join(dir, "export.txt"), LOCAL_EXPORT);
+    writeFileSync(join(dir, "mapping.json"), JSON.stringify(LOCAL_MAPPING));
+    const { code, stdout, stderr } = prove([
+      join(dir, "export.txt"),
+      "--format",
+      "csv",
+      "--csv-mapping",
+      join(dir, "mapping.json"),
+      "--type",
+      "diabetes_diagnosis",
+      "--disclose",
+      "sugar",
+    ]);
+    assert.equal(code, 0, stderr);
+    assert.equal(JSON.parse(stdout).publicInputs[3 + 8], "141");
+  });
+});
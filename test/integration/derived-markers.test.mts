@@ -0,0 +1,119 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Derived Markers — eGFR and cholesterol ratio from the report
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * The expected values mirror the tests in
+ * circuits/zkhealth/src/derived.nr and circuits/kidney_proof, so
+ * the simulation path and the circuit put a patient on the same
+ * side of a threshold.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  KIDNEY_RULE,
+  collectThresholds,
+  evaluateRule,
+  toCircuitUnits,
+} from "@/lib/claim-rules";
+import { decodePublicInputs } from "@/lib/circuits";
+import { computeEgfr, withDerivedMarkers } from "@/lib/derived-markers";
+import { ROOT } from "../../scripts/paths.mjs";
+
+/** The policy the proofs here are claimed under. */
+const POLICY = ["--policy", "POL-1", "--insurer", "Test Insurer"];
+
+const REPORT = JSON.parse(
+  readFileSync(join(ROOT, "public/sample-medical-report.json"), "utf8"),
+);
+
+function prove(report: object, type: string) {
+  const run = spawnSync(
+    join(ROOT, "node_modules/.bin/tsx"),
+    ["scripts/zkhealth.ts", "prove", "--type", type, ...POLICY],
+    { cwd: ROOT, input: JSON.stringify(report), encoding: "utf8" },
+  );
+  return { code: run.status, stdout: run.stdout, stderr: run.stderr };
+}
+
+describe("derived markers", () => {
+  it("computes eGFR as the circuit does", () => {
+    assert.equal(computeEgfr(90, 54, "male"), 101);
+    assert.equal(computeEgfr(139, 54, "male"), 60);
+    assert.equal(computeEgfr(140, 54, "male"), 59);
+    assert.equal(computeEgfr(139, 54, "female"), 45);
+    assert.equal(computeEgfr(60, 54, "female"), 106);
+  });
+
+  it("derives markers only from the values they need", () => {
+    const values = { creatinine: 1.4, cholesterol: 185, hdl: 38 };
+    assert.deepEqual(withDerivedMarkers(values, { age: 54, sex: "male" }), {
+      ...values,
+      egfr: 59,
+      cholesterolRatio: 4.8,
+    });
+    assert.equal(withDerivedMarkers(values, { age: 54 }).egfr, undefined);
+    assert.equal(
+      withDerivedMarkers(values, { age: 16, sex: "male" }).egfr,
+      undefined,
+    );
+  });
+
+  it("fails a below-threshold rule without the marker", () => {
+    assert.equal(evaluateRule(KIDNEY_RULE, { egfr: 59 }).passed, true);
+    assert.equal(evaluateRule(KIDNEY_RULE, { egfr: 60 }).passed, false);
+    assert.equal(evaluateRule(KIDNEY_RULE, {}).passed, false);
+  });
+
+  it("scales thresholds to circuit units and back", () => {
+    assert.equal(toCircuitUnits("hba1c", 6.5), 65);
+    assert.equal(toCircuitUnits("creatinine", 0.9), 90);
+    assert.throws(() => toCircuitUnits("hemoglobin", 14.25), /multiple/);
+    const decoded = decodePublicInputs("hba1c_proof", [
+      "0x01",
+      "65",
+      "0x02",
+      ...Array(16).fill("0"),
+      "1",
+      "0x03",
+      "0x04",
+    ]);
+    assert.deepEqual(decoded.thresholds, { hba1c: 6.5 });
+    assert.deepEqual(collectThresholds(KIDNEY_RULE), { egfr: 60 });
+  });
+
+  it("proves HbA1c from the sample report's commitment", () => {
+    // Salted with DEMO_SALT, like the reports in zkhealth's fixtures.nr
+    const { code, stdout, stderr } = prove(
+      {
+        ...REPORT,
+        salt: "0x00105185eccd3f2f1c46baf9d675718074ea06c82e114a82128791daf5dd28ec",
+      },
+      "diabetes_hba1c",
+    );
+    assert.equal(code, 0, stderr);
+    const { publicInputs } = JSON.parse(stdout);
+    assert.equal(publicInputs[1], "65");
+    // demo_report(142, 185, 128) in zkhealth's fixtures.nr
+    assert.equal(
+      publicInputs[2],
+      "0x30531923550c411e3a7b9d6d3ad13a88792c0e9a3425b500bbba2b9f78c98811",
+    );
+  });
+
+  it("proves reduced kidney function only below 60", () => {
+    const reduced = prove(
+      { ...REPORT, creatinine: { value: 1.4, unit: "mg/dL" } },
+      "kidney_disease",
+    );
+    assert.equal(reduced.code, 0, reduced.stderr);
+    const normal = prove(REPORT, "kidney_disease");
+    assert.notEqual(normal.code, 0);
+    assert.match(normal.stderr, /eGFR/);
+  });
+});
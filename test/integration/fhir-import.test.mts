@@ -0,0 +1,121 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * FHIR Import — R4 Bundles of lab Observations to a report
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * test/fixtures/fhir-bundle.json is the sample report as a lab
+ * system exports it: glucose measured twice in different units,
+ * a blood pressure panel in UCUM mm[Hg], creatinine in µmol/L, a
+ * withdrawn result and a ferritin code no claim reads.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { fromFhirBundle } from "@/lib/fhir-import";
+import { ROOT } from "../../scripts/paths.mjs";
+
+/** The policy the proofs here are claimed under. */
+const POLICY = ["--policy", "POL-1", "--insurer", "Test Insurer"];
+
+const BUNDLE = JSON.parse(
+  readFileSync(join(ROOT, "test/fixtures/fhir-bundle.json"), "utf8"),
+);
+
+function observation(code: string, value: number, unit: string) {
+  return {
+    resource: {
+      resourceType: "Observation",
+      status: "final",
+      code: { coding: [{ system: "http://loinc.org", code }] },
+      valueQuantity: { value, unit },
+    },
+  };
+}
+
+describe("FHIR import", () => {
+  it("maps coded observations onto the report", () => {
+    const data = fromFhirBundle(BUNDLE);
+    assert.equal(data.sugar, 142); // 7.9 mmol/L, the later of two
+    assert.equal(data.cholesterol, 185);
+    assert.deepEqual(data.bloodPressure, { systolic: 128, diastolic: 82 });
+    assert.equal(data.creatinine, 0.9);
+    assert.equal(data.hemoglobin, undefined);
+  });
+
+  it("reads the patient, lab and report time", () => {
+    const data = fromFhirBundle(BUNDLE);
+    assert.equal(data.patientId, "Patient/MED-2024-7829");
+    assert.equal(data.sex, "male");
+    assert.equal(data.age, 54);
+    assert.equal(data.labName, "Metro Diagnostics Lab");
+    assert.equal(data.timestamp, "2024-01-15T10:30:00Z");
+  });
+
+  it("keeps repeat results as a dated series", () => {
+    assert.deepEqual(fromFhirBundle(BUNDLE).series, {
+      marker: "sugar",
+      readings: [
+        { value: 131, takenAt: "2024-01-08T08:15:00Z" },
+        { value: 142, takenAt: "2024-01-15T08:20:00Z" },
+      ],
+    });
+  });
+
+  it("lists codes it does not map", () => {
+    assert.deepEqual(fromFhirBundle(BUNDLE).unmapped, [
+      {
+        system: "http://loinc.org",
+        code: "2276-4",
+        display: "Ferritin [Mass/volume] in Serum or Plasma",
+        count: 2,
+      },
+    ]);
+  });
+
+  it("rejects bundles it cannot read", () => {
+    assert.throws(
+      () => fromFhirBundle({ resourceType: "Observation" }),
+      /Only FHIR Bundles can be imported, got a Observation/,
+    );
+    assert.throws(
+      () =>
+        fromFhirBundle({
+          resourceType: "Bundle",
+          entry: [observation("2276-4", 96, "ng/mL")],
+        }),
+      /no observation with a supported LOINC code \(found: 2276-4\)/,
+    );
+    assert.throws(
+      () =>
+        fromFhirBundle({
+          resourceType: "Bundle",
+          entry: [observation("2345-7", 7.8, "mg/L")],
+        }),
+      /Unknown unit "mg\/L" for Blood Sugar/,
+    );
+  });
+
+  it("proves a claim from an uploaded bundle", () => {
+    const run = spawnSync(
+      join(ROOT, "node_modules/.bin/tsx"),
+      [
+        "scripts/zkhealth.ts",
+        "prove",
+        "--type",
+        "diabetes_diagnosis",
+        "--disclose",
+        "sugar",
+        ...POLICY,
+      ],
+      { cwd: ROOT, input: JSON.stringify(BUNDLE), encoding: "utf8" },
+    );
+    assert.equal(run.status, 0, run.stderr);
+    const { publicInputs } = JSON.parse(run.stdout);
+    // Disclosed sugar follows the threshold, two hashes and 8 flags
+    assert.equal(publicInputs[3 + 8], "142");
+  });
+});
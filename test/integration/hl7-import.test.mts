@@ -0,0 +1,125 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * HL7 Import — v2 ORU^R01 result messages to a report
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * test/fixtures/oru-r01.hl7 carries the same results as the FHIR
+ * bundle fixture: two panels, glucose coded locally with LOINC as
+ * the alternate code, a result marked wrong, blood pressure in
+ * mm[Hg] and ferritin, which no claim reads.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { fromHl7Message } from "@/lib/hl7-import";
+import { detectReportParser } from "@/lib/report-parsers";
+import { ROOT } from "../../scripts/paths.mjs";
+
+/** The policy the proofs here are claimed under. */
+const POLICY = ["--policy", "POL-1", "--insurer", "Test Insurer"];
+
+const FIXTURE = join(ROOT, "test/fixtures/oru-r01.hl7");
+const MESSAGE = readFileSync(FIXTURE, "utf8");
+
+const MSH = "MSH|^~\\&|LIS|Lab|||20240115103000||ORU^R01|1|P|2.5.1";
+
+describe("HL7 v2 import", () => {
+  it("maps LOINC-coded OBX results onto the report", () => {
+    const data = fromHl7Message(MESSAGE);
+    assert.equal(data.sugar, 142); // 7.9 mmol/L, the later of two
+    assert.equal(data.cholesterol, 185);
+    assert.deepEqual(data.bloodPressure, { systolic: 128, diastolic: 82 });
+    assert.equal(data.creatinine, 0.9);
+    assert.deepEqual(data.series?.readings, [
+      { value: 131, takenAt: "2024-01-08T08:15:00Z" },
+      { value: 142, takenAt: "2024-01-15T08:20:00Z" },
+    ]);
+  });
+
+  it("reads the patient, lab and report time", () => {
+    const data = fromHl7Message(MESSAGE);
+    assert.equal(data.patientId, "MED-2024-7829");
+    assert.equal(data.sex, "male");
+    assert.equal(data.age, 54);
+    assert.equal(data.labName, "Metro Diagnostics Lab");
+    assert.equal(data.timestamp, "2024-01-15T10:30:00Z");
+    assert.deepEqual(data.unmapped, [
+      {
+        system: "http://loinc.org",
+        code: "2276-4",
+        display: "Ferritin [Mass/volume] in Serum or Plasma",
+        count: 2,
+      },
+    ]);
+  });
+
+  it("reads carriage-return segments, escapes and time zones", () => {
+    const data = fromHl7Message(
+      [
+        MSH,
+        "OBX|1|NM|2345-7^Glucose^LN||126|mg/dL|||||F|||202401150820+0100",
+        "OBX|2|NM|2345-7^Glucose^LN||130|mg/dL|||||F|||202401160820",
+        "OBX|3|NM|X1^Ratio \\S\\ index^L||3|1|||||F",
+      ].join("\r"),
+    );
+    assert.deepEqual(data.series?.readings, [
+      { value: 126, takenAt: "2024-01-15T08:20:00+01:00" },
+      { value: 130, takenAt: "2024-01-16T08:20:00Z" },
+    ]);
+    assert.deepEqual(data.unmapped, [
+      { system: "L", code: "X1", display: "Ratio ^ index", count: 1 },
+    ]);
+  });
+
+  it("rejects messages it cannot read", () => {
+    assert.throws(
+      () => fromHl7Message("PID|1||P-1"),
+      /must start with an MSH segment/,
+    );
+    assert.throws(
+      () => fromHl7Message(MSH.replace("ORU^R01", "ADT^A01")),
+      /Only HL7 v2 ORU\^R01 messages can be imported, got ADT\^A01/,
+    );
+    assert.throws(
+      () => fromHl7Message(`${MSH}\nOBX|1|NM|2276-4^Ferritin^LN||96|ng/mL`),
+      /no OBX result with a supported LOINC code \(found: 2276-4\)/,
+    );
+    assert.throws(
+      () => fromHl7Message(`${MSH}\nOBX|1|NM|2345-7^Glucose^LN||7.8|mg/L`),
+      /Unknown unit "mg\/L" for Blood Sugar/,
+    );
+    assert.throws(
+      () =>
+        fromHl7Message(
+          `${MSH}\nPID|1||P-1\nPID|2||P-2\nOBX|1|NM|2345-7^Glucose^LN||126|mg/dL`,
+        ),
+      /more than one patient/,
+    );
+  });
+
+  it("proves a claim from a message file", () => {
+    assert.equal(detectReportParser("results.hl7")?.id, "hl7v2");
+    const run = spawnSync(
+      join(ROOT, "node_modules/.bin/tsx"),
+      [
+        "scripts/zkhealth.ts",
+        "prove",
+        FIXTURE,
+        "--type",
+        "diabetes_diagnosis",
+        "--disclose",
+        "sugar",
+        ...POLICY,
+      ],
+      { cwd: ROOT, encoding: "utf8" },
+    );
+    assert.equal(run.status, 0, run.stderr);
+    const { publicInputs } = JSON.parse(run.stdout);
+    // Disclosed sugar follows the threshold, two hashes and 8 flags
+    assert.equal(publicInputs[3 + 8], "142");
+  });
+});
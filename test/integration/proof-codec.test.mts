@@ -0,0 +1,177 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Proof Codec — round trips, framing errors, real proofs
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * The Barretenberg suite proves medical_proof with the inputs from
+ * circuits/medical_proof/prover.toml, sends the proof through the
+ * codec and verifies what comes out. Its setup compiles the circuit
+ * with noir_wasm (scripts/compile-circuits.mjs), so it runs against
+ * the sources in circuits/, not a stale artifact. Where Barretenberg
+ * cannot fetch its CRS the suite is skipped (see barretenberg.mts).
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { Noir, type InputMap } from "@noir-lang/noir_js";
+import { Barretenberg, UltraHonkBackend } from "@aztec/bb.js";
+import { compileCircuit } from "../../scripts/compile-circuits.mjs";
+import { missingCrs } from "./barretenberg.mjs";
+import {
+  decodeLegacyProof,
+  decodeProof,
+  encodeProof,
+  fromBase64Url,
+  toBase64Url,
+} from "@/lib/proof-codec";
+
+function bytes(length: number, seed = 0): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => (i * 31 + seed) % 256);
+}
+
+describe("proof codec", () => {
+  it("round-trips proofs of any length", () => {
+    for (const length of [0, 1, 64, 2144]) {
+      const proof = bytes(length, length);
+      assert.deepEqual(decodeProof(encodeProof(proof)), proof);
+    }
+  });
+
+  it("keeps leading zero bytes", () => {
+    const proof = Uint8Array.from([0, 0, 0, 7]);
+    assert.deepEqual(decodeProof(encodeProof(proof)), proof);
+  });
+
+  it("rejects hex without the 0x prefix", () => {
+    const encoded = encodeProof(bytes(16));
+    assert.throws(() => decodeProof(encoded.slice(2)), /0x-prefixed/);
+  });
+
+  it("rejects odd-length and non-hex input", () => {
+    assert.throws(() => decodeProof(encodeProof(bytes(16)) + "0"));
+    assert.throws(() => decodeProof("0xzz"));
+  });
+
+  it("rejects truncated and padded proofs", () => {
+    const encoded = encodeProof(bytes(32));
+    assert.throws(() => decodeProof(encoded.slice(0, -2)), /declares 32/);
+    assert.throws(() => decodeProof(encoded + "00"), /declares 32/);
+  });
+
+  it("rejects bare hex and unknown versions", () => {
+    assert.throws(() => decodeProof("0x" + "ab".repeat(64)), /framed/);
+    const encoded = encodeProof(bytes(8));
+    const future = encoded.slice(0, 6) + "02" + encoded.slice(8);
+    assert.throws(() => decodeProof(future), /version 2/);
+  });
+
+  it("reads bare hex from v1 bundles", () => {
+    assert.deepEqual(
+      decodeLegacyProof("0x00ff10"),
+      Uint8Array.from([0, 255, 16]),
+    );
+  });
+
+  it("round-trips base64url and reads standard base64", () => {
+    for (const length of [0, 1, 2, 3, 100]) {
+      const data = bytes(length, 250);
+      const encoded = toBase64Url(data);
+      assert.match(encoded, /^[A-Za-z0-9_-]*$/);
+      assert.deepEqual(fromBase64Url(encoded), data);
+      assert.deepEqual(
+        fromBase64Url(Buffer.from(data).toString("base64")),
+        data,
+      );
+    }
+  });
+});
+
+/* ── Barretenberg ─────────────────────────────────────────── */
+
+// circuits/medical_proof/prover.toml
+const INPUTS: InputMap = {
+  report: {
+    sugar: "142",
+    cholesterol: "185",
+    bp_systolic: "128",
+    bp_diastolic: "82",
+    hemoglobin: "142",
+    creatinine: "90",
+    hba1c: "68",
+    hdl: "42",
+    age: "54",
+    sex: "2",
+    salt: "0x00105185eccd3f2f1c46baf9d675718074ea06c82e114a82128791daf5dd28ec",
+  },
+  threshold_sugar: "126",
+  threshold_cholesterol: "200",
+  threshold_bp: "140",
+  lab_pub_hash:
+    "0x18e80e5c898cfe869da7c8cbfe64c4c90033e8b7a8e1af3c01a39f4920b2e964",
+  data_hash:
+    "0x30531923550c411e3a7b9d6d3ad13a88792c0e9a3425b500bbba2b9f78c98811",
+  disclose: Array(8).fill("0"),
+  disclosed: Array(8).fill("0"),
+  result: "1",
+  scope: "0x003850af9bb7042e4301d96b42103471f0bab074834792ebcccb807ca2d519c0",
+  nullifier:
+    "0x0d583292a230865080833a2b4aeb4cc63a0866f472a2a6258b2b2b1243d6d594",
+  lab_signature: {
+    pub_key_x:
+      "0x1bcbf4d90dddd3f8654365b72a658cd58f61c5db417215d22bea08bd60e4e35f",
+    pub_key_y:
+      "0x29c12d503e0d4cc508f40323b43ec76128b4b78ecf9183f8c739da74c474c698",
+    s: "0x02c322c1e505163824e959a1564214653bb8803e8e0fd550f31be354820927c7",
+    r8_x: "0x15a4a0a7352f68d6ab8c46174989a21d33bb60bb0daff95db2ae7b63c1e8a3ef",
+    r8_y: "0x1de4d56b4344c1d190ac064a7e227a726e4bc05bed6f1255c659e8e7ee190d52",
+  },
+};
+
+describe("proof codec with a Barretenberg proof", () => {
+  let api: Barretenberg | undefined;
+  let backend: UltraHonkBackend;
+  let proof: Uint8Array;
+  let publicInputs: string[];
+  let unavailable: string | null = null;
+
+  before(async () => {
+    const circuit = await compileCircuit("medical_proof");
+    const { witness } = await new Noir(circuit).execute(INPUTS);
+    api = await Barretenberg.new();
+    backend = new UltraHonkBackend(circuit.bytecode, api);
+    try {
+      ({ proof, publicInputs } = await backend.generateProof(witness));
+    } catch (err) {
+      unavailable = missingCrs(err);
+      if (!unavailable) throw err;
+    }
+  });
+
+  after(() => api?.destroy());
+
+  it("decodes to the exact bytes that were proved", (t) => {
+    if (unavailable) return t.skip(unavailable);
+    assert.deepEqual(decodeProof(encodeProof(proof)), proof);
+  });
+
+  it("verifies the decoded proof", async (t) => {
+    if (unavailable) return t.skip(unavailable);
+    const decoded = decodeProof(encodeProof(proof));
+    assert.equal(
+      await backend.verifyProof({ proof: decoded, publicInputs }),
+      true,
+    );
+  });
+
+  it("fails to verify a tampered proof", async (t) => {
+    if (unavailable) return t.skip(unavailable);
+    const encoded = encodeProof(proof);
+    const last = encoded.slice(-2) === "00" ? "01" : "00";
+    const tampered = decodeProof(encoded.slice(0, -2) + last);
+    const valid = await backend
+      .verifyProof({ proof: tampered, publicInputs })
+      .catch(() => false);
+    assert.equal(valid, false);
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Proof Conformance — simulation and circuits agree on eligibility
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Each report of the corpus is signed by a lab and run for its
+ * claim type twice: in simulated mode, where the engine evaluates
+ * the circuit's claim rule, and through the circuit itself, the
+ * artifact committed in public/circuits/ (which the circuit
+ * artifacts suite ties to circuits/). Both must reach the outcome
+ * the case expects, so a report can never pass in one mode and
+ * fail in the other. Reports that qualify are then proven and
+ * verified with Barretenberg, unless it cannot fetch its CRS
+ * (see barretenberg.mts).
+ *
+ * Cases sit on the thresholds where the two could drift apart:
+ * inclusive and exclusive comparisons, band edges, derived
+ * markers and readings that do or do not count.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  Noir,
+  type CompiledCircuit,
+  type InputMap,
+} from "@noir-lang/noir_js";
+import { Barretenberg, UltraHonkBackend } from "@aztec/bb.js";
+import { ROOT } from "../../scripts/paths.mjs";
+import { missingCrs } from "./barretenberg.mjs";
+import { CLAIM_TYPES, type ClaimType } from "@/lib/claim-engine";
+import { CIRCUITS, type CircuitId } from "@/lib/circuits";
+import {
+  createLabIdentity,
+  generateLabKeyPair,
+  labSignData,
+  labSignReadings,
+  type LabIdentity,
+  type LabReading,
+  type ReportContents,
+} from "@/lib/lab-signer";
+import { parseMedicalReport, toWitnessInput } from "@/lib/proof-pipeline";
+import { generateProof, generateWitness } from "@/lib/zkp-engine";
+
+interface ConformanceCase {
+  name: string;
+  claimType: ClaimType;
+  report: Partial<ReportContents>;
+  readings?: LabReading[];
+  qualifies: boolean;
+}
+
+/** Healthy on every marker; cases override what they test. */
+const BASELINE: ReportContents = {
+  sugar: 95,
+  cholesterol: 180,
+  bloodPressure: { systolic: 120, diastolic: 80 },
+  hemoglobin: 14,
+  creatinine: 0.9,
+  hba1c: 5.4,
+  hdl: 55,
+  age: 54,
+  sex: "female",
+};
+
+const CORPUS: ConformanceCase[] = [
+  {
+    name: "general health: healthy report",
+    claimType: "general_health",
+    report: {},
+    qualifies: false,
+  },
+  {
+    name: "general health: sugar on its threshold",
+    claimType: "general_health",
+    report: { sugar: 126 },
+    qualifies: true,
+  },
+  {
+    name: "general health: sugar just below its threshold",
+    claimType: "general_health",
+    report: { sugar: 125 },
+    qualifies: false,
+  },
+  {
+    name: "general health: cholesterol alone",
+    claimType: "general_health",
+    report: { cholesterol: 200 },
+    qualifies: true,
+  },
+  {
+    name: "general health: blood pressure alone",
+    claimType: "general_health",
+    report: { bloodPressure: { systolic: 140, diastolic: 80 } },
+    qualifies: true,
+  },
+  {
+    name: "cardiac: diastolic alone",
+    claimType: "cardiac_assessment",
+    report: { bloodPressure: { systolic: 130, diastolic: 90 } },
+    qualifies: true,
+  },
+  {
+    name: "cardiac: both just below",
+    claimType: "cardiac_assessment",
+    report: { bloodPressure: { systolic: 139, diastolic: 89 } },
+    qualifies: false,
+  },
+  {
+    name: "hypertension: lower edge of the band",
+    claimType: "hypertension_treatment",
+    report: { bloodPressure: { systolic: 140, diastolic: 85 } },
+    qualifies: true,
+  },
+  {
+    name: "hypertension: upper edge of the band",
+    claimType: "hypertension_treatment",
+    report: { bloodPressure: { systolic: 179, diastolic: 85 } },
+    qualifies: true,
+  },
+  {
+    name: "hypertension: above the band",
+    claimType: "hypertension_treatment",
+    report: { bloodPressure: { systolic: 180, diastolic: 85 } },
+    qualifies: false,
+  },
+  {
+    name: "HbA1c: on its threshold",
+    claimType: "diabetes_hba1c",
+    report: { hba1c: 6.5 },
+    qualifies: true,
+  },
+  {
+    name: "HbA1c: a tenth below",
+    claimType: "diabetes_hba1c",
+    report: { hba1c: 6.4 },
+    qualifies: false,
+  },
+  {
+    name: "anemia: hemoglobin below the threshold",
+    claimType: "anemia_treatment",
+    report: { hemoglobin: 11.9 },
+    qualifies: true,
+  },
+  {
+    name: "anemia: hemoglobin on the exclusive threshold",
+    claimType: "anemia_treatment",
+    report: { hemoglobin: 12 },
+    qualifies: false,
+  },
+  {
+    name: "kidney: reduced eGFR",
+    claimType: "kidney_disease",
+    report: { creatinine: 2.5, age: 65, sex: "male" },
+    qualifies: true,
+  },
+  {
+    name: "kidney: normal eGFR",
+    claimType: "kidney_disease",
+    report: {},
+    qualifies: false,
+  },
+  {
+    name: "lipid ratio: high",
+    claimType: "cardiovascular_risk",
+    report: { cholesterol: 250, hdl: 40 },
+    qualifies: true,
+  },
+  {
+    name: "lipid ratio: normal",
+    claimType: "cardiovascular_risk",
+    report: {},
+    qualifies: false,
+  },
+  {
+    name: "series: two diabetic readings on different days",
+    claimType: "diabetes_confirmation",
+    report: {},
+    readings: [
+      { value: 131, takenAt: "2026-03-02T08:00:00Z" },
+      { value: 128, takenAt: "2026-03-09T08:00:00Z" },
+    ],
+    qualifies: true,
+  },
+  {
+    name: "series: one diabetic reading",
+    claimType: "diabetes_confirmation",
+    report: {},
+    readings: [
+      { value: 131, takenAt: "2026-03-02T08:00:00Z" },
+      { value: 118, takenAt: "2026-03-09T08:00:00Z" },
+    ],
+    qualifies: false,
+  },
+];
+
+/** Strip engine bookkeeping, as the engine does before execution. */
+function toInputMap(witness: Record<string, unknown>): InputMap {
+  return Object.fromEntries(
+    Object.entries(witness).filter(([key]) => !key.startsWith("_")),
+  ) as InputMap;
+}
+
+describe("simulated and real proving agree on eligibility", () => {
+  const artifacts = new Map<CircuitId, CompiledCircuit>();
+  let api: Barretenberg;
+  let lab: LabIdentity;
+  let labKey: string;
+  let unavailable: string | null = null;
+
+  /** The artifact the app serves for the circuit. */
+  function circuitFor(id: CircuitId): CompiledCircuit {
+    let circuit = artifacts.get(id);
+    if (!circuit) {
+      const path = join(ROOT, "public", CIRCUITS[id].artifactPath);
+      circuit = JSON.parse(readFileSync(path, "utf8")) as CompiledCircuit;
+      artifacts.set(id, circuit);
+    }
+    return circuit;
+  }
+
+  /** Sign and upload a report as the lab portal would. */
+  async function witnessFor(c: ConformanceCase) {
+    const contents = { ...BASELINE, ...c.report };
+    const signed = await labSignData(lab, labKey, contents);
+    const series =
+      c.readings && (await labSignReadings(labKey, "sugar", c.readings));
+    const data = parseMedicalReport(JSON.stringify({ ...signed, series }));
+    return generateWitness(
+      toWitnessInput(
+        data,
+        { claimType: c.claimType, insurerName: "Acme", policyNumber: "POL-1" },
+        null,
+      ),
+    );
+  }
+
+  /** The engine in simulated mode: no circuit is ever initialized. */
+  function simulate(witness: Record<string, unknown>): Promise<boolean> {
+    return generateProof(witness).then(
+      () => true,
+      () => false,
+    );
+  }
+
+  /** The circuit decides: a witness it rejects cannot be proven. */
+  function execute(id: CircuitId, witness: Record<string, unknown>) {
+    return new Noir(circuitFor(id))
+      .execute(toInputMap(witness))
+      .then(({ witness: solved }) => solved, () => null);
+  }
+
+  before(async () => {
+    const keys = generateLabKeyPair();
+    labKey = keys.privateKey;
+    lab = await createLabIdentity(
+      "Conformance Lab",
+      "LAB-TEST",
+      keys.publicKey,
+    );
+    api = await Barretenberg.new();
+  });
+
+  after(() => api?.destroy());
+
+  for (const c of CORPUS) {
+    const { circuit } = CLAIM_TYPES[c.claimType];
+
+    it(c.name, async () => {
+      const witness = await witnessFor(c);
+      const solved = await execute(circuit, witness);
+
+      assert.equal(await simulate(witness), c.qualifies, "simulated");
+      assert.equal(solved !== null, c.qualifies, "circuit");
+    });
+
+    if (!c.qualifies) continue;
+    it(`${c.name}: proves and verifies`, async (t) => {
+      if (unavailable) return t.skip(unavailable);
+      const solved = await execute(circuit, await witnessFor(c));
+      assert.ok(solved, "circuit");
+
+      const backend = new UltraHonkBackend(circuitFor(circuit).bytecode, api);
+      let proof;
+      try {
+        proof = await backend.generateProof(solved);
+      } catch (err) {
+        unavailable = missingCrs(err);
+        if (!unavailable) throw err;
+        return t.skip(unavailable);
+      }
+      assert.equal(await backend.verifyProof(proof), true);
+    });
+  }
+});
@@ -0,0 +1,106 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Public Input Layouts — proofs of earlier circuit releases
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Bundles name the circuit version their proof was made with, and
+ * its public inputs are read by that version's layout: before
+ * lab_pub_hash led, it followed the thresholds, v1.0.0 had no
+ * nullifier and disclosure grew from three report fields to all.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getLabPubHash } from "@/lib/chain";
+import type { ClaimBundle } from "@/lib/claim-engine";
+import { decodePublicInputs, publicInputLayout } from "@/lib/circuits";
+import { fieldToHex } from "@/lib/pedersen";
+
+const LAB = "0x0a";
+const DATA = "0x0b";
+
+/** How decoding writes a field input. */
+const hex = (value: string) => fieldToHex(BigInt(value));
+
+describe("public inputs of earlier circuit releases", () => {
+  it("decodes a medical_proof v1.0.0 proof without a nullifier", () => {
+    const decoded = decodePublicInputs(
+      "medical_proof",
+      ["126", "200", "140", LAB, DATA, "1"],
+      "1.0.0",
+    );
+    assert.deepEqual(decoded, {
+      circuit: "medical_proof",
+      version: "1.0.0",
+      thresholds: { sugar: 126, cholesterol: 200, bpSystolic: 140 },
+      labPubHash: hex(LAB),
+      dataHash: hex(DATA),
+      result: true,
+      scope: "",
+      nullifier: "",
+      disclosed: {},
+    });
+  });
+
+  it("decodes the three disclosable fields of diabetes_proof v1.2.0", () => {
+    const decoded = decodePublicInputs(
+      "diabetes_proof",
+      [
+        "126",
+        LAB,
+        DATA,
+        ...["1", "0", "1"], // disclose
+        ...["142", "0", "128"], // disclosed
+        "1",
+        "0x03",
+        "0x04",
+      ],
+      "1.2.0",
+    );
+    assert.equal(decoded.labPubHash, hex(LAB));
+    assert.deepEqual(decoded.disclosed, { sugar: 142, bpSystolic: 128 });
+    assert.equal(decoded.nullifier, hex("0x04"));
+  });
+
+  it("reads the lab after the threshold in hba1c_proof v1.0.0", () => {
+    const decoded = decodePublicInputs(
+      "hba1c_proof",
+      ["65", LAB, DATA, ...Array(16).fill("0"), "1", "0x03", "0x04"],
+      "1.0.0",
+    );
+    assert.deepEqual(decoded.thresholds, { hba1c: 6.5 });
+    assert.equal(decoded.labPubHash, hex(LAB));
+    assert.equal(decoded.dataHash, hex(DATA));
+  });
+
+  it("has no diastolic threshold before cardiac_proof v1.3.0", () => {
+    const names = (version: string) =>
+      publicInputLayout("cardiac_proof", version)
+        ?.filter((spec) => spec.kind === "threshold")
+        .map((spec) => spec.name);
+    assert.deepEqual(names("1.2.0"), ["threshold_bp"]);
+    assert.deepEqual(names("1.3.0"), [
+      "threshold_bp",
+      "threshold_bp_diastolic",
+    ]);
+  });
+
+  it("refuses a version that was never released", () => {
+    assert.throws(
+      () => decodePublicInputs("lipid_ratio_proof", [], "1.5.0"),
+      /No public input layout for lipid_ratio_proof v1\.5\.0 \(released: v1\.0\.0, v1\.1\.0\)/,
+    );
+  });
+
+  it("takes the lab identity from the bundle's circuit version", () => {
+    const bundle = {
+      proof: {
+        circuit: "diabetes_series_proof",
+        circuitVersion: "1.1.0",
+        publicInputs: ["126", "3", "30", LAB, DATA, "1", "0x03", "0x04"],
+      },
+    } as unknown as ClaimBundle;
+    assert.equal(getLabPubHash(bundle), hex(LAB));
+  });
+});
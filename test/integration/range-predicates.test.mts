@@ -0,0 +1,117 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Range Predicates — bands from rule to public inputs
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * The boundary cases mirror the tests in
+ * circuits/hypertension_proof, so the simulation path and the
+ * circuit agree on who falls inside a band.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  HYPERTENSION_STAGE2_RULE,
+  collectThresholds,
+  evaluateRule,
+  sameRuleShape,
+  withThresholds,
+  type ClaimRule,
+  type RangePredicate,
+} from "@/lib/claim-rules";
+import { decodePublicInputs } from "@/lib/circuits";
+import { CLAIM_BUNDLE_SCHEMA, validateSchema } from "@/lib/bundle-schema";
+
+const BAND = HYPERTENSION_STAGE2_RULE.root as RangePredicate;
+
+function withBounds(lowerInclusive: boolean, upperInclusive: boolean) {
+  return {
+    ...HYPERTENSION_STAGE2_RULE,
+    root: {
+      ...BAND,
+      lower: { ...BAND.lower, inclusive: lowerInclusive },
+      upper: { ...BAND.upper, inclusive: upperInclusive },
+    },
+  } satisfies ClaimRule;
+}
+
+function qualifies(rule: ClaimRule, bpSystolic: number): boolean {
+  return evaluateRule(rule, { bpSystolic }).passed;
+}
+
+describe("range predicates", () => {
+  it("includes both bounds of the stage 2 band", () => {
+    const rule = HYPERTENSION_STAGE2_RULE;
+    assert.deepEqual(
+      [128, 139, 140, 152, 179, 180].map((bp) => qualifies(rule, bp)),
+      [false, false, true, true, true, false],
+    );
+  });
+
+  it("excludes bounds marked exclusive", () => {
+    const rule = withBounds(false, false);
+    assert.equal(qualifies(rule, 140), false);
+    assert.equal(qualifies(rule, 141), true);
+    assert.equal(qualifies(rule, 179), false);
+  });
+
+  it("says which side of the band a value fails on", () => {
+    const rule = HYPERTENSION_STAGE2_RULE;
+    const [below] = evaluateRule(rule, { bpSystolic: 128 }).outcomes;
+    const [above] = evaluateRule(rule, { bpSystolic: 185 }).outcomes;
+    const [inside] = evaluateRule(rule, { bpSystolic: 152 }).outcomes;
+    assert.equal(
+      below.description,
+      "BP Systolic: 128 mmHg < 140 mmHg (Below range)",
+    );
+    assert.equal(
+      above.description,
+      "BP Systolic: 185 mmHg > 179 mmHg (Above range)",
+    );
+    assert.match(inside.description, /140 ≤ 152 ≤ 179 mmHg/);
+  });
+
+  it("declares both bounds as public thresholds", () => {
+    assert.deepEqual(collectThresholds(HYPERTENSION_STAGE2_RULE), {
+      bpSystolic_lower: 140,
+      bpSystolic_upper: 179,
+    });
+    const decoded = decodePublicInputs("hypertension_proof", [
+      "0x01",
+      "140",
+      "179",
+      "0x02",
+      ...Array(16).fill("0"),
+      "1",
+      "0x03",
+      "0x04",
+    ]);
+    assert.deepEqual(decoded.thresholds, {
+      bpSystolic_lower: 140,
+      bpSystolic_upper: 179,
+    });
+  });
+
+  it("treats inclusiveness as shape and ignores the oracle", () => {
+    assert.equal(
+      sameRuleShape(
+        HYPERTENSION_STAGE2_RULE.root,
+        withBounds(true, false).root,
+      ),
+      false,
+    );
+    assert.deepEqual(
+      withThresholds(HYPERTENSION_STAGE2_RULE, { bpSystolic: 150 }).root,
+      BAND,
+    );
+  });
+
+  it("is accepted by the bundle schema", () => {
+    const schema = {
+      $defs: CLAIM_BUNDLE_SCHEMA.$defs,
+      $ref: "#/$defs/claimRule",
+    };
+    assert.deepEqual(validateSchema(HYPERTENSION_STAGE2_RULE, schema), []);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Report Units — stated units to the circuits' units
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Reports in SI units must prove the same claims as reports in
+ * US units, and a value whose unit is unknown must not reach the
+ * prover at all. test/fixtures/signed-report.json is the sample
+ * report as LAB-001 signs it (npm run sample-report), which must
+ * upload as it is.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { normalizeReport, toMarkerUnit } from "@/lib/report-units";
+import { ROOT } from "../../scripts/paths.mjs";
+
+/** The policy the proofs here are claimed under. */
+const POLICY = ["--policy", "POL-1", "--insurer", "Test Insurer"];
+
+const SIGNED = JSON.parse(
+  readFileSync(join(ROOT, "test/fixtures/signed-report.json"), "utf8"),
+);
+
+function zkhealth(args: string[], report: object) {
+  const run = spawnSync(
+    join(ROOT, "node_modules/.bin/tsx"),
+    ["scripts/zkhealth.ts", ...args],
+    { cwd: ROOT, input: JSON.stringify(report), encoding: "utf8" },
+  );
+  return { code: run.status, stdout: run.stdout, stderr: run.stderr };
+}
+
+describe("report units", () => {
+  it("converts SI units and rounds to circuit units", () => {
+    assert.equal(toMarkerUnit("sugar", { value: 7.8, unit: "mmol/L" }), 141);
+    assert.equal(toMarkerUnit("sugar", { value: 7.0, unit: "mmol/L" }), 126);
+    assert.equal(toMarkerUnit("hemoglobin", { value: 142, unit: "g/L" }), 14.2);
+    assert.equal(toMarkerUnit("hba1c", { value: 48, unit: "mmol/mol" }), 6.5);
+    assert.equal(toMarkerUnit("hdl", { value: 1.1, unit: "mmol/L" }), 43);
+  });
+
+  it("matches unit names loosely", () => {
+    for (const unit of ["µmol/L", "μmol/L", "umol/l", " UMOL/L "]) {
+      assert.equal(toMarkerUnit("creatinine", { value: 80, unit }), 0.9);
+    }
+    assert.equal(toMarkerUnit("sugar", { value: 142, unit: "MG/DL" }), 142);
+  });
+
+  it("converts blood pressure and series with one stated unit", () => {
+    const data = normalizeReport({
+      bloodPressure: { systolic: 17, diastolic: 11, unit: "kPa" },
+      series: {
+        marker: "sugar",
+        unit: "mmol/L",
+        readings: [{ value: 7.3, takenAt: "2024-01-08T08:15:00Z" }],
+      },
+    });
+    assert.deepEqual(data.bloodPressure, { systolic: 128, diastolic: 83 });
+    assert.deepEqual(data.series, {
+      marker: "sugar",
+      readings: [{ value: 132, takenAt: "2024-01-08T08:15:00Z" }],
+    });
+  });
+
+  it("rejects missing and unknown units", () => {
+    assert.throws(
+      () => normalizeReport({ sugar: 142 }),
+      /"sugar" must state its unit/,
+    );
+    assert.throws(
+      () =>
+        normalizeReport({ bloodPressure: { systolic: 128, diastolic: 82 } }),
+      /"bloodPressure" must state its unit/,
+    );
+    assert.throws(
+      () => normalizeReport({ sugar: { value: 7.8, unit: "mg/L" } }),
+      /Unknown unit "mg\/L" for Blood Sugar \(accepted: mg\/dL, mmol\/L\)/,
+    );
+    assert.throws(
+      () => normalizeReport({ hba1c: { value: -1, unit: "%" } }),
+      /"hba1c.value" must be a non-negative number/,
+    );
+  });
+
+  it("proves a report in mmol/L on the converted value", () => {
+    const proof = zkhealth(
+      [
+        "prove",
+        "--type",
+        "diabetes_diagnosis",
+        "--disclose",
+        "sugar",
+        ...POLICY,
+      ],
+      { sugar: { value: 7.8, unit: "mmol/L" } },
+    );
+    assert.equal(proof.code, 0, proof.stderr);
+    const { publicInputs } = JSON.parse(proof.stdout);
+    // Disclosed sugar follows the threshold, two hashes and 8 flags
+    assert.equal(publicInputs[3 + 8], "141");
+  });
+
+  it("reads a lab-signed report as the lab signed it", () => {
+    const data = normalizeReport(SIGNED);
+    assert.equal(data.sugar, 142);
+    assert.equal(data.hemoglobin, 14.2);
+    assert.deepEqual(data.bloodPressure, { systolic: 128, diastolic: 82 });
+    assert.equal(data.dataHash, SIGNED.dataHash);
+    assert.deepEqual(data.signature, SIGNED.signature);
+  });
+
+  it("proves a lab-signed report against its signed commitment", () => {
+    const proof = zkhealth(
+      [
+        "prove",
+        "--type",
+        "diabetes_diagnosis",
+        "--disclose",
+        "hemoglobin",
+        ...POLICY,
+      ],
+      SIGNED,
+    );
+    assert.equal(proof.code, 0, proof.stderr);
+    const { publicInputs } = JSON.parse(proof.stdout);
+    // lab_pub_hash, the threshold, then data_hash
+    assert.equal(publicInputs[0], SIGNED.labPubHash);
+    assert.equal(publicInputs[2], SIGNED.dataHash);
+    assert.equal(publicInputs[3 + 8 + 4], "142"); // 14.2 g/dL
+  });
+
+  it("refuses a report without units before proving", () => {
+    const { code, stderr } = zkhealth(
+      ["prove", "--type", "diabetes_diagnosis", ...POLICY],
+      { sugar: 7.8 },
+    );
+    assert.equal(code, 2);
+    assert.match(stderr, /"sugar" must state its unit/);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Selective Disclosure — chosen values from report to verdict
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * The disclosure cases mirror the tests in circuits/medical_proof.
+ * Proofs of the sample report as LAB-001 signed it are made by
+ * `zkhealth prove --disclose`, bundled, and verified with strict
+ * mode off, since without pinned verification keys they are
+ * simulated.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { join } from "node:path";
+import { decodePublicInputs } from "@/lib/circuits";
+import { validateBundle } from "@/lib/claim-engine";
+import type { VerificationCheck } from "@/lib/bundle-verifier";
+import { ROOT } from "../../scripts/paths.mjs";
+
+/** The policy the proofs here are claimed under. */
+const POLICY = ["--policy", "POL-1", "--insurer", "Test Insurer"];
+
+const REPORT = "test/fixtures/signed-report.json";
+
+function zkhealth(args: string[], input?: string) {
+  const run = spawnSync(
+    join(ROOT, "node_modules/.bin/tsx"),
+    ["scripts/zkhealth.ts", ...args],
+    { cwd: ROOT, input, encoding: "utf8" },
+  );
+  return { code: run.status, stdout: run.stdout, stderr: run.stderr };
+}
+
+function consistencyCheck(verdict: string): VerificationCheck {
+  return JSON.parse(verdict).checks.find(
+    (c: VerificationCheck) => c.label === "Public Inputs Consistency",
+  );
+}
+
+describe("selective disclosure", () => {
+  let bundle: string;
+
+  before(() => {
+    const proof = zkhealth([
+      "prove",
+      REPORT,
+      "--type",
+      "diabetes_diagnosis",
+      "--disclose",
+      "sugar",
+      ...POLICY,
+    ]);
+    assert.equal(proof.code, 0, proof.stderr);
+    const draft = zkhealth(
+      ["bundle"],
+      proof.stdout,
+    );
+    assert.equal(draft.code, 0, draft.stderr);
+    bundle = draft.stdout;
+  });
+
+  it("reveals only the flagged values", () => {
+    const decoded = decodePublicInputs("diabetes_proof", [
+      "0x01",
+      "126",
+      "0x02",
+      ...["1", "0", "1", "0", "1", "0", "0", "0"], // disclose
+      ...["142", "0", "128", "0", "142", "0", "0", "0"], // disclosed
+      "1",
+      "0x03",
+      "0x04",
+    ]);
+    assert.deepEqual(decoded.disclosed, {
+      sugar: 142,
+      bpSystolic: 128,
+      hemoglobin: 14.2,
+    });
+  });
+
+  it("carries the disclosed value in the bundle", () => {
+    const { proof, publicParams } = JSON.parse(bundle);
+    assert.deepEqual(publicParams.disclosed, { sugar: 142 });
+    assert.deepEqual(proof.publicInputs.slice(3, 19), [
+      ...["1", "0", "0", "0", "0", "0", "0", "0"],
+      ...["142", "0", "0", "0", "0", "0", "0", "0"],
+    ]);
+  });
+
+  it("verifies the disclosed value against the proof", () => {
+    const { code, stdout } = zkhealth(["verify", "--no-strict"], bundle);
+    assert.equal(code, 0);
+    const check = consistencyCheck(stdout);
+    assert.deepEqual(
+      check.comparisons?.find((c) => c.label === "Disclosed Blood Sugar"),
+      {
+        label: "Disclosed Blood Sugar",
+        proven: "142",
+        declared: "142",
+        match: true,
+      },
+    );
+  });
+
+  it("fails a bundle that declares another value", () => {
+    const altered = JSON.parse(bundle);
+    altered.publicParams.disclosed = { sugar: 120, cholesterol: 185 };
+    const { code, stdout } = zkhealth(
+      ["verify", "--no-strict"],
+      JSON.stringify(altered),
+    );
+    assert.equal(code, 1);
+    const check = consistencyCheck(stdout);
+    assert.equal(check.passed, false);
+    assert.match(check.detail, /Disclosed Blood Sugar, Disclosed Cholesterol/);
+  });
+
+  it("refuses to disclose from a series proof", () => {
+    const { code, stderr } = zkhealth([
+      "prove",
+      REPORT,
+      "--type",
+      "diabetes_confirmation",
+      "--disclose",
+      "sugar",
+      ...POLICY,
+    ]);
+    assert.equal(code, 2);
+    assert.match(stderr, /cannot disclose values/);
+  });
+
+  it("rejects unknown markers in the bundle schema", () => {
+    const draft = JSON.parse(bundle);
+    assert.equal(validateBundle(draft).valid, true);
+    draft.publicParams.disclosed = { ferritin: 85 };
+    const { errors } = validateBundle(draft);
+    assert.equal(errors[0].path, "/publicParams/disclosed/ferritin");
+  });
+});
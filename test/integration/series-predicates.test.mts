@@ -0,0 +1,197 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * Series Predicates — repeat readings from report to witness
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * The reading sets mirror the tests in
+ * circuits/diabetes_series_proof, so the simulation path and the
+ * circuit agree on which series confirm a diagnosis. Witnesses are
+ * built by `zkhealth prove`, whose commitments must match the
+ * circuit fixtures: their signatures are reused here.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  DIABETES_CONFIRMED_RULE,
+  collectThresholds,
+  evaluateRule,
+  toDayNumber,
+  type DatedReading,
+} from "@/lib/claim-rules";
+import { decodePublicInputs } from "@/lib/circuits";
+import { DEMO_LABS } from "@/lib/lab-signer";
+import { CLAIM_BUNDLE_SCHEMA, validateSchema } from "@/lib/bundle-schema";
+import { ROOT } from "../../scripts/paths.mjs";
+
+/** The policy the proofs here are claimed under. */
+const POLICY = ["--policy", "POL-1", "--insurer", "Test Insurer"];
+
+const JAN_08 = toDayNumber("2024-01-08T08:15:00Z");
+const JAN_15 = toDayNumber("2024-01-15T08:20:00Z");
+
+function readings(values: number[], days: number[]): DatedReading[] {
+  return values.map((value, i) => ({ value, day: days[i] }));
+}
+
+/** `zkhealth prove` for a confirmed diabetes claim, report on stdin. */
+function prove(report: string) {
+  const run = spawnSync(
+    join(ROOT, "node_modules/.bin/tsx"),
+    [
+      "scripts/zkhealth.ts",
+      "prove",
+      "--type",
+      "diabetes_confirmation",
+      ...POLICY,
+    ],
+    { cwd: ROOT, input: report, encoding: "utf8" },
+  );
+  return { code: run.status, stdout: run.stdout, stderr: run.stderr };
+}
+
+/** DEMO_SALT in zkhealth's fixtures.nr */
+const DEMO_SALT =
+  "0x00105185eccd3f2f1c46baf9d675718074ea06c82e114a82128791daf5dd28ec";
+
+/** LAB-001's signature over the first series in fixtures.nr */
+const SIGNED_131_142 = {
+  dataHash:
+    "0x2cd12be1d93e8acb43c02c5e81d848c12c2e48d07429db78aacf154aa1b9f45c",
+  signature: {
+    r8: {
+      x: "0x0d989afde935d4bd714e8379ac3c68dfd6e2c51f8fc04d5f0e3582d6781a1b98",
+      y: "0x0bbc757669933f10052a15a453dcba99f6ecc7008fcbde4c426089f28cf45977",
+    },
+    s: "0x06077e3a187f6c79e26eb36a53131328d71dcfa9f3c82d277e9ee8ab91184d72",
+  },
+};
+
+/** LAB-001's signature over the third series, 131 then 110 */
+const SIGNED_131_110 = {
+  dataHash:
+    "0x206fa23ede97ed2d50f0c173ac623aca5ba89809e9e254d0f3c166c106a6efe7",
+  signature: {
+    r8: {
+      x: "0x0ea6be448c0653a863c1888d83d405cc6e1fe808aee56aaae38f467f3d1099df",
+      y: "0x0e0625d2364fd9e1b517924778be98921fc5d8ebb33afd50c35f5eca8cf1ff0b",
+    },
+    s: "0x055ec95afc55d084237d48c5ab69a1bc04670ba4b3f20e3bc73326cd91757a61",
+  },
+};
+
+/**
+ * A report of sugar readings on Jan 8 and Jan 15 with a series
+ * signature from fixtures.nr, salted with DEMO_SALT.
+ */
+function seriesReport(
+  values: [number, number],
+  signed: typeof SIGNED_131_142,
+): string {
+  const lab = DEMO_LABS[0];
+  return JSON.stringify({
+    labPublicKey: lab.publicKey,
+    labPubHash: lab.labPubHash,
+    series: {
+      marker: "sugar",
+      unit: "mg/dL",
+      readings: [
+        { value: values[0], takenAt: "2024-01-08T08:15:00Z" },
+        { value: values[1], takenAt: "2024-01-15T08:20:00Z" },
+      ],
+      salt: DEMO_SALT,
+      ...signed,
+    },
+  });
+}
+
+function confirms(series: DatedReading[]): boolean {
+  return evaluateRule(DIABETES_CONFIRMED_RULE, {}, { sugar: series }).passed;
+}
+
+describe("series predicates", () => {
+  it("counts diabetic readings on different days only", () => {
+    assert.equal(confirms(readings([131, 142], [JAN_08, JAN_15])), true);
+    assert.equal(confirms(readings([131, 142], [JAN_08, JAN_08])), false);
+    assert.equal(confirms(readings([131, 110], [JAN_08, JAN_15])), false);
+    assert.equal(
+      confirms(readings([130, 135, 126], [JAN_08, JAN_08, JAN_08 + 1])),
+      true,
+    );
+  });
+
+  it("reports the count without the values", () => {
+    const { outcomes } = evaluateRule(
+      DIABETES_CONFIRMED_RULE,
+      {},
+      { sugar: readings([131, 110], [JAN_08, JAN_15]) },
+    );
+    assert.equal(
+      outcomes[0].description,
+      "Blood Sugar: 1 of 2 readings ≥ 126 mg/dL, ≥ 1 day apart (2 needed)",
+    );
+  });
+
+  it("declares the count and spacing as public inputs", () => {
+    assert.deepEqual(collectThresholds(DIABETES_CONFIRMED_RULE), {
+      sugar: 126,
+      sugar_readings: 2,
+      sugar_days_apart: 1,
+    });
+    const decoded = decodePublicInputs("diabetes_series_proof", [
+      "0x01",
+      "126",
+      "2",
+      "1",
+      "0x02",
+      "1",
+      "0x03",
+      "0x04",
+    ]);
+    assert.deepEqual(decoded.thresholds, {
+      sugar: 126,
+      sugar_readings: 2,
+      sugar_days_apart: 1,
+    });
+  });
+
+  it("proves signed readings with their commitment", () => {
+    const { code, stdout, stderr } = prove(
+      seriesReport([131, 142], SIGNED_131_142),
+    );
+    assert.equal(code, 0, stderr);
+    const { publicInputs } = JSON.parse(stdout);
+    assert.deepEqual(publicInputs.slice(1, 4), ["126", "2", "1"]);
+    assert.equal(publicInputs[4], SIGNED_131_142.dataHash);
+  });
+
+  it("salts the readings of an unsigned report afresh", () => {
+    const sample = readFileSync(
+      join(ROOT, "public/sample-medical-report.json"),
+      "utf8",
+    );
+    const [first, second] = [prove(sample), prove(sample)].map(
+      ({ stdout }) => JSON.parse(stdout).publicInputs,
+    );
+    assert.notEqual(first[4], second[4]); // data_hash
+    assert.notEqual(first[7], second[7]); // nullifier
+  });
+
+  it("rejects readings the lab did not sign", () => {
+    const { code, stderr } = prove(seriesReport([131, 142], SIGNED_131_110));
+    assert.equal(code, 2);
+    assert.match(stderr, /Data integrity check failed/);
+  });
+
+  it("is accepted by the bundle schema", () => {
+    const schema = {
+      $defs: CLAIM_BUNDLE_SCHEMA.$defs,
+      $ref: "#/$defs/claimRule",
+    };
+    assert.deepEqual(validateSchema(DIABETES_CONFIRMED_RULE, schema), []);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * zkhealth CLI — prove, bundle, sign and verify end to end
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Runs scripts/zkhealth.ts as a process on the sample report as
+ * LAB-001 signed it, the way a lab would script it. Without
+ * pinned verification keys the proof is simulated, so the verdict
+ * depends on strict mode.
+ * ═══════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ethers } from "ethers";
+import type { VerificationCheck } from "@/lib/bundle-verifier";
+import { hasPinnedVkHashes } from "@/lib/circuits";
+import { ROOT } from "../../scripts/paths.mjs";
+
+/** The policy the proofs here are claimed under. */
+const POLICY = ["--policy", "POL-1", "--insurer", "Test Insurer"];
+
+const PASSWORD = "correct horse battery staple";
+
+function zkhealth(
+  args: string[],
+  input?: string,
+  env: Record<string, string> = {},
+) {
+  const run = spawnSync(
+    join(ROOT, "node_modules/.bin/tsx"),
+    ["scripts/zkhealth.ts", ...args],
+    {
+      cwd: ROOT,
+      input,
+      encoding: "utf8",
+      env: { ...process.env, ZKHEALTH_KEYSTORE_PASSWORD: PASSWORD, ...env },
+    },
+  );
+  return { code: run.status, stdout: run.stdout, stderr: run.stderr };
+}
+
+function findCheck(verdict: string, label: string): VerificationCheck {
+  return JSON.parse(verdict).checks.find(
+    (c: VerificationCheck) => c.label === label,
+  );
+}
+
+function nullifierCheck(verdict: string): VerificationCheck {
+  return findCheck(verdict, "Not previously claimed");
+}
+
+describe("zkhealth CLI", () => {
+  const wallet = ethers.Wallet.createRandom();
+  let keystore: string;
+  let signed: string;
+
+  before(() => {
+    const dir = mkdtempSync(join(tmpdir(), "zkhealth-"));
+    keystore = join(dir, "keystore.json");
+    writeFileSync(
+      keystore,
+      ethers.encryptKeystoreJsonSync(
+        { address: wallet.address, privateKey: wallet.privateKey },
+        PASSWORD,
+        { scrypt: { N: 1024 } },
+      ),
+    );
+
+    const proof = zkhealth([
+      "prove",
+      "test/fixtures/signed-report.json",
+      "--type",
+      "diabetes_diagnosis",
+      ...POLICY,
+    ]);
+    assert.equal(proof.code, 0, proof.stderr);
+
+    const bundle = zkhealth(
+      ["bundle"],
+      proof.stdout,
+    );
+    assert.equal(bundle.code, 0, bundle.stderr);
+
+    const sign = zkhealth(["sign", "--key", keystore], bundle.stdout);
+    assert.equal(sign.code, 0, sign.stderr);
+    signed = sign.stdout;
+  });
+
+  it("signs with the keystore's account", () => {
+    const { issuer, policy } = JSON.parse(signed);
+    assert.equal(issuer.labAddress, wallet.address);
+    assert.equal(policy.claimType, "diabetes_diagnosis");
+  });
+
+  it("refuses the simulated proof in strict mode with exit code 1", () => {
+    const { code, stdout } = zkhealth(["verify"], signed, {
+      NEXT_PUBLIC_VERIFIER_STRICT: "true",
+    });
+    const verdict = JSON.parse(stdout);
+    assert.equal(code, 1);
+    assert.equal(verdict.valid, false);
+    assert.equal(verdict.mode, "simulated");
+    assert.equal(verdict.strict, true);
+  });
+
+  it("is strict by default only once a verification key is pinned", () => {
+    const { stdout } = zkhealth(["verify"], signed);
+    assert.equal(JSON.parse(stdout).strict, hasPinnedVkHashes());
+  });
+
+  it("accepts it with --no-strict and reports the issuer", () => {
+    const { code, stdout } = zkhealth(["verify", "--no-strict"], signed);
+    const verdict = JSON.parse(stdout);
+    assert.equal(code, 0);
+    assert.equal(verdict.valid, true);
+    assert.equal(verdict.issuer.state, "signed_unregistered");
+    assert.equal(verdict.issuer.labAddress, wallet.address);
+  });
+
+  it("trusts the known lab without an on-chain registry", () => {
+    const { stdout } = zkhealth(["verify", "--no-strict"], signed);
+    assert.deepEqual(findCheck(stdout, "Trusted Lab"), {
+      label: "Trusted Lab",
+      passed: true,
+      detail:
+        "Signed by Metro Diagnostics Lab (LAB-001), a known lab — on-chain registry unavailable",
+    });
+  });
+
+  it("fails a proof of a report no lab signed", () => {
+    // Unsigned uploads are signed with the public, untrusted demo key
+    const proof = zkhealth([
+      "prove",
+      "public/sample-medical-report.json",
+      "--type",
+      "diabetes_diagnosis",
+      ...POLICY,
+    ]);
+    assert.equal(proof.code, 0, proof.stderr);
+    const bundle = zkhealth(
+      ["bundle"],
+      proof.stdout,
+    );
+    const sign = zkhealth(["sign", "--key", keystore], bundle.stdout);
+    const { code, stdout } = zkhealth(["verify", "--no-strict"], sign.stdout);
+    assert.equal(code, 1);
+    const check = findCheck(stdout, "Trusted Lab");
+    assert.equal(check.passed, false);
+    assert.match(check.detail, /is not a known lab/);
+  });
+
+  it("checks the nullifier without an on-chain registry", () => {
+    const { stdout } = zkhealth(["verify", "--no-strict"], signed);
+    const check = nullifierCheck(stdout);
+    assert.equal(check.passed, true);
+    assert.match(check.detail, /on-chain registry unavailable/);
+  });
+
+  it("refuses a nullifier scoped to another claim type", () => {
+    const bundle = JSON.parse(signed);
+    bundle.policy.claimType = "diabetes_confirmation";
+    const { stdout } = zkhealth(
+      ["verify", "--no-strict"],
+      JSON.stringify(bundle),
+    );
+    const check = nullifierCheck(stdout);
+    assert.equal(check.passed, false);
+    assert.match(check.detail, /not scoped to a diabetes_confirmation claim/);
+  });
+
+  it("bundles the proof only under the policy it was made for", () => {
+    const proof = zkhealth([
+      "prove",
+      "test/fixtures/signed-report.json",
+      "--type",
+      "diabetes_diagnosis",
+      ...POLICY,
+    ]);
+    assert.equal(proof.code, 0, proof.stderr);
+    const { policy } = JSON.parse(zkhealth(["bundle"], proof.stdout).stdout);
+    assert.equal(policy.number, "POL-1");
+    assert.equal(policy.insurerName, "Test Insurer");
+
+    const moved = zkhealth(["bundle", "--policy", "POL-2"], proof.stdout);
+    assert.equal(moved.code, 2);
+    assert.match(moved.stderr, /not generated for a diabetes_diagnosis claim/);
+  });
+
+  it("fails a bundle whose proof was altered after signing", () => {
+    const bundle = JSON.parse(signed);
+    bundle.proof.publicInputs[1] = "100";
+    const { code, stdout } = zkhealth(
+      ["verify", "--no-strict"],
+      JSON.stringify(bundle),
+    );
+    const verdict = JSON.parse(stdout);
+    assert.equal(code, 1);
+    assert.equal(verdict.issuer.state, "invalid");
+  });
+
+  it("fails a bundle whose policy was edited after signing", () => {
+    const bundle = JSON.parse(signed);
+    bundle.policy.number = "POL-2";
+    const { code, stdout } = zkhealth(
+      ["verify", "--no-strict"],
+      JSON.stringify(bundle),
+    );
+    const verdict = JSON.parse(stdout);
+    assert.equal(code, 1);
+    assert.equal(verdict.valid, false);
+    assert.deepEqual(
+      verdict.checks.find(
+        (c: VerificationCheck) => c.label === "Issuer signature",
+      ),
+      {
+        label: "Issuer signature",
+        passed: false,
+        detail: "The signature does not match the bundle",
+      },
+    );
+  });
+
+  it("stops at a report that is not eligible with exit code 1", () => {
+    const report = JSON.parse(
+      readFileSync(join(ROOT, "public/sample-medical-report.json"), "utf8"),
+    );
+    report.sugar = { value: 92, unit: "mg/dL" };
+    const { code, stdout, stderr } = zkhealth(
+      ["prove", "--type", "diabetes_diagnosis", ...POLICY],
+      JSON.stringify(report),
+    );
+    assert.equal(code, 1);
+    assert.equal(stdout, "");
+    assert.match(stderr, /^Not eligible: Blood Sugar: 92 mg\/dL < 126/m);
+    assert.doesNotMatch(stderr, /\n\s+at /); // no stack trace
+  });
+
+  it("exits with 2 on bad usage", () => {
+    assert.equal(zkhealth(["frobnicate"]).code, 2);
+    assert.equal(zkhealth(["prove", "--type", "diabetes_diagnosis"]).code, 2);
+  });
+});